@@ -11,6 +11,8 @@ import boxen from 'boxen';
 import { config } from './config/index.js';
 import { Indexer } from './core/indexer.js';
 import { EmbeddingService } from './core/embeddings.js';
+import { getStorageBackend } from './core/vector-store.js';
+import { resolveEmbeddingSettings } from './core/embedding-providers.js';
 import dotenv from 'dotenv';
 
 // Load environment
@@ -19,11 +21,13 @@ dotenv.config();
 async function main() {
   console.clear();
   
+  const embedding = resolveEmbeddingSettings();
+  
   // Show config
   const configBox = boxen(
     chalk.cyan.bold('🚀 MongoDB Documentation Indexer\n\n') +
-    chalk.white(`Model: ${chalk.green(config.embedding.model)}\n`) +
-    chalk.white(`Dimensions: ${chalk.green(config.embedding.dimensions)}\n`) +
+    chalk.white(`Model: ${chalk.green(`${embedding.model} (${embedding.provider})`)}\n`) +
+    chalk.white(`Dimensions: ${chalk.green(embedding.dimensions)}\n`) +
     chalk.white(`Repositories: ${chalk.green(config.repositories.length)}\n`) +
     chalk.white(`Batch Size: ${chalk.green(config.embedding.maxBatchSize)}`),
     {
@@ -36,12 +40,18 @@ async function main() {
   
   console.log(configBox);
   
-  // Check environment
-  if (!process.env.MONGODB_URI || !process.env.VOYAGE_API_KEY) {
+  // Check environment - the local backend needs no MongoDB URI, other providers no Voyage key
+  const needsMongo = getStorageBackend() === 'mongodb';
+  const needsVoyage = embedding.provider === 'voyage';
+  if ((needsMongo && !process.env.MONGODB_URI) || (needsVoyage && !process.env.VOYAGE_API_KEY)) {
     console.error(chalk.red('\n❌ Missing environment variables!'));
     console.log(chalk.yellow('\nRequired:'));
-    console.log('  MONGODB_URI=your-connection-string');
-    console.log('  VOYAGE_API_KEY=your-api-key');
+    if (needsMongo) {
+      console.log('  MONGODB_URI=your-connection-string (or EMBEDOCS_STORAGE=local)');
+    }
+    if (needsVoyage) {
+      console.log('  VOYAGE_API_KEY=your-api-key (or EMBEDOCS_EMBEDDING_PROVIDER=openai|hashing)');
+    }
     process.exit(1);
   }
   
@@ -73,10 +83,20 @@ async function main() {
         spinner.succeed('Statistics retrieved');
         
         console.log(chalk.cyan('\n📊 Database Statistics:'));
+        console.log(chalk.white(`  Backend: ${stats.backend}`));
         console.log(chalk.white(`  Documents: ${stats.totalDocuments}`));
         console.log(chalk.white(`  Products: ${stats.products.join(', ')}`));
         console.log(chalk.white(`  Models: ${stats.models.join(', ')}`));
         console.log(chalk.white(`  Expected: ${stats.expectedModel} (${stats.expectedDimensions}d)`));
+
+        const cache = stats.embeddingCache;
+        console.log(chalk.cyan('\n💾 Embedding Cache:'));
+        if (cache.enabled) {
+          console.log(chalk.white(`  Entries: ${cache.entries} (${cache.path})`));
+          console.log(chalk.white(`  Hits: ${cache.hits} / Misses: ${cache.misses} (${cache.hitRate} hit rate)`));
+        } else {
+          console.log(chalk.gray('  Disabled (EMBEDOCS_EMBEDDING_CACHE=off)'));
+        }
         break;
       }
         
@@ -90,8 +110,8 @@ async function main() {
         console.log(chalk.green('\n✅ Embedding Test Result:'));
         console.log(chalk.white(`  Model: ${testResult.model}`));
         console.log(chalk.white(`  Dimensions: ${testResult.dimensions}`));
-        console.log(chalk.white(`  Expected: ${config.embedding.dimensions}`));
-        console.log(chalk.white(`  Match: ${testResult.dimensions === config.embedding.dimensions ? '✅' : '❌'}`));
+        console.log(chalk.white(`  Expected: ${embedService.dimensions}`));
+        console.log(chalk.white(`  Match: ${testResult.dimensions === embedService.dimensions ? '✅' : '❌'}`));
         break;
       }
         
@@ -6,19 +6,41 @@
 export const config = {
   // Model Configuration
   embedding: {
-    provider: 'voyage',
-    model: 'voyage-context-3',
+    provider: 'voyage', // 'voyage' | 'openai' | 'hashing' - override with EMBEDOCS_EMBEDDING_PROVIDER
+    model: 'voyage-context-3', // Override with EMBEDOCS_EMBEDDING_MODEL (dimensions: EMBEDOCS_EMBEDDING_DIMENSIONS)
     dimensions: 1024,
     apiUrl: 'https://api.voyageai.com/v1/contextualizedembeddings',
     maxBatchSize: 8, // Reduced to prevent token limit errors
     maxTokens: 8000,
+    contextTokenLimit: 30000, // Per document (inner list) for voyage-context-3 - API max is 32K
+    contextRequestTokenLimit: 100000, // Per request across all documents - API max is 120K
     timeout: 60000,
     retries: 3,
-    rateLimit: 100 // ms between API calls
+    rateLimit: 100, // ms between API calls
+    // Any OpenAI-compatible /v1/embeddings server (Ollama, LM Studio, vLLM)
+    openai: {
+      baseUrl: 'http://localhost:11434/v1', // Override with EMBEDOCS_EMBEDDING_URL
+      model: 'nomic-embed-text',
+      dimensions: 768,
+      maxTokens: 8192
+    },
+    // Deterministic, offline embeddings for tests
+    hashing: {
+      dimensions: 256,
+      maxTokens: 8192
+    }
   },
-  
-  // MongoDB Configuration
+
+  // Embedding Cache - reuse vectors for chunks whose text hasn't changed
+  embeddingCache: {
+    enabled: true, // Disable with EMBEDOCS_EMBEDDING_CACHE=off
+    path: '.embedocs/embedding-cache' // Override with EMBEDOCS_EMBEDDING_CACHE_PATH
+  },
+
+  // Storage Configuration
   storage: {
+    backend: 'mongodb', // 'mongodb' (Atlas) or 'local' (file-backed) - override with EMBEDOCS_STORAGE
+    localPath: '.embedocs/store', // Local store directory - override with EMBEDOCS_LOCAL_PATH
     database: 'mongodb_semantic_docs',
     collection: 'documents',
     vectorIndexName: 'semantic_search',
@@ -32,23 +54,93 @@ export const config = {
     chunkOverlap: 150,
     maxParallelDocs: 100,
     batchSize: 8, // Reduced to prevent EPIPE errors
-    rateLimit: 100 // ms between API calls
+    rateLimit: 100, // ms between API calls
+    // File eligibility - shared by full scans and smart updates (see FilePolicy)
+    maxDepth: 10,
+    maxFileSize: 10_000_000, // 10MB max (increased for code files)
+    // PDF and DOCX - text is extracted in-process, no external services
+    maxDocumentSize: 25_000_000, // Binary documents carry fonts and images, so they get a larger limit
+    maxDocumentPages: 300, // Later PDF pages are not indexed
+    skipDirs: ['node_modules', '.git', 'build', 'dist', 'target', '.next', '.cache', 'coverage']
+  },
+
+  // Chunking - structural chunking needs no API calls, so the same files always give the same chunks
+  chunking: {
+    mode: 'structural', // 'structural' | 'semantic' (embedding-based breakpoints, opt-in) - override with EMBEDOCS_CHUNKING
+    // Per extension, e.g. { '.rst': 'semantic' } - override with EMBEDOCS_CHUNKING_FILE_TYPES=".rst=semantic,.txt=semantic"
+    // Without an entry, plain prose (.txt, .wiki, .org) follows `mode`; markup, code and config files are structural
+    fileTypes: {} as Record<string, 'structural' | 'semantic'>,
+    maxTokens: 512, // Recursive chunker budget - about indexing.chunkSize characters of prose
+    // Jupyter notebooks - markdown and code cells, binary outputs (images, HTML widgets) always dropped
+    notebook: {
+      maxTokens: 1000, // Per group of cells - a markdown cell and the code cells under it
+      keepOutputs: true, // Keep short text outputs (stdout, results, errors) after their code cell
+      maxOutputChars: 500 // Longer outputs are dropped
+    }
+  },
+
+  // Secret Scanning - runs on file content before anything is chunked, embedded or stored
+  secrets: {
+    mode: 'redact', // 'redact' | 'skip' (drop the whole file) | 'off' - override with EMBEDOCS_SECRETS
+    reportPath: '.embedocs/secret-reports', // One JSON report per repository
+    entropyThreshold: 4.2, // Bits per character for unlabeled tokens - random base64 of 32+ chars scores ~4.5
+    minEntropyLength: 32
+  },
+
+  // Web Sources - documentation sites crawled into Markdown (`"type": "web"` in .repos/metadata.json)
+  web: {
+    maxPages: 500, // Per source - `maxPages` on the source overrides
+    timeoutMs: 15000, // Per request
+    maxCrawlDelayMs: 10000, // robots.txt Crawl-delay is honored up to this
+    userAgent: 'EmbeDocs-MCP' // Sent with every request and matched against robots.txt groups
   },
   
   // Search Configuration - OPTIMIZED with MongoDB Dev's proven parameters
   search: {
-    reranker: 'rerank-2.5',
-    minVectorScore: 0.7,
-    minKeywordScore: 0.3,
+    reranker: 'rerank-2.5', // Voyage AI rerank model
+    // Second-stage ranking of fused results (see rerankers)
+    reranking: {
+      provider: 'auto', // 'auto' (Voyage with VOYAGE_API_KEY, else lexical) | 'voyage' | 'lexical' | 'none' - override with EMBEDOCS_RERANKER
+      timeout: 10000,
+      // Offline lexical reranker - BM25F over title, path and content
+      lexical: {
+        fieldWeights: { title: 2, path: 1.5, content: 1 },
+        k1: 1.2,
+        b: 0.75,
+        proximityWeight: 0.2,  // Query terms close together in the content
+        identifierWeight: 0.2  // Identifiers from the query (insertMany, find_one, $lookup) found verbatim
+      }
+    },
+    // Score thresholds - results below them are dropped
+    minVectorScore: 0.7,   // Vector leg, (1 + cos) / 2 like Atlas' cosine score
+    minKeywordScore: 0.3,  // Keyword leg, BM25
+    minRerankScore: 0.05,  // After Voyage reranking, 0-1 relevance
+    // Flag the response as low confidence when the best result scores below these
+    lowConfidence: {
+      rerankScore: 0.3,    // When Voyage reranked the results
+      vectorScore: 0.8     // Otherwise, by vector similarity
+    },
     vectorWeight: 0.6,
     keywordWeight: 0.4,
     maxResults: 20,
     numCandidates: 40,     // OPTIMIZED: MongoDB Dev's proven 40 (vs 300) = 7.5x faster!
+    // Hybrid fusion - server-side $rankFusion / $scoreFusion when the cluster supports them
+    fusion: {
+      mode: 'auto',             // 'auto' | 'rankFusion' | 'scoreFusion' | 'manual' - override with EMBEDOCS_FUSION
+      k: 60,                    // RRF constant - $rankFusion is fixed at 60, so 'auto' keeps client-side RRF for other values
+      normalization: 'sigmoid'  // $scoreFusion score normalization: 'none' | 'sigmoid' | 'minMaxScaler'
+    },
     // MMR Configuration - inspired by Harry-231's approach
     mmr: {
       fetchK: 20,        // More candidates to consider for diversity
       lambdaMult: 0.7,   // Balance: 0.7 relevance, 0.3 diversity
       defaultLimit: 5    // OPTIMIZED: MongoDB Dev's proven limit (vs 10)
+    },
+    // Grouped results (groupByFile) - chunks collapsed by source file
+    grouping: {
+      candidateMultiplier: 4, // Chunks fetched per requested file
+      chunksPerFile: 2,       // Best chunks shown for each file
+      otherChunkWeight: 0.25  // Share of each further matching chunk's score added to the best one
     }
   },
   
@@ -63,6 +155,10 @@ export const config = {
 
 // Type exports for clean interfaces
 export type EmbeddingConfig = typeof config.embedding;
+export type EmbeddingCacheConfig = typeof config.embeddingCache;
 export type StorageConfig = typeof config.storage;
 export type IndexingConfig = typeof config.indexing;
+export type ChunkingConfig = typeof config.chunking;
+export type SecretsConfig = typeof config.secrets;
+export type WebConfig = typeof config.web;
 export type SearchConfig = typeof config.search;
\ No newline at end of file
@@ -0,0 +1,839 @@
+/**
+ * API Schema Chunker - One chunk per endpoint and type for OpenAPI, GraphQL and Protocol Buffers
+ *
+ * - OpenAPI / Swagger (YAML or JSON): one chunk per operation (method + path) with its parameters,
+ *   request body and responses, one per schema, and an overview of the API
+ * - GraphQL SDL: one chunk per root field (Query, Mutation, Subscription) and per type
+ * - Protocol Buffers: one chunk per rpc, service, message and enum
+ *
+ * Chunks hold a normalized rendering ("GET /pets/{petId} - Info for a pet", parameter lists, `$ref`s
+ * shown by name) rather than raw YAML or IDL, and their line range points at the definition in the file.
+ * Files that don't parse fall back to the recursive chunker.
+ */
+
+import * as path from 'path';
+import { parseDocument, isMap, isScalar, YAMLMap, Pair, Node } from 'yaml';
+import { countTokens } from './tokens.js';
+import { SourceText } from './source-positions.js';
+import { RecursiveChunker } from './recursive-chunker.js';
+import type { Chunk } from '../types/index.js';
+
+export type ApiSchemaFormat = 'openapi' | 'graphql' | 'protobuf';
+
+export type ApiElementKind = 'overview' | 'operation' | 'schema' | 'type' | 'service' | 'message' | 'enum';
+
+export interface ApiSchemaChunkerOptions {
+  maxTokens?: number; // An element stays whole up to this
+}
+
+interface ApiElement {
+  kind: ApiElementKind;
+  text: string; // Normalized rendering - first line is the title
+  start: number; // Char range of the definition in the file
+  end: number;
+  typeName?: string;
+  operationId?: string; // OpenAPI operationId, GraphQL root field or rpc name
+  httpMethod?: string;
+  httpPath?: string;
+}
+
+interface Token {
+  value: string;
+  start: number;
+  end: number;
+  comment?: string; // Protobuf - `//` and `/* */` comments above the token
+  commentStart?: number;
+  trailing?: string; // Protobuf - comment after the token on the same line
+}
+
+// Same budget as the code chunker - plenty for one operation or type
+const DEFAULT_MAX_TOKENS = 1000;
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+const OPENAPI_MARKER = /^[ \t{]*["']?(?:openapi|swagger)["']?[ \t]*:[ \t]*["']?[23]\./m;
+const SPEC_EXTENSIONS = new Set(['.yml', '.yaml', '.json']);
+
+/**
+ * Schema format of a file, or undefined when it isn't an API schema
+ * OpenAPI documents are recognized by their `openapi:` / `swagger:` version key, whatever the file name
+ */
+export function apiSchemaFormatFor(filePath: string, content: string): ApiSchemaFormat | undefined {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext === '.graphql' || ext === '.gql' || ext === '.graphqls') return 'graphql';
+  if (ext === '.proto') return 'protobuf';
+  if (SPEC_EXTENSIONS.has(ext) && OPENAPI_MARKER.test(content.slice(0, 4000))) return 'openapi';
+  return undefined;
+}
+
+export class ApiSchemaChunker {
+  private readonly maxTokens: number;
+
+  constructor(options: ApiSchemaChunkerOptions = {}) {
+    this.maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+  }
+
+  chunk(content: string, format: ApiSchemaFormat): Chunk[] {
+    let elements: ApiElement[];
+    try {
+      elements = format === 'openapi' ? openApiElements(content)
+        : format === 'graphql' ? graphqlElements(content)
+        : protobufElements(content);
+    } catch (error) {
+      console.warn(`⚠️ Could not parse ${format} schema, chunking it as text:`, error instanceof Error ? error.message : error);
+      elements = [];
+    }
+    if (elements.length === 0) {
+      return new RecursiveChunker().chunk(content);
+    }
+
+    const source = new SourceText(content);
+    const chunks: Chunk[] = [];
+
+    for (const element of elements) {
+      let end = element.end;
+      while (end > element.start && /\s/.test(content[end - 1])) end--;
+      const title = element.text.split('\n')[0];
+
+      // Oversized elements (huge schemas, long descriptions) are split - every piece keeps the title
+      const pieces = countTokens(element.text) <= this.maxTokens
+        ? [element.text]
+        : new RecursiveChunker({ maxTokens: this.maxTokens }).chunk(element.text).map((piece, part) =>
+          part === 0 ? piece.content : `${title} (continued)\n\n${piece.content}`);
+
+      pieces.forEach((text, part) => {
+        chunks.push({
+          content: text,
+          metadata: {
+            ...source.span(element.start, end),
+            sectionTitle: title,
+            apiFormat: format,
+            apiKind: element.kind,
+            ...(element.typeName && { typeName: element.typeName }),
+            ...(element.operationId && { operationId: element.operationId }),
+            ...(element.httpMethod && { httpMethod: element.httpMethod, httpPath: element.httpPath }),
+            hasCode: false,
+            tokenCount: countTokens(text),
+            chunkIndex: chunks.length,
+            isContinuation: part > 0
+          }
+        });
+      });
+    }
+
+    return chunks;
+  }
+}
+
+// === OpenAPI / Swagger ===
+
+/**
+ * Overview, operations and schemas of an OpenAPI 3 or Swagger 2 document
+ */
+function openApiElements(content: string): ApiElement[] {
+  const doc = parseDocument(content);
+  if (doc.errors.length > 0) throw doc.errors[0];
+  if (!isMap(doc.contents)) return [];
+
+  const spec = doc.toJS({ maxAliasCount: -1 }) as Record<string, any>;
+  if (!spec.openapi && !spec.swagger) return [];
+
+  // Local `$ref`s (#/components/parameters/Limit) - external ones are shown by name only
+  const resolve = (value: any): any => {
+    const ref = value?.$ref;
+    if (typeof ref !== 'string' || !ref.startsWith('#/')) return value;
+    const target = ref.slice(2).split('/').reduce<any>(
+      (node, key) => node?.[key.replace(/~1/g, '/').replace(/~0/g, '~')],
+      spec
+    );
+    return target && target !== value ? target : value;
+  };
+
+  const elements: ApiElement[] = [];
+  const info = spec.info || {};
+  const infoRange = pairRange(doc.contents, 'info') ?? [0, 0];
+  const servers = spec.servers?.map((server: any) => server.url)
+    ?? (spec.host ? [`${spec.schemes?.[0] ?? 'https'}://${spec.host}${spec.basePath ?? ''}`] : []);
+  elements.push({
+    kind: 'overview',
+    text: lines(
+      `API ${info.title ?? 'specification'}${info.version ? ` (version ${info.version})` : ''}`,
+      info.description && `\n${String(info.description).trim()}`,
+      servers.length > 0 && `\nServers: ${servers.join(', ')}`,
+      spec.tags?.length > 0 && `\nTags:\n${spec.tags.map((tag: any) => `- ${tag.name}${tag.description ? ` - ${oneLine(tag.description)}` : ''}`).join('\n')}`
+    ),
+    start: infoRange[0],
+    end: infoRange[1]
+  });
+
+  const pathsNode = doc.contents.get('paths', true);
+  for (const pathPair of isMap(pathsNode) ? pathsNode.items : []) {
+    const apiPath = keyOf(pathPair);
+    const pathItem = resolve(spec.paths?.[apiPath]) || {};
+    const shared: any[] = pathItem.parameters || [];
+
+    for (const methodPair of isMap(pathPair.value) ? pathPair.value.items : []) {
+      const method = keyOf(methodPair);
+      if (!HTTP_METHODS.includes(method)) continue;
+      const operation = pathItem[method] || {};
+      const [start, end] = nodeRange(methodPair);
+      elements.push({
+        kind: 'operation',
+        text: renderOperation(method, apiPath, operation, shared, resolve),
+        start,
+        end,
+        ...(operation.operationId && { operationId: String(operation.operationId) }),
+        httpMethod: method.toUpperCase(),
+        httpPath: apiPath
+      });
+    }
+  }
+
+  const schemasPath = spec.components?.schemas ? ['components', 'schemas'] : ['definitions'];
+  const schemasNode = doc.contents.getIn(schemasPath, true);
+  for (const schemaPair of isMap(schemasNode) ? schemasNode.items : []) {
+    const name = keyOf(schemaPair);
+    const [start, end] = nodeRange(schemaPair);
+    elements.push({
+      kind: 'schema',
+      text: renderSchema(name, resolve(schemasPath.reduce<any>((node, key) => node?.[key], spec)?.[name]) || {}),
+      start,
+      end,
+      typeName: name
+    });
+  }
+
+  return elements;
+}
+
+function renderOperation(method: string, apiPath: string, operation: any, shared: any[], resolve: (value: any) => any): string {
+  // Operation parameters override path-level ones with the same name and location
+  const parameters = new Map<string, any>();
+  for (const parameter of [...shared, ...(operation.parameters || [])].map(resolve)) {
+    parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+  }
+  const bodyParameter = [...parameters.values()].find(parameter => parameter.in === 'body'); // Swagger 2
+  const requestBody = resolve(operation.requestBody);
+
+  const parameterLines = [...parameters.values()]
+    .filter(parameter => parameter.in !== 'body')
+    .map(parameter => `- ${parameter.name} (${parameter.in}${parameter.required ? ', required' : ''}): ${schemaLabel(parameter.schema ?? parameter)}${describe(parameter.description)}`);
+
+  const responseLines = Object.entries(operation.responses || {}).map(([status, response]) => {
+    const resolved = resolve(response) || {};
+    const schema = resolved.schema ?? firstContent(resolved.content)?.schema;
+    return `- ${status}: ${oneLine(resolved.description ?? '')}${schema ? ` - ${schemaLabel(schema)}` : ''}`.replace(/: - /, ': ');
+  });
+
+  const body = requestBody?.content
+    ? `\nRequest body (${Object.keys(requestBody.content).join(', ')}${requestBody.required ? ', required' : ''}): ${schemaLabel(firstContent(requestBody.content)?.schema)}${describe(requestBody.description)}`
+    : bodyParameter && `\nRequest body${bodyParameter.required ? ' (required)' : ''}: ${schemaLabel(bodyParameter.schema)}${describe(bodyParameter.description)}`;
+
+  return lines(
+    `${method.toUpperCase()} ${apiPath}${operation.summary ? ` - ${oneLine(operation.summary)}` : ''}`,
+    operation.operationId && `Operation ID: ${operation.operationId}`,
+    operation.tags?.length > 0 && `Tags: ${operation.tags.join(', ')}`,
+    operation.deprecated && 'Deprecated',
+    operation.description && `\n${String(operation.description).trim()}`,
+    parameterLines.length > 0 && `\nParameters:\n${parameterLines.join('\n')}`,
+    body,
+    responseLines.length > 0 && `\nResponses:\n${responseLines.join('\n')}`
+  );
+}
+
+function renderSchema(name: string, schema: any): string {
+  const parts = [schema, ...(schema.allOf || [])];
+  const properties: Record<string, any> = Object.assign({}, ...parts.map(part => part.properties || {}));
+  const required = new Set<string>(parts.flatMap(part => part.required || []));
+  const parents = (schema.allOf || []).filter((part: any) => part.$ref).map(schemaLabel);
+
+  const propertyLines = Object.entries(properties).map(([property, value]) =>
+    `- ${property}${required.has(property) ? ' (required)' : ''}: ${schemaLabel(value)}${describe(value?.description)}`);
+
+  return lines(
+    `Schema ${name}${schema.type && schema.type !== 'object' ? ` (${schemaLabel(schema)})` : ''}`,
+    parents.length > 0 && `Extends: ${parents.join(', ')}`,
+    schema.description && `\n${String(schema.description).trim()}`,
+    propertyLines.length > 0 && `\nProperties:\n${propertyLines.join('\n')}`,
+    !schema.type && (schema.oneOf || schema.anyOf) && `\nOne of: ${schemaLabel(schema)}`
+  );
+}
+
+/**
+ * Short type description - `$ref`s by name, `array of Pet`, `string (date-time)`, `A | B`
+ */
+function schemaLabel(schema: any): string {
+  if (!schema || typeof schema !== 'object') return 'any';
+  if (typeof schema.$ref === 'string') return schema.$ref.split('/').pop();
+  if (schema.oneOf || schema.anyOf) return (schema.oneOf || schema.anyOf).map(schemaLabel).join(' | ');
+  if (schema.allOf) return schema.allOf.map(schemaLabel).join(' & ');
+
+  const type = Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type;
+  let label = type === 'array' ? `array of ${schemaLabel(schema.items)}` : type ?? (schema.properties ? 'object' : 'any');
+  if (schema.format) label += ` (${schema.format})`;
+  if (Array.isArray(schema.enum)) label += ` - one of: ${schema.enum.slice(0, 20).join(', ')}${schema.enum.length > 20 ? ', ...' : ''}`;
+  if (schema.nullable) label += ', nullable';
+  return label;
+}
+
+function firstContent(content: Record<string, any> | undefined): any {
+  return content ? Object.values(content)[0] : undefined;
+}
+
+function keyOf(pair: Pair): string {
+  return String(isScalar(pair.key) ? pair.key.value : pair.key);
+}
+
+function nodeRange(pair: Pair): [number, number] {
+  const key = pair.key as Node | null;
+  const value = pair.value as Node | null;
+  const start = key?.range?.[0] ?? value?.range?.[0] ?? 0;
+  return [start, value?.range?.[1] ?? key?.range?.[1] ?? start];
+}
+
+function pairRange(map: YAMLMap, key: string): [number, number] | undefined {
+  const pair = map.items.find(item => keyOf(item) === key);
+  return pair && nodeRange(pair);
+}
+
+// === GraphQL ===
+
+interface GraphqlField {
+  name: string;
+  description?: string;
+  args: GraphqlField[];
+  type: string;
+  defaultValue?: string;
+  directives: string[];
+  start: number;
+  end: number;
+}
+
+interface GraphqlDefinition {
+  keyword: string; // type, interface, input, enum, union, scalar, directive, query, ...
+  name: string;
+  extend: boolean;
+  description?: string;
+  interfaces: string[];
+  directives: string[];
+  fields: GraphqlField[]; // Fields, input fields and enum values
+  members: string[]; // Union members, directive locations
+  signature?: string; // Directives and executable definitions - the normalized source
+  start: number;
+  end: number;
+}
+
+const GRAPHQL_TOKEN = /[\s,\uFEFF]+|#[^\n\r]*|"""(?:\\"""|[^])*?"""|"(?:\\.|[^"\\\n\r])*"|\.\.\.|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|[A-Za-z_]\w*|[^\s]/gy;
+const ROOT_LABELS: Record<string, string> = { query: 'query', mutation: 'mutation', subscription: 'subscription' };
+
+/**
+ * Root fields and types of a GraphQL schema (or the operations of a query document)
+ */
+function graphqlElements(content: string): ApiElement[] {
+  const tokens: Token[] = [];
+  GRAPHQL_TOKEN.lastIndex = 0;
+  for (let match = GRAPHQL_TOKEN.exec(content); match; match = GRAPHQL_TOKEN.exec(content)) {
+    if (!/^[\s,\uFEFF#]/.test(match[0])) {
+      tokens.push({ value: match[0], start: match.index, end: match.index + match[0].length });
+    }
+  }
+
+  const parser = new TokenReader(content, tokens);
+  const definitions: GraphqlDefinition[] = [];
+  const roots: Record<string, string> = { Query: 'query', Mutation: 'mutation', Subscription: 'subscription' };
+
+  while (!parser.done()) {
+    const start = parser.peek()!.start;
+    const description = parser.peek()!.value.startsWith('"') ? stringValue(parser.next().value) : undefined;
+    const extend = parser.accept('extend');
+    const head = parser.peek()?.start ?? start;
+    const keyword = parser.next().value;
+    const definition: GraphqlDefinition = {
+      keyword, name: '', extend, description, interfaces: [], directives: [], fields: [], members: [], start, end: start
+    };
+
+    if (keyword === 'schema') {
+      definition.directives = readGraphqlDirectives(parser);
+      if (parser.accept('{')) {
+        const custom: Record<string, string> = {};
+        while (!parser.done() && !parser.accept('}')) {
+          const operation = parser.next().value;
+          parser.accept(':');
+          custom[parser.next().value] = operation;
+        }
+        if (!extend) for (const name of Object.keys(roots)) delete roots[name];
+        Object.assign(roots, custom);
+      }
+      continue;
+    }
+
+    if (['type', 'interface', 'input', 'enum', 'union', 'scalar'].includes(keyword)) {
+      definition.name = parser.next().value;
+      if (parser.accept('implements')) {
+        parser.accept('&');
+        while (!parser.done() && /^[A-Za-z_]/.test(parser.peek()!.value)) {
+          definition.interfaces.push(parser.next().value); // `A & B`, or the legacy `A, B`
+          parser.accept('&');
+        }
+      }
+      definition.directives = readGraphqlDirectives(parser);
+      if (keyword === 'union' && parser.accept('=')) {
+        parser.accept('|');
+        do definition.members.push(parser.next().value); while (parser.accept('|'));
+      }
+      if (parser.peek()?.value === '{') {
+        definition.fields = readGraphqlFields(parser, '}');
+      }
+    } else if (keyword === 'directive') {
+      parser.accept('@');
+      definition.name = `@${parser.next().value}`;
+      if (parser.peek()?.value === '(') definition.fields = readGraphqlFields(parser, ')');
+      parser.accept('repeatable');
+      if (parser.accept('on')) {
+        parser.accept('|');
+        do definition.members.push(parser.next().value); while (parser.accept('|'));
+      }
+    } else if (['query', 'mutation', 'subscription', 'fragment', '{'].includes(keyword)) {
+      // Executable definitions (client queries) - kept as written
+      definition.name = keyword !== '{' && /^[A-Za-z_]/.test(parser.peek()?.value ?? '') ? parser.peek()!.value : '';
+      if (keyword !== '{') {
+        while (!parser.done() && parser.peek()!.value !== '{') {
+          if (parser.peek()!.value === '(') parser.balanced();
+          else parser.next();
+        }
+      } else {
+        parser.back();
+      }
+      parser.balanced();
+    } else {
+      continue; // Not a definition - skip the token
+    }
+
+    definition.end = parser.last().end;
+    if (definition.keyword === 'directive' || ['query', 'mutation', 'subscription', 'fragment', '{'].includes(keyword)) {
+      definition.signature = normalize(content.slice(head, definition.end));
+    }
+    definitions.push(definition);
+  }
+
+  const elements: ApiElement[] = [];
+  for (const definition of definitions) {
+    const root = definition.keyword === 'type' ? roots[definition.name] : undefined;
+
+    if (root) {
+      // Root fields are the API's endpoints - one chunk each
+      for (const field of definition.fields) {
+        elements.push({
+          kind: 'operation',
+          text: lines(
+            `GraphQL ${ROOT_LABELS[root] ?? root} ${field.name}`,
+            field.description && `\n${field.description}`,
+            `\n${fieldSignature(field)}`,
+            field.args.length > 0 && `Arguments:\n${field.args.map(arg => `- ${fieldSignature(arg)}${describe(arg.description)}`).join('\n')}`,
+            `Returns: ${field.type}`
+          ),
+          start: field.start,
+          end: field.end,
+          typeName: definition.name,
+          operationId: field.name
+        });
+      }
+      continue;
+    }
+
+    const executable = definition.signature !== undefined && definition.keyword !== 'directive';
+    const heading = executable
+      ? `GraphQL ${definition.keyword === '{' ? 'query' : definition.keyword}${definition.name ? ` ${definition.name}` : ''}`
+      : `GraphQL ${definition.keyword}${definition.extend ? ' extension' : ''} ${definition.name}`
+        + (definition.interfaces.length > 0 ? ` implements ${definition.interfaces.join(' & ')}` : '')
+        + (definition.directives.length > 0 ? ` ${definition.directives.join(' ')}` : '');
+    const label = definition.keyword === 'enum' ? 'Values' : definition.keyword === 'directive' ? 'Arguments' : 'Fields';
+
+    elements.push({
+      kind: 'type',
+      text: lines(
+        heading,
+        definition.description && `\n${definition.description}`,
+        definition.signature && `\n${definition.signature}`,
+        definition.keyword === 'union' && definition.members.length > 0 && `\nMembers: ${definition.members.join(' | ')}`,
+        definition.fields.length > 0 && !definition.signature
+          && `\n${label}:\n${definition.fields.map(field => `- ${fieldSignature(field)}${describe(field.description)}`).join('\n')}`
+      ),
+      start: definition.start,
+      end: definition.end,
+      ...(definition.name && { typeName: definition.name })
+    });
+  }
+
+  return elements;
+}
+
+/**
+ * Fields, arguments or enum values up to the closing `}` / `)`
+ */
+function readGraphqlFields(parser: TokenReader, close: string): GraphqlField[] {
+  const fields: GraphqlField[] = [];
+  parser.next(); // Opening bracket
+
+  while (!parser.done() && !parser.accept(close)) {
+    const start = parser.peek()!.start;
+    const description = parser.peek()!.value.startsWith('"') ? stringValue(parser.next().value) : undefined;
+    const field: GraphqlField = { name: parser.next().value, description, args: [], type: '', directives: [], start, end: start };
+
+    if (parser.peek()?.value === '(') field.args = readGraphqlFields(parser, ')');
+    if (parser.accept(':')) field.type = readGraphqlType(parser);
+    if (parser.accept('=')) field.defaultValue = parser.raw(() => parser.peek()?.value === '[' || parser.peek()?.value === '{' ? parser.balanced() : parser.next());
+    field.directives = readGraphqlDirectives(parser);
+    field.end = parser.last().end;
+    fields.push(field);
+  }
+
+  return fields;
+}
+
+function readGraphqlType(parser: TokenReader): string {
+  let type: string;
+  if (parser.accept('[')) {
+    type = `[${readGraphqlType(parser)}]`;
+    parser.accept(']');
+  } else {
+    type = parser.next().value;
+  }
+  return parser.accept('!') ? `${type}!` : type;
+}
+
+function readGraphqlDirectives(parser: TokenReader): string[] {
+  const directives: string[] = [];
+  while (parser.peek()?.value === '@') {
+    directives.push(parser.raw(() => {
+      parser.next();
+      parser.next();
+      if (parser.peek()?.value === '(') parser.balanced();
+    }));
+  }
+  return directives;
+}
+
+function fieldSignature(field: GraphqlField): string {
+  const args = field.args.length > 0 ? `(${field.args.map(arg => fieldSignature(arg)).join(', ')})` : '';
+  return [
+    `${field.name}${args}${field.type ? `: ${field.type}` : ''}`,
+    field.defaultValue !== undefined && `= ${field.defaultValue}`,
+    ...field.directives
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * GraphQL string or block string literal -> text
+ */
+function stringValue(literal: string): string {
+  if (literal.startsWith('"""')) {
+    const body = literal.slice(3, -3).replace(/\\"""/g, '"""');
+    const bodyLines = body.split(/\r\n?|\n/);
+    const indent = Math.min(...bodyLines.slice(1).filter(line => line.trim()).map(line => line.match(/^[ \t]*/)![0].length), Infinity);
+    return bodyLines.map((line, idx) => (idx > 0 && indent !== Infinity ? line.slice(indent) : line)).join('\n').trim();
+  }
+  try {
+    return JSON.parse(literal);
+  } catch {
+    return literal.slice(1, -1);
+  }
+}
+
+// === Protocol Buffers ===
+
+const PROTO_TOKEN = /\s+|\/\/[^\n]*|\/\*[^]*?\*\/|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|[A-Za-z_.][\w.]*|-?\d[\w.+-]*|[^\s]/gy;
+const PROTO_FIELD = /^(?:(repeated|optional|required)\s+)?(map\s*<[^>]*>|[\w.]+)\s+(\w+)\s*=\s*(\d+)\s*(\[.*\])?$/;
+const HTTP_RULE = /\b(get|put|post|delete|patch)\s*:\s*"([^"]+)"/;
+
+/**
+ * Services (and each rpc), messages and enums of a .proto file
+ */
+function protobufElements(content: string): ApiElement[] {
+  const tokens: Token[] = [];
+  let comments: string[] = [];
+  let commentStart = 0;
+  PROTO_TOKEN.lastIndex = 0;
+
+  for (let match = PROTO_TOKEN.exec(content); match; match = PROTO_TOKEN.exec(content)) {
+    const value = match[0];
+    if (/^\s/.test(value)) {
+      if ((value.match(/\n/g) || []).length > 1) comments = []; // A blank line detaches comments
+      continue;
+    }
+    if (value.startsWith('//') || value.startsWith('/*')) {
+      const text = value.startsWith('//') ? value.slice(2).trim() : value.slice(2, -2).replace(/^[ \t]*\*?[ \t]?/gm, '').trim();
+      const previous = tokens[tokens.length - 1];
+      if (previous && !content.slice(previous.end, match.index).includes('\n')) {
+        previous.trailing = text;
+      } else {
+        if (comments.length === 0) commentStart = match.index;
+        comments.push(text);
+      }
+      continue;
+    }
+    tokens.push({
+      value,
+      start: match.index,
+      end: match.index + value.length,
+      ...(comments.length > 0 && { comment: comments.join('\n'), commentStart })
+    });
+    comments = [];
+  }
+
+  const parser = new TokenReader(content, tokens);
+  const elements: ApiElement[] = [];
+  let pkg = '';
+  const qualify = (name: string) => (pkg ? `${pkg}.${name}` : name);
+
+  // Statement up to `;` - or a `{ }` body, which also ends it (rpc, option aggregates)
+  const skipStatement = () => {
+    while (!parser.done()) {
+      const token = parser.next();
+      if (token.value === '{') {
+        parser.back();
+        parser.balanced();
+        parser.accept(';');
+        return;
+      }
+      if (token.value === ';') return;
+    }
+  };
+
+  // Field or enum value up to its `;`, rendered as `- name: type = 1 [options] - comment`
+  const readMember = (note?: string): string => {
+    const first = parser.peek()!;
+    while (!parser.done() && parser.peek()!.value !== ';' && parser.peek()!.value !== '}') {
+      if (parser.peek()!.value === '[') parser.balanced();
+      else parser.next();
+    }
+    const raw = normalize(content.slice(first.start, parser.last().end));
+    parser.accept(';');
+    const end = parser.last();
+    const comment = [first.comment, end.trailing].filter(Boolean).join(' ');
+
+    const field = raw.match(PROTO_FIELD);
+    const rendered = field
+      ? `${field[3]}: ${field[1] ? `${field[1]} ` : ''}${field[2].replace(/\s+/g, '')} = ${field[4]}${field[5] ? ` ${field[5]}` : ''}`
+      : raw;
+    return `- ${rendered}${note ? ` (${note})` : ''}${describe(comment)}`;
+  };
+
+  const readMessage = (keyword: Token, parent: string, extend = false) => {
+    const name = parser.next().value;
+    const qualified = extend ? name : parent ? `${parent}.${name}` : qualify(name);
+    const index = elements.length;
+    const fields: string[] = [];
+    parser.accept('{');
+
+    while (!parser.done() && !parser.accept('}')) {
+      const token = parser.peek()!;
+      if (token.value === 'message' || token.value === 'enum') {
+        parser.next();
+        (token.value === 'message' ? readMessage : readEnum)(token, qualified);
+      } else if (token.value === 'oneof') {
+        parser.next();
+        const oneof = parser.next().value;
+        parser.accept('{');
+        while (!parser.done() && !parser.accept('}')) {
+          if (parser.peek()!.value === 'option') skipStatement();
+          else if (!parser.accept(';')) fields.push(readMember(`oneof ${oneof}`));
+        }
+      } else if (['option', 'reserved', 'extensions', 'extend'].includes(token.value)) {
+        skipStatement();
+      } else if (!parser.accept(';')) {
+        fields.push(readMember());
+      }
+    }
+
+    elements.splice(index, 0, {
+      kind: 'message',
+      text: lines(
+        `Protobuf ${extend ? 'extension of' : 'message'} ${qualified}`,
+        keyword.comment && `\n${keyword.comment}`,
+        fields.length > 0 && `\nFields:\n${fields.join('\n')}`
+      ),
+      start: keyword.commentStart ?? keyword.start,
+      end: parser.last().end,
+      typeName: qualified
+    });
+  };
+
+  const readEnum = (keyword: Token, parent: string) => {
+    const name = parser.next().value;
+    const qualified = parent ? `${parent}.${name}` : qualify(name);
+    const values: string[] = [];
+    parser.accept('{');
+
+    while (!parser.done() && !parser.accept('}')) {
+      if (['option', 'reserved'].includes(parser.peek()!.value)) skipStatement();
+      else if (!parser.accept(';')) values.push(readMember());
+    }
+
+    elements.push({
+      kind: 'enum',
+      text: lines(
+        `Protobuf enum ${qualified}`,
+        keyword.comment && `\n${keyword.comment}`,
+        values.length > 0 && `\nValues:\n${values.join('\n')}`
+      ),
+      start: keyword.commentStart ?? keyword.start,
+      end: parser.last().end,
+      typeName: qualified
+    });
+  };
+
+  const readService = (keyword: Token) => {
+    const service = qualify(parser.next().value);
+    const index = elements.length;
+    const signatures: string[] = [];
+    parser.accept('{');
+
+    while (!parser.done() && !parser.accept('}')) {
+      const rpc = parser.peek()!;
+      if (rpc.value !== 'rpc') {
+        if (!parser.accept(';')) skipStatement();
+        continue;
+      }
+
+      parser.next();
+      const name = parser.next().value;
+      while (!parser.done() && !['{', ';', '}'].includes(parser.peek()!.value)) parser.next();
+      const signature = normalize(content.slice(rpc.start, parser.last().end))
+        .replace(/\s*\(\s*/g, '(')
+        .replace(/\s*\)/g, ')')
+        .replace(/\)\s*returns\s*\(/, ') returns (');
+      const options = parser.peek()?.value === '{' ? parser.raw(() => parser.balanced()) : '';
+      parser.accept(';');
+
+      const http = options.match(HTTP_RULE);
+      const otherOptions = normalize(options.slice(1, -1));
+      signatures.push(`- ${signature}${describe(rpc.comment)}`);
+      elements.push({
+        kind: 'operation',
+        text: lines(
+          `Protobuf rpc ${service}.${name}`,
+          rpc.comment && `\n${rpc.comment}`,
+          `\n${signature}`,
+          `Service: ${service}`,
+          http ? `HTTP: ${http[1].toUpperCase()} ${http[2]}` : otherOptions && `Options: ${otherOptions}`
+        ),
+        start: rpc.commentStart ?? rpc.start,
+        end: parser.last().end,
+        typeName: service,
+        operationId: name,
+        ...(http && { httpMethod: http[1].toUpperCase(), httpPath: http[2] })
+      });
+    }
+
+    elements.splice(index, 0, {
+      kind: 'service',
+      text: lines(
+        `Protobuf service ${service}`,
+        keyword.comment && `\n${keyword.comment}`,
+        signatures.length > 0 && `\nMethods:\n${signatures.join('\n')}`
+      ),
+      start: keyword.commentStart ?? keyword.start,
+      end: parser.last().end,
+      typeName: service
+    });
+  };
+
+  while (!parser.done()) {
+    const token = parser.next();
+    if (token.value === 'package') {
+      pkg = parser.next().value;
+      parser.accept(';');
+    } else if (token.value === 'message') {
+      readMessage(token, '');
+    } else if (token.value === 'enum') {
+      readEnum(token, '');
+    } else if (token.value === 'service') {
+      readService(token);
+    } else if (token.value === 'extend') {
+      readMessage(token, '', true);
+    } else if (token.value !== ';') {
+      parser.back();
+      skipStatement(); // syntax, edition, import, option
+    }
+  }
+
+  return elements;
+}
+
+// === Shared ===
+
+/**
+ * Cursor over a token list
+ */
+class TokenReader {
+  private position = 0;
+
+  constructor(private readonly content: string, private readonly tokens: Token[]) {}
+
+  done(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  next(): Token {
+    const token = this.tokens[this.position];
+    if (!token) throw new Error('Unexpected end of schema');
+    this.position++;
+    return token;
+  }
+
+  back(): void {
+    this.position--;
+  }
+
+  last(): Token {
+    return this.tokens[Math.max(this.position - 1, 0)];
+  }
+
+  accept(value: string): boolean {
+    if (this.peek()?.value !== value) return false;
+    this.position++;
+    return true;
+  }
+
+  /**
+   * Skip a bracketed group starting at the current token, nested brackets included
+   */
+  balanced(): void {
+    let depth = 0;
+    do {
+      const value = this.next().value;
+      if (value === '{' || value === '(' || value === '[') depth++;
+      else if (value === '}' || value === ')' || value === ']') depth--;
+    } while (depth > 0 && !this.done());
+  }
+
+  /**
+   * Normalized source text of whatever `read` consumes
+   */
+  raw(read: () => unknown): string {
+    const start = this.peek()?.start ?? this.content.length;
+    read();
+    return normalize(this.content.slice(start, Math.max(this.last().end, start)));
+  }
+}
+
+function lines(...parts: unknown[]): string {
+  return parts.filter(part => typeof part === 'string' && part.trim()).join('\n');
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function oneLine(text: unknown): string {
+  return normalize(String(text ?? ''));
+}
+
+function describe(description: unknown): string {
+  const text = oneLine(description);
+  return text ? ` - ${text}` : '';
+}
@@ -0,0 +1,124 @@
+/**
+ * AsciiDoc Chunker - Structure-aware chunking for .adoc (Asciidoctor docs, Antora sites)
+ *
+ * - Sections are `=` headings (`= Document title`, `== Section`, ...) or Markdown-style `#`
+ * - Delimited blocks are kept whole: `----` listings and `....` literals are code, `|===` are
+ *   tables, `////` comments and `//` lines are dropped
+ * - `[source,lang]` marks code, `NOTE:` paragraphs and `[NOTE]` blocks keep their type in `admonitions`
+ * - Attribute lists (`[source,python]`) and block titles (`.Title`) stay with their block
+ */
+
+import { SourceText } from './source-positions.js';
+import { SectionChunker, Block, BlockKind, blockReader, range } from './section-chunker.js';
+import type { Chunk } from '../types/index.js';
+
+const SECTION = /^(={1,6}|#{1,6})[ \t]+(\S.*?)(?:[ \t]+\1)?[ \t]*$/;
+const DELIMITER = /^(-{4,}|\.{4,}|={4,}|\*{4,}|_{4,}|\+{4,}|\/{4,}|[|,:!]={3,}|`{3,}.*)[ \t]*$/;
+const ATTRIBUTE_LIST = /^\[(?:\[[^\]]*\]|[^\]]*)\][ \t]*$/; // [source,python], [NOTE], [[anchor]]
+const BLOCK_TITLE = /^\.[^.\s]/;
+const LINE_COMMENT = /^\/\/(?!\/\/)/;
+const ADMONITION_PARAGRAPH = /^(NOTE|TIP|IMPORTANT|WARNING|CAUTION):[ \t]/;
+
+const ADMONITIONS = new Set(['NOTE', 'TIP', 'IMPORTANT', 'WARNING', 'CAUTION']);
+const CODE_STYLES = new Set(['source', 'listing', 'literal']);
+
+export class AsciiDocChunker extends SectionChunker {
+  chunk(content: string): Chunk[] {
+    const source = new SourceText(content);
+    const lines = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+    return this.chunkBlocks(this.toBlocks(lines, source), source);
+  }
+
+  /**
+   * Line scanner - sections, delimited blocks, paragraphs and the attribute lines above them
+   */
+  private toBlocks(lines: string[], source: SourceText): Block[] {
+    const blockOf = blockReader(lines, source);
+    const blocks: Block[] = [];
+    let attributes: number[] = []; // Attribute lists and block titles waiting for their block
+    let text: number[] = [];
+    let admonition: string | undefined; // `NOTE:` paragraph
+
+    const styleOf = () => blockStyle(attributes.map(idx => lines[idx]));
+    const flush = () => {
+      if (text.some(idx => lines[idx].trim())) {
+        const style = styleOf();
+        const name = admonition ?? (ADMONITIONS.has(style) ? style : undefined);
+        const kind: BlockKind = name ? 'admonition' : CODE_STYLES.has(style) ? 'code' : 'text';
+        blocks.push(blockOf(kind, [...attributes, ...text], { admonition: name?.toLowerCase() }));
+        attributes = [];
+      }
+      text = [];
+      admonition = undefined;
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const delimiter = line.match(DELIMITER);
+
+      if (delimiter) {
+        flush();
+        const marker = delimiter[1].startsWith('`') ? '```' : delimiter[1];
+        let end = i + 1;
+        while (end < lines.length && lines[end].trimEnd() !== marker) end++;
+        const closed = end < lines.length;
+        end = Math.min(end, lines.length - 1);
+
+        const style = styleOf();
+        const indices = [...attributes, ...range(i, end)];
+        const frame: [number, number] = [attributes.length + 1, closed ? 1 : 0];
+        attributes = [];
+
+        if (marker.startsWith('//')) {
+          // Comment block - not content
+        } else if (/^[|,:!]=/.test(marker)) {
+          blocks.push(blockOf('table', indices, { frame }));
+        } else if (/^[-.`]/.test(marker) || CODE_STYLES.has(style)) {
+          blocks.push(blockOf('code', indices, { frame }));
+        } else if (ADMONITIONS.has(style)) {
+          blocks.push(blockOf('admonition', indices, { admonition: style.toLowerCase() }));
+        } else {
+          blocks.push(blockOf('text', indices)); // Example, sidebar, quote and passthrough blocks
+        }
+        i = end;
+        continue;
+      }
+
+      if (LINE_COMMENT.test(line)) continue;
+
+      const section = text.length === 0 && line.match(SECTION);
+      if (section) {
+        blocks.push(blockOf('heading', [...attributes, i], { level: section[1].length, title: section[2].trim() }));
+        attributes = [];
+        continue;
+      }
+
+      if (text.length === 0 && (ATTRIBUTE_LIST.test(line) || BLOCK_TITLE.test(line))) {
+        attributes.push(i);
+        continue;
+      }
+
+      if (!line.trim()) {
+        flush();
+        continue;
+      }
+
+      if (text.length === 0) {
+        admonition = line.match(ADMONITION_PARAGRAPH)?.[1];
+      }
+      text.push(i);
+    }
+    flush();
+
+    return blocks;
+  }
+}
+
+/**
+ * First positional attribute of the nearest attribute list - `[source,python]` -> `source`
+ */
+function blockStyle(attributeLines: string[]): string {
+  const list = [...attributeLines].reverse().find(line => line.startsWith('[') && !line.startsWith('[['));
+  const first = list?.slice(1, list.lastIndexOf(']')).split(',')[0].trim() ?? '';
+  return first.includes('=') ? '' : first.split(/[#.%]/)[0];
+}
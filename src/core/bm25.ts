@@ -0,0 +1,126 @@
+/**
+ * BM25 Keyword Index - In-memory inverted index for offline keyword search
+ * Standard Okapi BM25 with k1=1.2, b=0.75
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in',
+  'is', 'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what',
+  'when', 'where', 'which', 'with'
+]);
+
+/**
+ * Lowercase word tokenizer - keeps identifiers like snake_case intact
+ */
+export function tokenize(text: string): string[] {
+  const matches = text.toLowerCase().match(/[a-z0-9_]+/g) || [];
+  return matches.filter(token => !STOP_WORDS.has(token));
+}
+
+export interface Bm25Hit {
+  id: string;
+  score: number;
+}
+
+export class Bm25Index {
+  private postings = new Map<string, Map<string, number>>();
+  private docTerms = new Map<string, string[]>();
+  private docLengths = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(
+    private readonly k1: number = 1.2,
+    private readonly b: number = 0.75
+  ) {}
+
+  get size(): number {
+    return this.docLengths.size;
+  }
+
+  /**
+   * Add (or replace) a document
+   */
+  add(id: string, text: string): void {
+    this.remove(id);
+
+    const tokens = tokenize(text);
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
+
+    for (const [term, tf] of frequencies) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, tf);
+    }
+
+    this.docTerms.set(id, Array.from(frequencies.keys()));
+    this.docLengths.set(id, tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  /**
+   * Remove a document if present
+   */
+  remove(id: string): void {
+    const terms = this.docTerms.get(id);
+    if (!terms) return;
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting && posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.totalLength -= this.docLengths.get(id) || 0;
+    this.docTerms.delete(id);
+    this.docLengths.delete(id);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.docTerms.clear();
+    this.docLengths.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Score documents against a query, best first
+   * @param accept - Optional predicate to restrict which documents are scored
+   */
+  search(query: string, limit: number = 10, accept?: (id: string) => boolean): Bm25Hit[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || this.size === 0) return [];
+
+    const avgLength = this.totalLength / this.size;
+    const scores = new Map<string, number>();
+
+    for (const term of queryTerms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      // Probabilistic IDF, floored at zero like Lucene's BM25Similarity
+      const idf = Math.log(1 + (this.size - posting.size + 0.5) / (posting.size + 0.5));
+
+      for (const [id, tf] of posting) {
+        if (accept && !accept(id)) continue;
+
+        const length = this.docLengths.get(id) || 0;
+        const norm = tf + this.k1 * (1 - this.b + this.b * (length / avgLength));
+        const termScore = idf * ((tf * (this.k1 + 1)) / norm);
+        scores.set(id, (scores.get(id) || 0) + termScore);
+      }
+    }
+
+    return Array.from(scores.entries())
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
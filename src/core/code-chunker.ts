@@ -0,0 +1,581 @@
+/**
+ * Code Chunker - Syntax-aware chunking for source files
+ *
+ * Finds top-level declarations (functions, classes, methods, interfaces, ...) and keeps each
+ * one whole when it fits the token budget. Oversized classes are split into their members,
+ * each prefixed with the class signature; oversized functions are split by lines.
+ * Code between declarations (imports, constants) becomes `module` chunks.
+ *
+ * Lightweight scanning instead of full parsers: brace depth (skipping strings and comments)
+ * for TypeScript/JavaScript, Go, Java and Rust, indentation for Python.
+ */
+
+import * as path from 'path';
+import { countTokens } from './tokens.js';
+import { SourceText } from './source-positions.js';
+import type { Chunk } from '../types/index.js';
+
+export type CodeLanguage = 'typescript' | 'javascript' | 'python' | 'go' | 'java' | 'rust';
+
+export type SymbolKind =
+  | 'function' | 'method' | 'class' | 'interface' | 'struct' | 'enum'
+  | 'trait' | 'impl' | 'type' | 'module' | 'macro';
+
+export interface CodeChunkerOptions {
+  maxTokens?: number; // A declaration stays whole up to this
+}
+
+interface Pattern {
+  kind: SymbolKind;
+  regex: RegExp; // `name` group required, optional `receiver` group (Go methods)
+}
+
+interface Grammar {
+  style: 'braces' | 'indent';
+  declarations: Pattern[];
+  members: Partial<Record<SymbolKind, Pattern[]>>; // Containers and what they contain
+  attachments: RegExp; // Comment/decorator lines that belong to the next declaration
+}
+
+interface Declaration {
+  kind: SymbolKind;
+  name: string;
+  start: number; // First line, including attached comments and decorators
+  line: number; // Line with the declaration keyword
+  end: number; // Last line (inclusive)
+}
+
+interface Container {
+  name: string;
+  signature: string;
+}
+
+interface Piece {
+  text: string;
+  symbol?: string;
+  symbolKind: SymbolKind;
+  context?: string;
+  isContinuation: boolean;
+  first: number; // Lines of the file it covers (0-based, inclusive) - prepended signatures aside
+  last: number;
+}
+
+const EXTENSIONS: Record<string, CodeLanguage> = {
+  '.ts': 'typescript', '.tsx': 'typescript', '.mts': 'typescript', '.cts': 'typescript',
+  '.js': 'javascript', '.jsx': 'javascript', '.mjs': 'javascript', '.cjs': 'javascript',
+  '.py': 'python', '.pyi': 'python',
+  '.go': 'go',
+  '.java': 'java',
+  '.rs': 'rust'
+};
+
+// Control flow that looks like `name(` at member level
+const KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'new', 'else', 'do', 'try', 'with', 'super', 'this', 'throw', 'synchronized']);
+
+const JS_ID = '[A-Za-z_$][\\w$]*';
+
+const SCRIPT_DECLARATIONS: Pattern[] = [
+  { kind: 'class', regex: new RegExp(`^(?:export\\s+)?(?:default\\s+)?(?:declare\\s+)?(?:abstract\\s+)?class\\s+(?<name>${JS_ID})`) },
+  { kind: 'interface', regex: new RegExp(`^(?:export\\s+)?(?:default\\s+)?(?:declare\\s+)?interface\\s+(?<name>${JS_ID})`) },
+  { kind: 'enum', regex: new RegExp(`^(?:export\\s+)?(?:declare\\s+)?(?:const\\s+)?enum\\s+(?<name>${JS_ID})`) },
+  { kind: 'type', regex: new RegExp(`^(?:export\\s+)?(?:declare\\s+)?type\\s+(?<name>${JS_ID})\\s*(?:<[^=]*>)?\\s*=`) },
+  { kind: 'function', regex: new RegExp(`^(?:export\\s+)?(?:default\\s+)?(?:declare\\s+)?(?:async\\s+)?function\\b\\s*\\*?\\s*(?<name>${JS_ID})?`) },
+  {
+    kind: 'function',
+    regex: new RegExp(`^(?:export\\s+)?(?:const|let|var)\\s+(?<name>${JS_ID})\\s*(?::[^=]+)?=\\s*(?:async\\s+)?(?:function\\b|\\([^)]*\\)\\s*(?::[^=]+)?=>|\\($|${JS_ID}\\s*=>)`)
+  },
+  { kind: 'module', regex: /^(?:export\s+)?(?:declare\s+)?(?:namespace|module)\s+(?<name>[\w$.]+)\s*\{/ }
+];
+
+const SCRIPT_MEMBERS: Pattern[] = [
+  { kind: 'method', regex: new RegExp(`^(?:(?:public|private|protected|static|readonly|async|abstract|override|declare|get|set)\\s+)*\\*?\\s*(?<name>#?${JS_ID})\\s*(?:<[^>]*>)?\\s*\\(`) },
+  { kind: 'method', regex: new RegExp(`^(?:(?:public|private|protected|static|readonly)\\s+)*(?<name>#?${JS_ID})\\s*(?::[^=]+)?=\\s*(?:async\\s+)?(?:\\([^)]*\\)|${JS_ID})\\s*(?::[^=]+)?=>`) }
+];
+
+const PYTHON_DECLARATIONS: Pattern[] = [
+  { kind: 'function', regex: /^(?:async\s+)?def\s+(?<name>\w+)/ },
+  { kind: 'class', regex: /^class\s+(?<name>\w+)/ }
+];
+
+const JAVA_MODIFIERS = '(?:@\\w+(?:\\([^)]*\\))?\\s+)*(?:(?:public|private|protected|static|final|abstract|sealed|non-sealed|strictfp)\\s+)*';
+const JAVA_DECLARATIONS: Pattern[] = [
+  { kind: 'class', regex: new RegExp(`^${JAVA_MODIFIERS}(?:class|record)\\s+(?<name>\\w+)`) },
+  { kind: 'interface', regex: new RegExp(`^${JAVA_MODIFIERS}@?interface\\s+(?<name>\\w+)`) },
+  { kind: 'enum', regex: new RegExp(`^${JAVA_MODIFIERS}enum\\s+(?<name>\\w+)`) }
+];
+const JAVA_MEMBERS: Pattern[] = [
+  ...JAVA_DECLARATIONS,
+  {
+    kind: 'method',
+    regex: /^(?:@\w+(?:\([^)]*\))?\s+)*(?:(?:public|private|protected|static|final|abstract|synchronized|native|default|strictfp)\s+)*(?:<[^>]+>\s+)?(?:[\w$.]+(?:<[^;{}()]*>)?(?:\[\])*\s+)?(?<name>[A-Za-z_$][\w$]*)\s*\(/
+  }
+];
+
+const RUST_VISIBILITY = '(?:pub(?:\\([^)]*\\))?\\s+)?';
+const RUST_FUNCTION: Pattern = {
+  kind: 'function',
+  regex: new RegExp(`^${RUST_VISIBILITY}(?:default\\s+)?(?:const\\s+)?(?:async\\s+)?(?:unsafe\\s+)?(?:extern\\s+"[^"]*"\\s+)?fn\\s+(?<name>\\w+)`)
+};
+const RUST_DECLARATIONS: Pattern[] = [
+  RUST_FUNCTION,
+  { kind: 'struct', regex: new RegExp(`^${RUST_VISIBILITY}struct\\s+(?<name>\\w+)`) },
+  { kind: 'enum', regex: new RegExp(`^${RUST_VISIBILITY}enum\\s+(?<name>\\w+)`) },
+  { kind: 'trait', regex: new RegExp(`^${RUST_VISIBILITY}(?:unsafe\\s+)?trait\\s+(?<name>\\w+)`) },
+  { kind: 'impl', regex: /^(?:unsafe\s+)?impl\b(?:\s*<(?:[^<>]|<[^<>]*>)*>)?\s+(?:!?[\w:]+(?:<(?:[^<>]|<[^<>]*>)*>)?\s+for\s+)?(?<name>[\w:]+)/ },
+  { kind: 'module', regex: new RegExp(`^${RUST_VISIBILITY}mod\\s+(?<name>\\w+)\\s*\\{`) },
+  { kind: 'type', regex: new RegExp(`^${RUST_VISIBILITY}type\\s+(?<name>\\w+)`) },
+  { kind: 'macro', regex: /^macro_rules!\s*(?<name>\w+)/ }
+];
+
+const BRACE_ATTACHMENTS = /^(\/\/|\/\*|\*|@|#!?\[)/;
+
+const GRAMMARS: Record<CodeLanguage, Grammar> = {
+  typescript: {
+    style: 'braces',
+    declarations: SCRIPT_DECLARATIONS,
+    members: { class: SCRIPT_MEMBERS, module: SCRIPT_DECLARATIONS },
+    attachments: BRACE_ATTACHMENTS
+  },
+  javascript: {
+    style: 'braces',
+    declarations: SCRIPT_DECLARATIONS,
+    members: { class: SCRIPT_MEMBERS },
+    attachments: BRACE_ATTACHMENTS
+  },
+  python: {
+    style: 'indent',
+    declarations: PYTHON_DECLARATIONS,
+    members: { class: PYTHON_DECLARATIONS },
+    attachments: /^(#|@)/
+  },
+  go: {
+    style: 'braces',
+    declarations: [
+      { kind: 'method', regex: /^func\s+\(\s*(?:\w+\s+)?\*?\s*(?<receiver>\w+)(?:\[[^\]]*\])?\s*\)\s*(?<name>\w+)/ },
+      { kind: 'function', regex: /^func\s+(?<name>\w+)/ },
+      { kind: 'struct', regex: /^type\s+(?<name>\w+)(?:\[[^\]]*\])?\s+struct\b/ },
+      { kind: 'interface', regex: /^type\s+(?<name>\w+)(?:\[[^\]]*\])?\s+interface\b/ },
+      { kind: 'type', regex: /^type\s+(?<name>\w+)/ }
+    ],
+    members: {}, // Methods are top-level in Go
+    attachments: BRACE_ATTACHMENTS
+  },
+  java: {
+    style: 'braces',
+    declarations: JAVA_DECLARATIONS,
+    members: { class: JAVA_MEMBERS, interface: JAVA_MEMBERS, enum: JAVA_MEMBERS },
+    attachments: BRACE_ATTACHMENTS
+  },
+  rust: {
+    style: 'braces',
+    declarations: RUST_DECLARATIONS,
+    members: { impl: [RUST_FUNCTION], trait: [RUST_FUNCTION], module: RUST_DECLARATIONS },
+    attachments: BRACE_ATTACHMENTS
+  }
+};
+
+// Plenty for one function or a small class - bigger ones are split into members
+const DEFAULT_MAX_TOKENS = 1000;
+
+/**
+ * Language of a source file, or undefined when the code chunker doesn't handle it
+ */
+export function codeLanguageFor(filePath: string): CodeLanguage | undefined {
+  return EXTENSIONS[path.extname(filePath).toLowerCase()];
+}
+
+export class CodeChunker {
+  private readonly maxTokens: number;
+
+  constructor(options: CodeChunkerOptions = {}) {
+    this.maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+  }
+
+  chunk(content: string, language: CodeLanguage): Chunk[] {
+    const lines = content.replace(/\r\n?/g, '\n').split('\n');
+    const source = new SourceText(content);
+    const grammar = GRAMMARS[language];
+    const structure = grammar.style === 'braces'
+      ? new BraceStructure(lines, language, grammar)
+      : new IndentStructure(lines, grammar);
+
+    const pieces: Piece[] = [];
+    let cursor = 0;
+    for (const declaration of structure.declarations(0, lines.length - 1, 0, grammar.declarations)) {
+      this.gap(lines, cursor, declaration.start - 1, pieces);
+      this.declaration(lines, structure, grammar, declaration, pieces);
+      cursor = declaration.end + 1;
+    }
+    this.gap(lines, cursor, lines.length - 1, pieces);
+
+    return pieces.map((piece, chunkIndex) => ({
+      content: piece.text,
+      metadata: {
+        ...source.lines(piece.first, piece.last),
+        symbol: piece.symbol,
+        symbolKind: piece.symbolKind,
+        language,
+        ...(piece.context && { context: piece.context }),
+        hasCode: true,
+        tokenCount: countTokens(piece.text),
+        chunkIndex,
+        isContinuation: piece.isContinuation
+      }
+    }));
+  }
+
+  /**
+   * Emit a declaration whole, as its members (containers) or in line-packed pieces
+   */
+  private declaration(
+    lines: string[],
+    structure: Structure,
+    grammar: Grammar,
+    declaration: Declaration,
+    pieces: Piece[],
+    container?: Container
+  ): void {
+    const symbol = container ? `${container.name}.${declaration.name}` : declaration.name;
+    const symbolKind = container && declaration.kind === 'function' ? 'method' : declaration.kind;
+    const prefix = container ? [container.signature] : [];
+    const body = lines.slice(declaration.start, declaration.end + 1);
+
+    if (countTokens([...prefix, ...body].join('\n')) <= this.maxTokens) {
+      pieces.push({
+        text: [...prefix, ...body].join('\n'),
+        symbol,
+        symbolKind,
+        context: container?.signature,
+        isContinuation: false,
+        first: declaration.start,
+        last: declaration.end
+      });
+      return;
+    }
+
+    // One level of members - nested containers are split by lines instead
+    const memberPatterns = container ? undefined : grammar.members[declaration.kind];
+    if (memberPatterns) {
+      const { signatureEnd, level } = structure.body(declaration);
+      const members = structure.declarations(signatureEnd + 1, declaration.end, level, memberPatterns);
+
+      if (members.length > 0) {
+        const signature = lines.slice(declaration.line, signatureEnd + 1).join('\n').trimEnd();
+        const covered = new Set(members.flatMap(member => range(member.start, member.end)));
+        const rest = range(declaration.start, declaration.end).filter(idx => !covered.has(idx));
+
+        // The container itself - signature plus fields and anything else that isn't a member
+        const hasFields = rest.some(idx => idx > signatureEnd && lines[idx].trim() && !/^\s*[}\])];?\s*$/.test(lines[idx]));
+        if (hasFields) {
+          const outline = rest.filter((line, idx, all) =>
+            lines[line].trim() || (idx + 1 < all.length && lines[all[idx + 1]].trim() && idx > 0 && lines[all[idx - 1]].trim()));
+          this.packLines(lines, outline, [], [signature], { symbol, symbolKind }, pieces);
+        }
+        for (const member of members) {
+          this.declaration(lines, structure, grammar, member, pieces, { name: symbol, signature });
+        }
+        return;
+      }
+    }
+
+    const signature = lines[declaration.line];
+    const indices = range(declaration.start, declaration.end);
+    this.packLines(lines, indices, prefix, [...prefix, signature], { symbol, symbolKind, context: container?.signature }, pieces);
+  }
+
+  /**
+   * Code between declarations - imports, constants, top-level statements
+   */
+  private gap(lines: string[], from: number, to: number, pieces: Piece[]): void {
+    let start = from;
+    let end = to;
+    while (start <= end && !lines[start].trim()) start++;
+    while (end >= start && !lines[end].trim()) end--;
+    if (start > end) return;
+
+    this.packLines(lines, range(start, end), [], [], { symbolKind: 'module' }, pieces);
+  }
+
+  /**
+   * Pack lines (by index) into pieces within the token budget
+   * @param head - Prepended to the first piece
+   * @param continuationHead - Prepended to every later piece so it keeps its context
+   */
+  private packLines(
+    lines: string[],
+    indices: number[],
+    head: string[],
+    continuationHead: string[],
+    info: Pick<Piece, 'symbol' | 'symbolKind' | 'context'>,
+    pieces: Piece[]
+  ): void {
+    // Minified code - cut single huge lines so every piece can fit
+    const maxLineChars = this.maxTokens * 3;
+    const units = indices.flatMap(line => lines[line].length > maxLineChars
+      ? range(0, Math.ceil(lines[line].length / maxLineChars) - 1)
+        .map(idx => ({ line, text: lines[line].slice(idx * maxLineChars, (idx + 1) * maxLineChars) }))
+      : [{ line, text: lines[line] }]);
+
+    let current: typeof units = [];
+    let tokens = 0;
+    let part = 0;
+    const flush = () => {
+      if (current.some(unit => unit.text.trim())) {
+        const prefix = part === 0 ? head : continuationHead;
+        pieces.push({
+          ...info,
+          text: [...prefix, ...current.map(unit => unit.text)].join('\n'),
+          isContinuation: part > 0,
+          first: current[0].line,
+          last: current[current.length - 1].line
+        });
+        part++;
+      }
+      current = [];
+      tokens = 0;
+    };
+
+    for (const unit of units) {
+      const lineTokens = countTokens(unit.text) + 1;
+      const prefixTokens = countTokens((part === 0 ? head : continuationHead).join('\n'));
+      if (current.length > 0 && prefixTokens + tokens + lineTokens > this.maxTokens) flush();
+      current.push(unit);
+      tokens += lineTokens;
+    }
+    flush();
+  }
+}
+
+interface Structure {
+  /**
+   * Declarations starting at `level` between two lines (inclusive)
+   */
+  declarations(from: number, to: number, level: number, patterns: Pattern[]): Declaration[];
+  /**
+   * Where a container's signature ends and at which level its members live
+   */
+  body(declaration: Declaration): { signatureEnd: number; level: number };
+}
+
+/**
+ * Brace-delimited languages - tracks `{}` depth outside strings and comments
+ */
+class BraceStructure implements Structure {
+  private readonly depthAtStart: number[] = [];
+  private readonly depthAtEnd: number[] = [];
+  private readonly peak: number[] = [];
+
+  constructor(
+    private readonly lines: string[],
+    language: CodeLanguage,
+    private readonly grammar: Grammar
+  ) {
+    const script = language === 'typescript' || language === 'javascript';
+    let depth = 0;
+    let blockComment = false;
+    let multiline: string | null = null; // Open template literal, raw string or text block
+
+    lines.forEach((line, idx) => {
+      this.depthAtStart[idx] = depth;
+      let peak = depth;
+      let k = 0;
+
+      while (k < line.length) {
+        if (blockComment) {
+          const close = line.indexOf('*/', k);
+          if (close < 0) break;
+          blockComment = false;
+          k = close + 2;
+          continue;
+        }
+        if (multiline) {
+          const close = findClosing(line, k, multiline);
+          if (close < 0) break;
+          k = close + multiline.length;
+          multiline = null;
+          continue;
+        }
+
+        const char = line[k];
+        if (line.startsWith('//', k)) break;
+        if (line.startsWith('/*', k)) {
+          blockComment = true;
+          k += 2;
+        } else if (language === 'java' && line.startsWith('"""', k)) {
+          multiline = '"""';
+          k += 3;
+        } else if (char === '`' && (script || language === 'go')) {
+          multiline = '`';
+          k++;
+        } else if (char === '"' || (char === "'" && script)) {
+          const close = findClosing(line, k + 1, char);
+          k = close < 0 ? line.length : close + 1;
+        } else if (char === "'") {
+          // Char literal - but a Rust lifetime ('a) has no closing quote
+          const literal = line.slice(k).match(/^'(?:\\[^']+|[^\\'])'/);
+          k += literal ? literal[0].length : 1;
+        } else {
+          if (char === '{') peak = Math.max(peak, ++depth);
+          if (char === '}') depth = Math.max(0, depth - 1);
+          k++;
+        }
+      }
+
+      this.depthAtEnd[idx] = depth;
+      this.peak[idx] = peak;
+    });
+  }
+
+  declarations(from: number, to: number, level: number, patterns: Pattern[]): Declaration[] {
+    const found: Declaration[] = [];
+    let floor = from;
+
+    for (let i = from; i <= to; i++) {
+      if (this.depthAtStart[i] !== level) continue;
+      const match = matchDeclaration(this.lines[i].trim(), patterns);
+      if (!match) continue;
+
+      // Ends where depth is back at `level` after the body opened, or at the end of a bodiless statement
+      let end = i;
+      let opened = false;
+      for (; end <= to; end++) {
+        const line = this.lines[end].trimEnd();
+        opened ||= this.depthAtEnd[end] > level || (this.peak[end] > level && /}\s*;?$/.test(line));
+        const statementDone = /[;,]$/.test(line) || end === to || !this.lines[end + 1].trim();
+        if (this.depthAtEnd[end] <= level && (opened || statementDone)) break;
+      }
+
+      found.push({ ...match, start: attachedStart(this.lines, i, floor, this.grammar.attachments), line: i, end: Math.min(end, to) });
+      i = Math.min(end, to);
+      floor = i + 1;
+    }
+
+    return found;
+  }
+
+  body(declaration: Declaration): { signatureEnd: number; level: number } {
+    const level = this.depthAtStart[declaration.line];
+    let signatureEnd = declaration.line;
+    while (signatureEnd < declaration.end && this.depthAtEnd[signatureEnd] <= level) signatureEnd++;
+    return { signatureEnd, level: level + 1 };
+  }
+}
+
+/**
+ * Python - blocks are lines indented deeper than their header
+ */
+class IndentStructure implements Structure {
+  private readonly logical: boolean[] = []; // Starts a logical line (not inside brackets or a triple-quoted string)
+  private readonly indent: number[] = [];
+
+  constructor(
+    private readonly lines: string[],
+    private readonly grammar: Grammar
+  ) {
+    let brackets = 0;
+    let triple: string | null = null;
+
+    lines.forEach((line, idx) => {
+      this.logical[idx] = brackets === 0 && !triple;
+      this.indent[idx] = line.match(/^[ \t]*/)![0].length;
+      let k = 0;
+
+      while (k < line.length) {
+        if (triple) {
+          const close = findClosing(line, k, triple);
+          if (close < 0) break;
+          k = close + 3;
+          triple = null;
+          continue;
+        }
+
+        const char = line[k];
+        if (char === '#') break;
+        if (line.startsWith('"""', k) || line.startsWith("'''", k)) {
+          triple = line.slice(k, k + 3);
+          k += 3;
+        } else if (char === '"' || char === "'") {
+          const close = findClosing(line, k + 1, char);
+          k = close < 0 ? line.length : close + 1;
+        } else {
+          if ('([{'.includes(char)) brackets++;
+          if (')]}'.includes(char)) brackets = Math.max(0, brackets - 1);
+          k++;
+        }
+      }
+    });
+  }
+
+  declarations(from: number, to: number, level: number, patterns: Pattern[]): Declaration[] {
+    const found: Declaration[] = [];
+    let floor = from;
+
+    for (let i = from; i <= to; i++) {
+      if (!this.logical[i] || this.indent[i] !== level || !this.lines[i].trim()) continue;
+      const match = matchDeclaration(this.lines[i].trim(), patterns);
+      if (!match) continue;
+
+      let end = i;
+      for (let j = i + 1; j <= to; j++) {
+        if (!this.lines[j].trim()) continue;
+        if (this.logical[j] && this.indent[j] <= level) break;
+        end = j;
+      }
+
+      found.push({ ...match, start: attachedStart(this.lines, i, floor, this.grammar.attachments), line: i, end });
+      i = end;
+      floor = end + 1;
+    }
+
+    return found;
+  }
+
+  body(declaration: Declaration): { signatureEnd: number; level: number } {
+    let signatureEnd = declaration.line;
+    while (signatureEnd < declaration.end && !this.logical[signatureEnd + 1]) signatureEnd++;
+
+    const first = range(signatureEnd + 1, declaration.end).find(idx => this.lines[idx].trim() && this.logical[idx]);
+    return { signatureEnd, level: first === undefined ? this.indent[declaration.line] + 4 : this.indent[first] };
+  }
+}
+
+function matchDeclaration(line: string, patterns: Pattern[]): Pick<Declaration, 'kind' | 'name'> | null {
+  for (const pattern of patterns) {
+    const groups = line.match(pattern.regex)?.groups;
+    if (!groups) continue;
+
+    const name = groups.name || 'default';
+    if (KEYWORDS.has(name)) continue;
+    return { kind: pattern.kind, name: groups.receiver ? `${groups.receiver}.${name}` : name };
+  }
+  return null;
+}
+
+/**
+ * Include doc comments, decorators and attributes directly above a declaration
+ */
+function attachedStart(lines: string[], line: number, floor: number, attachments: RegExp): number {
+  let start = line;
+  while (start - 1 >= floor && lines[start - 1].trim() && attachments.test(lines[start - 1].trim())) {
+    start--;
+  }
+  return start;
+}
+
+/**
+ * Index of the closing delimiter, skipping backslash escapes
+ */
+function findClosing(line: string, from: number, delimiter: string): number {
+  for (let k = from; k < line.length; k++) {
+    if (line[k] === '\\') {
+      k++;
+    } else if (line.startsWith(delimiter, k)) {
+      return k;
+    }
+  }
+  return -1;
+}
+
+function range(from: number, to: number): number[] {
+  return to < from ? [] : Array.from({ length: to - from + 1 }, (_, idx) => from + idx);
+}
@@ -0,0 +1,179 @@
+/**
+ * Document Extractor - PDF and DOCX files as Markdown text, in-process (pdfjs, mammoth)
+ *
+ * - PDF: the text layer of each page, lines rebuilt from glyph positions. Lines set clearly
+ *   larger than the body text become headings (the largest size is `#`), vertical gaps become
+ *   paragraph breaks, the document title goes into front matter. Pages are separated by a
+ *   line holding a form feed, so chunks can be mapped back to page numbers.
+ * - DOCX: Word heading styles, lists, tables and links through mammoth's HTML, then the same
+ *   HTML to Markdown conversion as crawled web pages.
+ *
+ * Scanned PDFs without a text layer give no text - there is no OCR.
+ */
+
+import * as path from 'path';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api.js';
+import mammoth from 'mammoth';
+import { stringify as stringifyYaml } from 'yaml';
+import { config } from '../config/index.js';
+import { htmlToMarkdown } from './web-crawler.js';
+
+export interface ExtractOptions {
+  maxPages?: number;
+}
+
+interface PdfLine {
+  text: string;
+  size: number; // Largest glyph height on the line
+  y: number;
+  x: number; // Where the last item ended - for word gaps
+  gapBefore: boolean; // Paragraph break above
+}
+
+export const DOCUMENT_EXTENSIONS = new Set(['.pdf', '.docx']);
+export const PAGE_BREAK = '\f';
+
+const HEADING_SCALE = 1.2; // Lines this much larger than the body text are headings
+const MAX_HEADING_CHARS = 150;
+const PARAGRAPH_GAP = 1.5; // Line distance, in line heights, that starts a new paragraph
+// Body lines Markdown would read as headings, fences, setext underlines or front matter
+const MARKDOWN_SYNTAX = /^(\s*)(#|```|~~~|={3,}|-{3,})/;
+
+/**
+ * Binary documents that are extracted before chunking
+ */
+export function isDocumentFile(filePath: string): boolean {
+  return DOCUMENT_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Markdown text of a PDF or DOCX file
+ */
+export async function extractDocument(filePath: string, data: Buffer, options: ExtractOptions = {}): Promise<string> {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext === '.pdf') return extractPdf(data, options.maxPages ?? config.indexing.maxDocumentPages, filePath);
+  if (ext === '.docx') return extractDocx(data);
+  throw new Error(`Unknown document type "${ext}". Use one of: ${[...DOCUMENT_EXTENSIONS].join(', ')}`);
+}
+
+/**
+ * 1-based page of every line of extracted text - all 1 for documents without page breaks
+ */
+export function linePages(text: string): number[] {
+  let page = 1;
+  return text.split('\n').map(line => (line === PAGE_BREAK ? ++page : page));
+}
+
+async function extractPdf(data: Buffer, maxPages: number, filePath: string): Promise<string> {
+  const pdf = await getDocument({
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    useSystemFonts: false,
+    verbosity: 0
+  }).promise;
+
+  try {
+    const pageCount = Math.min(pdf.numPages, maxPages);
+    if (pdf.numPages > maxPages) {
+      console.warn(`⚠️ ${path.basename(filePath)} has ${pdf.numPages} pages, indexing the first ${maxPages}`);
+    }
+
+    const pages: PdfLine[][] = [];
+    for (let number = 1; number <= pageCount; number++) {
+      const page = await pdf.getPage(number);
+      const content = await page.getTextContent();
+      pages.push(pdfLines(content.items.filter((item): item is TextItem => 'str' in item)));
+      page.cleanup();
+    }
+
+    const title = (await pdf.getMetadata().catch(() => null))?.info as { Title?: unknown } | undefined;
+    const frontMatter = typeof title?.Title === 'string' && title.Title.trim()
+      ? `---\n${stringifyYaml({ title: title.Title.trim() })}---\n\n`
+      : '';
+    return frontMatter + renderPdf(pages);
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Group text items into lines - a new line starts on an end-of-line marker or a different baseline
+ */
+function pdfLines(items: TextItem[]): PdfLine[] {
+  const lines: PdfLine[] = [];
+  let current: PdfLine | undefined;
+  let lineEnded = true;
+
+  for (const item of items) {
+    const [, , , , x, y] = item.transform; // [scaleX, skewX, skewY, scaleY, x, y]
+    const size = item.height || Math.abs(item.transform[3]);
+
+    if (item.str) {
+      const newLine = !current || lineEnded || Math.abs(current.y - y) > Math.max(current.size, size) / 2;
+      if (newLine) {
+        const previous = current;
+        current = {
+          text: item.str,
+          size,
+          y,
+          x: x + item.width,
+          gapBefore: !!previous && previous.y - y > PARAGRAPH_GAP * Math.max(previous.size, size)
+        };
+        lines.push(current);
+      } else {
+        const gap = x - current!.x;
+        const joined = /\s$/.test(current!.text) || /^\s/.test(item.str);
+        current!.text += !joined && gap > size * 0.2 ? ` ${item.str}` : item.str;
+        current!.size = Math.max(current!.size, size);
+        current!.x = x + item.width;
+      }
+    }
+    lineEnded = item.hasEOL;
+  }
+
+  return lines
+    .map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+    .filter(line => line.text);
+}
+
+/**
+ * Lines as Markdown - heading levels follow font sizes across the whole document
+ */
+function renderPdf(pages: PdfLine[][]): string {
+  const lines = pages.flat();
+  const sizeChars = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.size * 2) / 2;
+    sizeChars.set(size, (sizeChars.get(size) ?? 0) + line.text.length);
+  }
+  const bodySize = [...sizeChars].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+
+  const isHeading = (line: PdfLine) =>
+    bodySize > 0 && line.size >= bodySize * HEADING_SCALE && line.text.length <= MAX_HEADING_CHARS && /\p{L}/u.test(line.text);
+  const headingSizes = [...new Set(lines.filter(isHeading).map(line => Math.round(line.size * 2) / 2))].sort((a, b) => b - a);
+  const levelOf = (line: PdfLine) => Math.min(headingSizes.indexOf(Math.round(line.size * 2) / 2) + 1, 6);
+
+  return pages.map(page => {
+    const out: string[] = [];
+    let previous: PdfLine | undefined;
+
+    for (const line of page) {
+      const heading = isHeading(line);
+      if (heading && previous && isHeading(previous) && !line.gapBefore && levelOf(previous) === levelOf(line)) {
+        // A heading wrapped over several lines
+        out[out.length - 1] += ` ${line.text}`;
+      } else {
+        if (out.length > 0 && (heading || line.gapBefore || isHeading(previous!))) out.push('');
+        out.push(heading ? `${'#'.repeat(levelOf(line))} ${line.text}` : line.text.replace(MARKDOWN_SYNTAX, '$1\\$2'));
+      }
+      previous = line;
+    }
+    return out.join('\n').trim();
+  }).join(`\n${PAGE_BREAK}\n`);
+}
+
+async function extractDocx(data: Buffer): Promise<string> {
+  const { value: html } = await mammoth.convertToHtml({ buffer: data });
+  return htmlToMarkdown(`<body>${html}</body>`, 'file:///').markdown;
+}
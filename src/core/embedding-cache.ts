@@ -0,0 +1,217 @@
+/**
+ * Embedding Cache - Persistent (model, dimensions, contentHash) → vector lookup
+ * Rebuilds and changed-file re-indexes only pay for chunks whose text changed
+ *
+ * On-disk layout (config.embeddingCache.path):
+ *   embeddings.jsonl  - append-only JSON lines, one { key, vector } per cached chunk
+ *   stats.json        - cumulative hit/miss counters shown by `cli.ts stats`
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { config } from '../config/index.js';
+import type { EmbeddingResult } from './embedding-providers.js';
+
+interface CacheLine {
+  key: string;
+  vector: string;
+}
+
+export interface EmbeddingCacheStats {
+  enabled: boolean;
+  path: string;
+  entries: number;
+  hits: number;
+  misses: number;
+  hitRate: string;
+}
+
+/**
+ * SHA-256 of chunk text - stored on every document as `contentHash`
+ */
+export function hashContent(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+export class EmbeddingCache {
+  private static instance: EmbeddingCache;
+  // Vectors stay base64-encoded in memory until they're used - ~5x smaller than number[]
+  private entries = new Map<string, string>();
+  private hits = 0;
+  private misses = 0;
+  private loading?: Promise<void>;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly directory: string,
+    readonly enabled: boolean = true
+  ) {}
+
+  static getInstance(): EmbeddingCache {
+    if (!this.instance) {
+      const setting = (process.env.EMBEDOCS_EMBEDDING_CACHE || '').toLowerCase();
+      const enabled = ['off', 'false', '0'].includes(setting) ? false : config.embeddingCache.enabled;
+      this.instance = new EmbeddingCache(
+        process.env.EMBEDOCS_EMBEDDING_CACHE_PATH || config.embeddingCache.path,
+        enabled
+      );
+    }
+    return this.instance;
+  }
+
+  static key(model: string, dimensions: number, contentHash: string): string {
+    return `${model}:${dimensions}:${contentHash}`;
+  }
+
+  private get entriesPath(): string {
+    return path.join(this.directory, 'embeddings.jsonl');
+  }
+
+  private get statsPath(): string {
+    return path.join(this.directory, 'stats.json');
+  }
+
+  /**
+   * Look up cached embeddings - undefined where the chunk has never been embedded
+   */
+  async lookup(model: string, dimensions: number, contentHashes: string[]): Promise<(EmbeddingResult | undefined)[]> {
+    if (!this.enabled || contentHashes.length === 0) return contentHashes.map(() => undefined);
+    await this.load();
+
+    const results = contentHashes.map(hash => {
+      const vector = this.entries.get(EmbeddingCache.key(model, dimensions, hash));
+      return vector ? toResult(decodeVector(vector), model) : undefined;
+    });
+
+    const found = results.filter(Boolean).length;
+    this.hits += found;
+    this.misses += results.length - found;
+    await this.saveStats();
+
+    return results;
+  }
+
+  /**
+   * Remember freshly generated embeddings - one appended line per new chunk
+   */
+  async store(model: string, dimensions: number, contentHashes: string[], results: EmbeddingResult[]): Promise<void> {
+    if (!this.enabled || contentHashes.length === 0) return;
+    await this.load();
+
+    const lines: string[] = [];
+    contentHashes.forEach((hash, idx) => {
+      const key = EmbeddingCache.key(model, dimensions, hash);
+      if (this.entries.has(key)) return;
+
+      const vector = encodeVector(results[idx].normalized);
+      this.entries.set(key, vector);
+      lines.push(JSON.stringify({ key, vector } satisfies CacheLine));
+    });
+
+    if (lines.length > 0) {
+      await this.enqueue(() => fs.appendFile(this.entriesPath, lines.map(line => line + '\n').join('')));
+    }
+  }
+
+  async getStats(): Promise<EmbeddingCacheStats> {
+    if (this.enabled) await this.load();
+
+    const lookups = this.hits + this.misses;
+    return {
+      enabled: this.enabled,
+      path: this.directory,
+      entries: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? (this.hits / lookups * 100).toFixed(1) + '%' : '0%'
+    };
+  }
+
+  /**
+   * Drop every cached embedding and reset the counters
+   */
+  async clear(): Promise<void> {
+    await this.load();
+
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+    await this.enqueue(() => fs.writeFile(this.entriesPath, ''));
+    await this.saveStats();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFromDisk();
+    }
+    return this.loading;
+  }
+
+  private async readFromDisk(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const stats = await readOptional(this.statsPath);
+    if (stats) {
+      const parsed = JSON.parse(stats);
+      this.hits = parsed.hits || 0;
+      this.misses = parsed.misses || 0;
+    }
+
+    const lines = await readOptional(this.entriesPath);
+    if (!lines) return;
+
+    for (const line of lines.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry: CacheLine = JSON.parse(line);
+        this.entries.set(entry.key, entry.vector);
+      } catch {
+        // A torn final line from an interrupted write - that chunk just gets embedded again
+        console.warn('⚠️ Skipping unreadable line in embedding cache');
+      }
+    }
+  }
+
+  private async saveStats(): Promise<void> {
+    const snapshot = JSON.stringify({ hits: this.hits, misses: this.misses }, null, 2);
+    await this.enqueue(() => writeAtomic(this.statsPath, snapshot));
+  }
+
+  /**
+   * Serialize file writes so cache lines never interleave
+   */
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const next = this.writeQueue.then(write);
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+}
+
+function toResult(vector: number[], model: string): EmbeddingResult {
+  return { embedding: vector, normalized: vector, dimensions: vector.length, model };
+}
+
+function encodeVector(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+}
+
+function decodeVector(encoded: string): number[] {
+  const buffer = Buffer.from(encoded, 'base64');
+  return Array.from(new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4));
+}
+
+async function readOptional(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function writeAtomic(file: string, content: string): Promise<void> {
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, content);
+  await fs.rename(tmp, file);
+}
@@ -0,0 +1,545 @@
+/**
+ * Embedding Providers - Every backend that can turn text into vectors
+ * Voyage AI (default), any OpenAI-compatible /v1/embeddings server, and a
+ * deterministic hashing provider for offline tests
+ */
+
+import axios from 'axios';
+import { createHash } from 'crypto';
+import { config } from '../config/index.js';
+import { tokenize } from './bm25.js';
+
+export interface EmbeddingResult {
+  embedding: number[];
+  normalized: number[];
+  dimensions: number;
+  model: string;
+}
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  readonly dimensions: number;
+  readonly maxTokens: number;
+  embedDocuments(texts: string[]): Promise<EmbeddingResult[]>;
+  embedQuery(text: string): Promise<EmbeddingResult>;
+  /**
+   * Embed chunks grouped by source document, keeping each document's chunks together
+   * Providers without document context simply embed every chunk on its own
+   */
+  embedDocumentGroups?(groups: string[][]): Promise<EmbeddingResult[][]>;
+}
+
+export type EmbeddingProviderName = 'voyage' | 'openai' | 'hashing';
+
+export interface EmbeddingSettings {
+  provider: EmbeddingProviderName;
+  model: string;
+  dimensions: number;
+  maxTokens: number;
+  baseUrl?: string;
+}
+
+/**
+ * Resolve provider settings from config + environment without creating a client
+ * Safe to call when API keys are missing (stats, index creation)
+ */
+export function resolveEmbeddingSettings(): EmbeddingSettings {
+  const provider: string = process.env.EMBEDOCS_EMBEDDING_PROVIDER || config.embedding.provider;
+  const envDimensions = process.env.EMBEDOCS_EMBEDDING_DIMENSIONS
+    ? parseInt(process.env.EMBEDOCS_EMBEDDING_DIMENSIONS, 10)
+    : undefined;
+
+  switch (provider) {
+    case 'voyage':
+      return {
+        provider,
+        model: process.env.EMBEDOCS_EMBEDDING_MODEL || config.embedding.model,
+        dimensions: envDimensions || config.embedding.dimensions,
+        maxTokens: config.embedding.maxTokens
+      };
+    case 'openai':
+      return {
+        provider,
+        model: process.env.EMBEDOCS_EMBEDDING_MODEL || config.embedding.openai.model,
+        dimensions: envDimensions || config.embedding.openai.dimensions,
+        maxTokens: config.embedding.openai.maxTokens,
+        baseUrl: process.env.EMBEDOCS_EMBEDDING_URL || config.embedding.openai.baseUrl
+      };
+    case 'hashing':
+      return {
+        provider,
+        model: `hashing-${envDimensions || config.embedding.hashing.dimensions}`,
+        dimensions: envDimensions || config.embedding.hashing.dimensions,
+        maxTokens: config.embedding.hashing.maxTokens
+      };
+    default:
+      throw new Error(`Unknown embedding provider "${provider}". Use "voyage", "openai" or "hashing".`);
+  }
+}
+
+/**
+ * Contextualized models embed each chunk together with the rest of its document
+ */
+export function isContextModel(model: string): boolean {
+  return model.includes('context');
+}
+
+/**
+ * Create the provider selected by config/env
+ */
+export function createEmbeddingProvider(settings: EmbeddingSettings = resolveEmbeddingSettings()): EmbeddingProvider {
+  switch (settings.provider) {
+    case 'voyage':
+      return new VoyageProvider(process.env.VOYAGE_API_KEY!, settings);
+    case 'openai':
+      return new OpenAICompatibleProvider(
+        process.env.EMBEDOCS_EMBEDDING_API_KEY || process.env.OPENAI_API_KEY,
+        settings
+      );
+    case 'hashing':
+      return new HashingProvider(settings.dimensions);
+  }
+}
+
+/**
+ * Voyage AI - contextualized (voyage-context-3) and regular embedding endpoints
+ * FOLLOWS voyage-ai/voyageai-python implementation
+ * @see https://github.com/voyage-ai/voyageai-python/blob/main/tests/test_client.py
+ */
+export class VoyageProvider implements EmbeddingProvider {
+  readonly name = 'voyage' as const;
+  readonly model: string;
+  readonly dimensions: number;
+  readonly maxTokens: number;
+
+  constructor(
+    private readonly apiKey: string,
+    settings: Pick<EmbeddingSettings, 'model' | 'dimensions' | 'maxTokens'> = {
+      model: config.embedding.model,
+      dimensions: config.embedding.dimensions,
+      maxTokens: config.embedding.maxTokens
+    }
+  ) {
+    if (!apiKey) {
+      throw new Error('VOYAGE_API_KEY is required');
+    }
+    this.model = settings.model;
+    this.dimensions = settings.dimensions;
+    this.maxTokens = settings.maxTokens;
+  }
+
+  private get isContextModel(): boolean {
+    return isContextModel(this.model);
+  }
+
+  async embedDocuments(texts: string[]): Promise<EmbeddingResult[]> {
+    if (texts.length === 0) return [];
+
+    if (this.isContextModel) {
+      // Independent texts - one inner list each so no text sees another as context
+      const groups = await this.embedDocumentGroups(texts.map(text => [text]));
+      return groups.flat();
+    }
+
+    const allResults: EmbeddingResult[] = [];
+    for (let i = 0; i < texts.length; i += config.embedding.maxBatchSize) {
+      const batch = texts.slice(i, i + config.embedding.maxBatchSize);
+      allResults.push(...await this.processBatch(batch, 'document'));
+
+      // Rate limiting from config
+      await delay(config.embedding.rateLimit);
+    }
+
+    return allResults;
+  }
+
+  /**
+   * Embed all chunks of a document in one inner list so voyage-context-3 encodes
+   * each chunk with the rest of the file as context
+   * Documents over the per-document token budget are split into consecutive parts,
+   * and several documents are packed into one request up to the request budget
+   */
+  async embedDocumentGroups(groups: string[][]): Promise<EmbeddingResult[][]> {
+    if (!this.isContextModel) {
+      return regroup(groups, await this.embedDocuments(groups.flat()));
+    }
+
+    const parts = groups.flatMap((group, groupIndex) =>
+      splitByTokenBudget(group, config.embedding.contextTokenLimit).map(texts => ({ groupIndex, texts }))
+    );
+    const results: EmbeddingResult[][] = groups.map(() => []);
+
+    for (let i = 0; i < parts.length;) {
+      const request = [parts[i]];
+      let requestTokens = sumTokens(parts[i].texts);
+      i++;
+
+      while (
+        i < parts.length &&
+        request.length < config.embedding.maxBatchSize &&
+        requestTokens + sumTokens(parts[i].texts) <= config.embedding.contextRequestTokenLimit
+      ) {
+        requestTokens += sumTokens(parts[i].texts);
+        request.push(parts[i]);
+        i++;
+      }
+
+      const embedded = await this.processContextBatch(request.map(part => part.texts), 'document');
+      request.forEach((part, idx) => results[part.groupIndex].push(...embedded[idx]));
+
+      // Rate limiting from config
+      await delay(config.embedding.rateLimit);
+    }
+
+    return results;
+  }
+
+  /**
+   * @see https://github.com/voyage-ai/langchain-voyageai/blob/main/libs/voyageai/langchain_voyageai/embeddings.py#L142
+   */
+  async embedQuery(text: string): Promise<EmbeddingResult> {
+    if (this.isContextModel) {
+      const results = await this.processContextBatch([[text]], 'query'); // Context models need double-wrapped array
+      return results[0][0];
+    }
+    const results = await this.processBatch([text], 'query');
+    return results[0];
+  }
+
+  /**
+   * Process contextualized embeddings - one inner list per document, results in the same shape
+   * Based on voyage-ai/langchain-voyageai
+   * @see https://github.com/voyage-ai/langchain-voyageai/blob/main/libs/voyageai/langchain_voyageai/embeddings.py#L111
+   */
+  private async processContextBatch(
+    inputs: string[][],
+    inputType: 'document' | 'query'
+  ): Promise<EmbeddingResult[][]> {
+    // FINAL SAFETY NET: one oversized text would fail the whole request
+    const isOversized = (text: string) => estimateTokens(text) > config.embedding.contextTokenLimit;
+    const validInputs = inputs.map(texts => texts.filter(text => !isOversized(text)));
+    const filtered = inputs.flat().length - validInputs.flat().length;
+
+    if (filtered > 0) {
+      console.warn(`⚠️ Filtered ${filtered} oversized texts to prevent API errors`);
+    }
+
+    const sentInputs = validInputs.filter(texts => texts.length > 0);
+    const embedded = sentInputs.length > 0
+      ? await this.postContextBatch(sentInputs, inputType)
+      : [];
+
+    // Put results back in place - filtered texts get empty embeddings
+    const sentLists = embedded[Symbol.iterator]();
+    return inputs.map((texts, idx) => {
+      const list = validInputs[idx].length > 0 ? sentLists.next().value! : [];
+      const listResults = list[Symbol.iterator]();
+      return texts.map(text => isOversized(text)
+        ? this.emptyResult('filtered-oversized')
+        : listResults.next().value!);
+    });
+  }
+
+  private async postContextBatch(
+    inputs: string[][],
+    inputType: 'document' | 'query'
+  ): Promise<EmbeddingResult[][]> {
+    return postWithRetries('Context embedding', async () => {
+      // CRITICAL: voyage-context-3 requires double-wrapped array
+      // Documentation confirms: inputs should be [[texts]] for contextualized
+      const response = await axios.post(
+        config.embedding.apiUrl,
+        {
+          inputs,
+          input_type: inputType,
+          model: this.model,
+          output_dimension: this.dimensions
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${this.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          timeout: config.embedding.timeout,
+        }
+      );
+
+      // Parse contextualized response - Based on actual API structure
+      // From test files: response.data.data[i].data[j].embedding, one entry per inner list
+      const documents = response.data?.data;
+      if (!Array.isArray(documents) || documents.length !== inputs.length) {
+        console.error('Unexpected response structure:', JSON.stringify(response.data, null, 2));
+        throw new Error('Invalid response structure from contextualized API');
+      }
+
+      return byIndex(documents).map((document: any, idx) => {
+        const chunks = Array.isArray(document?.data) ? byIndex(document.data) : [];
+        if (chunks.length !== inputs[idx].length) {
+          throw new Error(`Contextualized API returned ${chunks.length} embeddings for ${inputs[idx].length} chunks`);
+        }
+        return toResults(chunks.map((item: any) => item.embedding), this.model);
+      });
+    });
+  }
+
+  private emptyResult(model: string): EmbeddingResult {
+    return {
+      embedding: new Array(this.dimensions).fill(0),
+      normalized: new Array(this.dimensions).fill(0),
+      dimensions: this.dimensions,
+      model
+    };
+  }
+
+  /**
+   * Process regular (non-contextualized) embeddings
+   */
+  private async processBatch(
+    texts: string[],
+    inputType: 'document' | 'query'
+  ): Promise<EmbeddingResult[]> {
+    return postWithRetries('Embedding', async () => {
+      // Regular embedding endpoint (not used for voyage-context-3)
+      const response = await axios.post(
+        'https://api.voyageai.com/v1/embeddings', // Regular endpoint
+        {
+          input: texts,
+          model: this.model,
+          input_type: inputType,
+          output_dimension: this.dimensions
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${this.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          timeout: config.embedding.timeout,
+        }
+      );
+
+      if (response.data?.data) {
+        return toResults(response.data.data.map((item: any) => item.embedding), this.model);
+      }
+
+      throw new Error('Invalid response structure from regular API');
+    });
+  }
+}
+
+/**
+ * Any server speaking the OpenAI /v1/embeddings protocol (Ollama, LM Studio, vLLM, OpenAI)
+ */
+export class OpenAICompatibleProvider implements EmbeddingProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  readonly dimensions: number;
+  readonly maxTokens: number;
+  private readonly baseUrl: string;
+  private warnedDimensions = false;
+
+  constructor(
+    private readonly apiKey: string | undefined,
+    settings: EmbeddingSettings = resolveEmbeddingSettings()
+  ) {
+    this.model = settings.model;
+    this.dimensions = settings.dimensions;
+    this.maxTokens = settings.maxTokens;
+    this.baseUrl = (settings.baseUrl || config.embedding.openai.baseUrl).replace(/\/$/, '');
+  }
+
+  async embedDocuments(texts: string[]): Promise<EmbeddingResult[]> {
+    if (texts.length === 0) return [];
+
+    const allResults: EmbeddingResult[] = [];
+    for (let i = 0; i < texts.length; i += config.embedding.maxBatchSize) {
+      const batch = texts.slice(i, i + config.embedding.maxBatchSize);
+      allResults.push(...await this.processBatch(batch));
+    }
+    return allResults;
+  }
+
+  async embedQuery(text: string): Promise<EmbeddingResult> {
+    const results = await this.processBatch([text]);
+    return results[0];
+  }
+
+  private async processBatch(texts: string[]): Promise<EmbeddingResult[]> {
+    return postWithRetries('Embedding', async () => {
+      const response = await axios.post(
+        `${this.baseUrl}/embeddings`,
+        {
+          input: texts,
+          model: this.model,
+          // Only ask for a size when the user pinned one - most local servers reject the field
+          ...(process.env.EMBEDOCS_EMBEDDING_DIMENSIONS && { dimensions: this.dimensions })
+        },
+        {
+          headers: {
+            ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+            'Content-Type': 'application/json',
+          },
+          timeout: config.embedding.timeout,
+        }
+      );
+
+      if (!Array.isArray(response.data?.data)) {
+        throw new Error('Invalid response structure from OpenAI-compatible API');
+      }
+
+      const embeddings = byIndex(response.data.data).map((item: any) => item.embedding as number[]);
+
+      if (!this.warnedDimensions && embeddings[0]?.length !== this.dimensions) {
+        this.warnedDimensions = true;
+        console.warn(`⚠️ ${this.model} returned ${embeddings[0]?.length} dimensions, expected ${this.dimensions}. Set EMBEDOCS_EMBEDDING_DIMENSIONS to match.`);
+      }
+
+      return toResults(embeddings, this.model);
+    });
+  }
+}
+
+/**
+ * Deterministic feature-hashing embeddings - no network, same input = same vector
+ * Texts sharing words get similar vectors, which is enough for pipeline tests
+ */
+export class HashingProvider implements EmbeddingProvider {
+  readonly name = 'hashing' as const;
+  readonly model: string;
+  readonly maxTokens = config.embedding.hashing.maxTokens;
+
+  constructor(readonly dimensions: number = config.embedding.hashing.dimensions) {
+    this.model = `hashing-${dimensions}`;
+  }
+
+  async embedDocuments(texts: string[]): Promise<EmbeddingResult[]> {
+    return texts.map(text => this.embed(text));
+  }
+
+  async embedQuery(text: string): Promise<EmbeddingResult> {
+    return this.embed(text);
+  }
+
+  private embed(text: string): EmbeddingResult {
+    const vector = new Array(this.dimensions).fill(0);
+
+    for (const token of tokenize(text)) {
+      const digest = createHash('md5').update(token).digest();
+      const bucket = digest.readUInt32LE(0) % this.dimensions;
+      vector[bucket] += (digest[4] & 1) === 0 ? 1 : -1;
+    }
+
+    return toResults([vector], this.model)[0];
+  }
+}
+
+/**
+ * Split a document's chunks into consecutive parts that each fit the token budget
+ * A single chunk over the budget gets a part of its own
+ */
+export function splitByTokenBudget(texts: string[], budget: number): string[][] {
+  const parts: string[][] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  for (const text of texts) {
+    const tokens = estimateTokens(text);
+    if (current.length > 0 && currentTokens + tokens > budget) {
+      parts.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(text);
+    currentTokens += tokens;
+  }
+
+  if (current.length > 0) parts.push(current);
+  return parts;
+}
+
+/**
+ * Cut a flat result list back into the shape of the groups it was made from
+ */
+export function regroup<T>(groups: string[][], flat: T[]): T[][] {
+  let offset = 0;
+  return groups.map(group => {
+    const slice = flat.slice(offset, offset + group.length);
+    offset += group.length;
+    return slice;
+  });
+}
+
+// API items carry an index - don't trust the array order when it's present
+function byIndex(items: any[]): any[] {
+  return [...items].sort((a, b) => (a?.index ?? 0) - (b?.index ?? 0));
+}
+
+function sumTokens(texts: string[]): number {
+  return texts.reduce((sum, text) => sum + estimateTokens(text), 0);
+}
+
+function toResults(embeddings: number[][], model: string): EmbeddingResult[] {
+  return embeddings.map(embedding => ({
+    embedding,
+    normalized: normalize(embedding),
+    dimensions: embedding.length,
+    model
+  }));
+}
+
+/**
+ * Retry an embedding request - exponential backoff for network errors, linear for API errors
+ */
+async function postWithRetries<T>(label: string, request: () => Promise<T>): Promise<T> {
+  for (let retries = 1; ; retries++) {
+    try {
+      return await request();
+    } catch (error: any) {
+
+      // NETWORK ERROR DETECTION - handles ENOTFOUND api.voyageai.com
+      const isNetworkError = error.code === 'ENOTFOUND' ||
+                            error.code === 'ECONNRESET' ||
+                            error.code === 'ETIMEDOUT' ||
+                            error.message?.includes('ENOTFOUND') ||
+                            error.message?.includes('ECONNRESET');
+
+      // Log detailed error for debugging
+      if (error.response?.data) {
+        console.error('API Error Response:', JSON.stringify(error.response.data, null, 2));
+      } else if (isNetworkError) {
+        console.warn(`🌐 Network error: ${error.code || error.message}`);
+      }
+
+      if (retries >= config.embedding.retries) {
+        throw new Error(`${label} failed after ${config.embedding.retries} retries: ${error.message}`);
+      }
+
+      if (isNetworkError) {
+        const wait = Math.min(1000 * Math.pow(2, retries), 30000); // Max 30s
+        console.warn(`🌐 Network retry ${retries}/${config.embedding.retries} in ${wait}ms...`);
+        await delay(wait);
+      } else {
+        await delay(1000 * retries);
+      }
+    }
+  }
+}
+
+function normalize(embedding: number[]): number[] {
+  const magnitude = Math.sqrt(
+    embedding.reduce((sum, val) => sum + val * val, 0)
+  );
+  return magnitude > 0 ? embedding.map(v => v / magnitude) : embedding;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Quick token estimation for safety checks
+ */
+function estimateTokens(text: string): number {
+  // Conservative estimate: 1 token per 3.5 characters
+  return Math.ceil(text.length / 3.5);
+}
@@ -1,320 +1,94 @@
 /**
  * SINGLE Embedding Service - The ONLY place that generates embeddings
- * No more duplicate implementations!
+ * Delegates to the configured EmbeddingProvider (Voyage, OpenAI-compatible, hashing)
  */
 
-import axios from 'axios';
 import { config } from '../config/index.js';
+import {
+  EmbeddingProvider,
+  EmbeddingResult,
+  createEmbeddingProvider,
+  isContextModel,
+  regroup
+} from './embedding-providers.js';
 
-export interface EmbeddingResult {
-  embedding: number[];
-  normalized: number[];
-  dimensions: number;
-  model: string;
-}
+export type { EmbeddingResult } from './embedding-providers.js';
 
 export class EmbeddingService {
   private static instance: EmbeddingService;
-  private readonly apiKey: string;
-  
+  private readonly provider: EmbeddingProvider;
+
   private constructor() {
-    this.apiKey = process.env.VOYAGE_API_KEY!;
-    if (!this.apiKey) {
-      throw new Error('VOYAGE_API_KEY is required');
-    }
+    this.provider = createEmbeddingProvider();
   }
-  
+
   static getInstance(): EmbeddingService {
     if (!this.instance) {
       this.instance = new EmbeddingService();
     }
     return this.instance;
   }
-  
-  /**
-   * Generate embeddings for documents - FOLLOWS voyage-ai/voyageai-python implementation
-   * @see https://github.com/voyage-ai/voyageai-python/blob/main/tests/test_client.py
-   */
-  async embedDocuments(texts: string[]): Promise<EmbeddingResult[]> {
-    if (texts.length === 0) return [];
-    
-    // voyage-context-3 requires smaller batches due to 32,000 token limit
-    // Documentation: voyage-ai/langchain-voyageai/libs/voyageai/langchain_voyageai/embeddings.py
-    if (config.embedding.model.includes('context')) {
-      // For context models, use VERY small batches to stay under token limit
-      const maxContextBatchSize = 1; // Process one chunk at a time for safety
-      const batches = this.createBatches(texts, maxContextBatchSize);
-      const allResults: EmbeddingResult[] = [];
-      
-      for (const batch of batches) {
-        const results = await this.processContextBatch(batch, 'document');
-        allResults.push(...results);
-        
-        // Rate limiting from config
-        await this.delay(config.embedding.rateLimit);
-      }
-      
-      return allResults;
-    } else {
-      // For non-context models, batch normally
-      const batches = this.createBatches(texts, config.embedding.maxBatchSize);
-      const allResults: EmbeddingResult[] = [];
-      
-      for (const batch of batches) {
-        const results = await this.processBatch(batch, 'document');
-        allResults.push(...results);
-        
-        // Rate limiting from config
-        await this.delay(config.embedding.rateLimit);
-      }
-      
-      return allResults;
-    }
+
+  get model(): string {
+    return this.provider.model;
   }
-  
+
+  get dimensions(): number {
+    return this.provider.dimensions;
+  }
+
+  get maxTokens(): number {
+    return this.provider.maxTokens;
+  }
+
   /**
-   * Generate embeddings for queries - FOLLOWS voyage-ai/voyageai-python implementation
-   * @see https://github.com/voyage-ai/langchain-voyageai/blob/main/libs/voyageai/langchain_voyageai/embeddings.py#L142
+   * True when a chunk's embedding depends on the other chunks of its file
    */
-  async embedQuery(text: string): Promise<EmbeddingResult> {
-    if (config.embedding.model.includes('context')) {
-      // Context models need double-wrapped array
-      const results = await this.processContextBatch([text], 'query');
-      return results[0];
-    } else {
-      const results = await this.processBatch([text], 'query');
-      return results[0];
-    }
+  get contextual(): boolean {
+    return this.provider.name === 'voyage' && isContextModel(this.provider.model);
   }
-  
+
   /**
-   * Process contextualized embeddings - Based on voyage-ai/langchain-voyageai
-   * @see https://github.com/voyage-ai/langchain-voyageai/blob/main/libs/voyageai/langchain_voyageai/embeddings.py#L111
+   * Generate embeddings for documents
    */
-  private async processContextBatch(
-    texts: string[],
-    inputType: 'document' | 'query'
-  ): Promise<EmbeddingResult[]> {
-    let retries = 0;
-
-    // FINAL SAFETY NET: Validate all texts before API call
-    const validTexts = texts.filter(text => {
-      const tokenCount = this.estimateTokens(text);
-      if (tokenCount > 30000) {
-        console.error(`❌ CRITICAL: Text still exceeds token limit (${tokenCount} tokens), emergency truncating`);
-        return false;
-      }
-      return true;
-    });
-
-    if (validTexts.length !== texts.length) {
-      console.warn(`⚠️ Filtered ${texts.length - validTexts.length} oversized texts to prevent API errors`);
-    }
-
-    // CRITICAL: Handle case where all texts are filtered out
-    if (validTexts.length === 0) {
-      console.warn(`⚠️ All texts filtered out due to size limits, returning empty embeddings`);
-      return texts.map(() => ({
-        embedding: new Array(config.embedding.dimensions).fill(0),
-        normalized: new Array(config.embedding.dimensions).fill(0),
-        dimensions: config.embedding.dimensions,
-        model: 'filtered-oversized'
-      }));
-    }
-
-    while (retries < config.embedding.retries) {
-      try {
-        // CRITICAL: voyage-context-3 requires double-wrapped array
-        // Documentation confirms: inputs should be [[texts]] for contextualized
-        const response = await axios.post(
-          config.embedding.apiUrl,
-          {
-            inputs: [validTexts], // Use validated texts
-            input_type: inputType,
-            model: config.embedding.model,
-            output_dimension: config.embedding.dimensions
-          },
-          {
-            headers: {
-              'Authorization': `Bearer ${this.apiKey}`,
-              'Content-Type': 'application/json',
-            },
-            timeout: config.embedding.timeout,
-          }
-        );
-        
-        // Parse contextualized response - Based on actual API structure
-        // From test files: response.data.data[0].data[0].embedding
-        if (response.data?.data?.[0]?.data) {
-          const embeddings = response.data.data[0].data.map((item: any) => item.embedding);
-          
-          return embeddings.map((embedding: number[]) => ({
-            embedding,
-            normalized: this.normalize(embedding),
-            dimensions: embedding.length,
-            model: config.embedding.model
-          }));
-        } else if (response.data?.embeddings) {
-          // Fallback structure
-          const embeddings = response.data.embeddings;
-          
-          return embeddings.map((embedding: number[]) => ({
-            embedding,
-            normalized: this.normalize(embedding),
-            dimensions: embedding.length,
-            model: config.embedding.model
-          }));
-        }
-        
-        console.error('Unexpected response structure:', JSON.stringify(response.data, null, 2));
-        throw new Error('Invalid response structure from contextualized API');
-        
-      } catch (error: any) {
-        retries++;
-
-        // NETWORK ERROR DETECTION - handles ENOTFOUND api.voyageai.com
-        const isNetworkError = error.code === 'ENOTFOUND' ||
-                              error.code === 'ECONNRESET' ||
-                              error.code === 'ETIMEDOUT' ||
-                              error.message?.includes('ENOTFOUND') ||
-                              error.message?.includes('ECONNRESET');
-
-        // Log detailed error for debugging
-        if (error.response?.data) {
-          console.error('API Error Response:', JSON.stringify(error.response.data, null, 2));
-        } else if (isNetworkError) {
-          console.warn(`🌐 Network error: ${error.code || error.message}`);
-        }
-
-        if (retries >= config.embedding.retries) {
-          throw new Error(`Context embedding failed after ${config.embedding.retries} retries: ${error.message}`);
-        }
-
-        // Exponential backoff for network errors, linear for API errors
-        if (isNetworkError) {
-          const delay = Math.min(1000 * Math.pow(2, retries), 30000); // Max 30s
-          console.warn(`🌐 Network retry ${retries}/${config.embedding.retries} in ${delay}ms...`);
-          await this.delay(delay);
-        } else {
-          await this.delay(1000 * retries);
-        }
-      }
-    }
-    
-    return [];
+  async embedDocuments(texts: string[]): Promise<EmbeddingResult[]> {
+    if (texts.length === 0) return [];
+    return this.provider.embedDocuments(texts);
   }
-  
+
   /**
-   * Process regular (non-contextualized) embeddings
+   * Generate embeddings for chunks grouped by source file
+   * Context models (voyage-context-3) see every chunk of the file; results keep the input shape
    */
-  private async processBatch(
-    texts: string[], 
-    inputType: 'document' | 'query'
-  ): Promise<EmbeddingResult[]> {
-    let retries = 0;
-    
-    while (retries < config.embedding.retries) {
-      try {
-        // Regular embedding endpoint (not used for voyage-context-3)
-        const response = await axios.post(
-          'https://api.voyageai.com/v1/embeddings', // Regular endpoint
-          {
-            input: texts,
-            model: config.embedding.model,
-            input_type: inputType,
-            output_dimension: config.embedding.dimensions
-          },
-          {
-            headers: {
-              'Authorization': `Bearer ${this.apiKey}`,
-              'Content-Type': 'application/json',
-            },
-            timeout: config.embedding.timeout,
-          }
-        );
-        
-        // Parse regular response
-        if (response.data?.data) {
-          const embeddings = response.data.data.map((item: any) => item.embedding);
-          
-          return embeddings.map((embedding: number[]) => ({
-            embedding,
-            normalized: this.normalize(embedding),
-            dimensions: embedding.length,
-            model: config.embedding.model
-          }));
-        }
-        
-        throw new Error('Invalid response structure from regular API');
-        
-      } catch (error: any) {
-        retries++;
+  async embedDocumentGroups(groups: string[][]): Promise<EmbeddingResult[][]> {
+    const nonEmpty = groups.filter(group => group.length > 0);
+    if (nonEmpty.length === 0) return groups.map(() => []);
 
-        // NETWORK ERROR DETECTION - handles ENOTFOUND api.voyageai.com
-        const isNetworkError = error.code === 'ENOTFOUND' ||
-                              error.code === 'ECONNRESET' ||
-                              error.code === 'ETIMEDOUT' ||
-                              error.message?.includes('ENOTFOUND') ||
-                              error.message?.includes('ECONNRESET');
+    const embedded = this.provider.embedDocumentGroups
+      ? await this.provider.embedDocumentGroups(nonEmpty)
+      : regroup(nonEmpty, await this.provider.embedDocuments(nonEmpty.flat()));
 
-        if (isNetworkError) {
-          console.warn(`🌐 Network error: ${error.code || error.message}`);
-        }
-
-        if (retries >= config.embedding.retries) {
-          throw new Error(`Embedding failed after ${config.embedding.retries} retries: ${error.message}`);
-        }
-
-        // Exponential backoff for network errors, linear for API errors
-        if (isNetworkError) {
-          const delay = Math.min(1000 * Math.pow(2, retries), 30000); // Max 30s
-          console.warn(`🌐 Network retry ${retries}/${config.embedding.retries} in ${delay}ms...`);
-          await this.delay(delay);
-        } else {
-          await this.delay(1000 * retries);
-        }
-      }
-    }
-    
-    return [];
-  }
-  
-  
-  private normalize(embedding: number[]): number[] {
-    const magnitude = Math.sqrt(
-      embedding.reduce((sum, val) => sum + val * val, 0)
-    );
-    return magnitude > 0 ? embedding.map(v => v / magnitude) : embedding;
-  }
-  
-  private createBatches<T>(items: T[], batchSize: number): T[][] {
-    const batches: T[][] = [];
-    for (let i = 0; i < items.length; i += batchSize) {
-      batches.push(items.slice(i, i + batchSize));
-    }
-    return batches;
-  }
-  
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    const results = embedded[Symbol.iterator]();
+    return groups.map(group => group.length > 0 ? results.next().value! : []);
   }
 
   /**
-   * Quick token estimation for safety checks
+   * Generate embeddings for queries
    */
-  private estimateTokens(text: string): number {
-    // Conservative estimate: 1 token per 3.5 characters
-    return Math.ceil(text.length / 3.5);
+  async embedQuery(text: string): Promise<EmbeddingResult> {
+    return this.provider.embedQuery(text);
   }
-  
+
   /**
    * Get current configuration (for debugging)
    */
   getConfig() {
     return {
-      model: config.embedding.model,
-      dimensions: config.embedding.dimensions,
+      provider: this.provider.name,
+      model: this.provider.model,
+      dimensions: this.provider.dimensions,
+      maxTokens: this.provider.maxTokens,
       maxBatchSize: config.embedding.maxBatchSize
     };
   }
-}
\ No newline at end of file
+}
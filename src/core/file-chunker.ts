@@ -0,0 +1,223 @@
+/**
+ * File Chunker - Picks the chunker for every indexed file
+ *
+ * - structural (default): Markdown, reStructuredText and AsciiDoc by sections, source code by declarations,
+ *   Jupyter notebooks by cells, API schemas (OpenAPI, GraphQL, protobuf) by operation and type,
+ *   PDF and DOCX by the headings of their extracted text,
+ *   everything else recursively by blank lines, lines and sentences - no API calls, the same file always gives the same chunks
+ * - semantic (opt-in): embedding-based breakpoints - one embedding per sentence, so it costs API calls
+ *
+ * The mode is chosen globally (EMBEDOCS_CHUNKING) and per file type (EMBEDOCS_CHUNKING_FILE_TYPES).
+ * Without a file type entry only plain prose follows the global mode - code, config and markup stay structural.
+ */
+
+import * as path from 'path';
+import { config } from '../config/index.js';
+import { AdvancedSemanticChunker, ChunkingMetrics } from './semantic-chunker.js';
+import { MarkdownChunker } from './markdown-chunker.js';
+import { RstChunker } from './rst-chunker.js';
+import { AsciiDocChunker } from './asciidoc-chunker.js';
+import { CodeChunker, codeLanguageFor } from './code-chunker.js';
+import { NotebookChunker } from './notebook-chunker.js';
+import { ApiSchemaChunker, apiSchemaFormatFor } from './api-schema-chunker.js';
+import { isDocumentFile, linePages, PAGE_BREAK } from './document-extractor.js';
+import { RecursiveChunker } from './recursive-chunker.js';
+import { SourceText } from './source-positions.js';
+import { countTokens } from './tokens.js';
+import type { Chunk } from '../types/index.js';
+
+export type ChunkingMode = 'structural' | 'semantic';
+
+export interface ChunkingSettings {
+  mode: ChunkingMode;
+  fileTypes: Record<string, ChunkingMode>; // Extension (with dot) -> mode
+}
+
+export interface ChunkedFile {
+  frontMatter: Record<string, unknown>;
+  chunks: Chunk[];
+  mode: ChunkingMode;
+}
+
+type SemanticStrategy = Parameters<AdvancedSemanticChunker['chunkContent']>[1];
+
+// Prose without structure the other chunkers understand - the only files the global mode switches
+const PROSE_EXTENSIONS = new Set(['.txt', '.wiki', '.org']);
+const MARKDOWN_EXTENSIONS = new Set(['.md', '.markdown', '.mdx']);
+const ASCIIDOC_EXTENSIONS = new Set(['.adoc', '.asciidoc']);
+
+// Semantic strategy per file type - gradient works well for structured docs, hybrid for unknown formats
+const SEMANTIC_STRATEGIES: Record<string, SemanticStrategy> = {
+  '.rst': 'gradient',
+  '.txt': 'auto',
+  '.md': 'auto',
+  '.markdown': 'auto',
+  '.mdx': 'auto'
+};
+
+export class FileChunker {
+  private readonly markdownChunker = new MarkdownChunker();
+  private readonly rstChunker = new RstChunker();
+  private readonly asciiDocChunker = new AsciiDocChunker();
+  private readonly codeChunker = new CodeChunker();
+  private readonly notebookChunker = new NotebookChunker();
+  private readonly apiSchemaChunker = new ApiSchemaChunker();
+  private readonly recursiveChunker = new RecursiveChunker();
+  private semanticChunker?: AdvancedSemanticChunker; // Created on first use - it needs the embedding service
+
+  constructor(private readonly settings: ChunkingSettings = getChunkingSettings()) {}
+
+  /**
+   * Which mode a file is chunked with
+   */
+  modeFor(filePath: string): ChunkingMode {
+    const ext = path.extname(filePath).toLowerCase();
+    return this.settings.fileTypes[ext] ?? (PROSE_EXTENSIONS.has(ext) ? this.settings.mode : 'structural');
+  }
+
+  async chunk(filePath: string, content: string): Promise<ChunkedFile> {
+    const ext = path.extname(filePath).toLowerCase();
+    const mode = this.modeFor(filePath);
+
+    if (ext === '.ipynb') {
+      // Jupyter notebooks - always by cells, the raw JSON is never worth embedding
+      return { frontMatter: {}, chunks: this.notebookChunker.chunk(content), mode: 'structural' };
+    }
+
+    if (isDocumentFile(filePath)) {
+      // PDF and DOCX - `content` is their extracted Markdown, chunks record pages instead of lines
+      const { frontMatter, chunks } = this.markdownChunker.chunk(content);
+      return { frontMatter, chunks: withPages(content, chunks), mode: 'structural' };
+    }
+
+    if (mode === 'semantic') {
+      this.semanticChunker ??= new AdvancedSemanticChunker();
+      const texts = await this.semanticChunker.chunkContent(content, SEMANTIC_STRATEGIES[ext] ?? 'hybrid');
+      return { frontMatter: {}, chunks: toChunks(content, texts), mode };
+    }
+
+    const schemaFormat = apiSchemaFormatFor(filePath, content);
+    if (schemaFormat) {
+      // OpenAPI, GraphQL and protobuf - one chunk per operation, type, message or rpc
+      return { frontMatter: {}, chunks: this.apiSchemaChunker.chunk(content, schemaFormat), mode };
+    }
+
+    if (MARKDOWN_EXTENSIONS.has(ext)) {
+      // Markdown - split on headings, keep code fences and tables whole, breadcrumb in metadata
+      return { ...this.markdownChunker.chunk(content, ext === '.mdx'), mode };
+    }
+
+    if (ext === '.rst') {
+      // reStructuredText - section underlines, code-block and admonition directives
+      return { frontMatter: {}, chunks: this.rstChunker.chunk(content), mode };
+    }
+
+    if (ASCIIDOC_EXTENSIONS.has(ext)) {
+      // AsciiDoc - `==` sections, delimited listing/table blocks and admonitions
+      return { frontMatter: {}, chunks: this.asciiDocChunker.chunk(content), mode };
+    }
+
+    const language = codeLanguageFor(filePath);
+    if (language) {
+      // Source code - one chunk per declaration, class members carry the class signature
+      return { frontMatter: {}, chunks: this.codeChunker.chunk(content, language), mode };
+    }
+
+    // Everything else - blank lines, lines, sentences, words
+    return { frontMatter: {}, chunks: this.recursiveChunker.chunk(content), mode };
+  }
+
+  /**
+   * Semantic chunker metrics - all zero while no file used semantic chunking
+   */
+  getSemanticMetrics(): ChunkingMetrics {
+    return this.semanticChunker?.getMetrics() ?? {
+      totalChunks: 0,
+      averageChunkSize: 0,
+      semanticBoundaries: 0,
+      fallbackUsage: 0,
+      totalRequests: 0
+    };
+  }
+}
+
+/**
+ * Chunks of extracted document text - line and byte positions don't exist in the binary file,
+ * PDF page breaks give the pages each chunk spans instead
+ */
+function withPages(content: string, chunks: Chunk[]): Chunk[] {
+  const pages = linePages(content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n'));
+  const paged = pages[pages.length - 1] > 1;
+
+  return chunks.map(chunk => {
+    const { startLine, endLine, startByte, endByte, ...metadata } = chunk.metadata;
+    return {
+      content: chunk.content.split(PAGE_BREAK).join(''),
+      metadata: {
+        ...metadata,
+        ...(paged && startLine !== undefined && { pageStart: pages[startLine - 1], pageEnd: pages[(endLine ?? startLine) - 1] })
+      }
+    };
+  });
+}
+
+/**
+ * Resolve the chunking settings - EMBEDOCS_CHUNKING and EMBEDOCS_CHUNKING_FILE_TYPES win over config
+ * @example EMBEDOCS_CHUNKING_FILE_TYPES=".rst=semantic,txt=semantic"
+ */
+export function getChunkingSettings(): ChunkingSettings {
+  const mode = parseMode(process.env.EMBEDOCS_CHUNKING || config.chunking.mode);
+  const fileTypes: Record<string, ChunkingMode> = {};
+
+  for (const [ext, value] of Object.entries(config.chunking.fileTypes)) {
+    fileTypes[normalizeExtension(ext)] = parseMode(value);
+  }
+  for (const entry of (process.env.EMBEDOCS_CHUNKING_FILE_TYPES || '').split(',')) {
+    if (!entry.trim()) continue;
+    const [ext, value] = entry.split('=').map(part => part.trim());
+    if (!ext || !value) {
+      throw new Error(`Invalid EMBEDOCS_CHUNKING_FILE_TYPES entry "${entry.trim()}". Use ".ext=structural" or ".ext=semantic".`);
+    }
+    fileTypes[normalizeExtension(ext)] = parseMode(value);
+  }
+
+  return { mode, fileTypes };
+}
+
+function parseMode(mode: string): ChunkingMode {
+  if (mode === 'structural' || mode === 'semantic') {
+    return mode;
+  }
+
+  throw new Error(`Unknown chunking mode "${mode}". Use "structural" or "semantic".`);
+}
+
+function normalizeExtension(ext: string): string {
+  const lower = ext.toLowerCase();
+  return lower.startsWith('.') ? lower : `.${lower}`;
+}
+
+/**
+ * Wrap semantic chunker output
+ * The semantic chunker works on whitespace-normalized text, so each chunk is located in the
+ * original and replaced by that exact slice; chunks that can't be placed keep their text, without positions
+ */
+function toChunks(original: string, texts: string[]): Chunk[] {
+  const source = new SourceText(original);
+  let cursor = 0;
+
+  return texts.map((text, chunkIndex) => {
+    const found = source.locate(text, cursor);
+    if (found) cursor = found.start + 1; // Chunks may overlap
+    const content = found ? original.slice(found.start, found.end) : text;
+    return {
+      content,
+      metadata: {
+        ...(found && source.span(found.start, found.end)),
+        hasCode: content.includes('```'),
+        tokenCount: countTokens(content),
+        chunkIndex
+      }
+    };
+  });
+}
@@ -0,0 +1,378 @@
+/**
+ * File Policy - The ONE place that decides which repository files get indexed
+ * Shared by the full scan and the smart-update diff path so both modes
+ * always produce the same index
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import ignoreModule, { Ignore } from 'ignore';
+import { config } from '../config/index.js';
+import { isDocumentFile } from './document-extractor.js';
+
+// CommonJS package - under NodeNext its factory is reached through .default
+const ignore = ignoreModule.default;
+
+const SUPPORTED_EXTENSIONS = new Set([
+  // === DOCUMENTATION FILES ===
+  '.md', '.markdown', '.mdx', '.rst', '.txt', '.adoc', '.asciidoc', '.wiki', '.org',
+  '.pdf', '.docx',                                // Text extracted before chunking
+  
+  // === FRONTEND/WEB ===
+  '.js', '.ts', '.jsx', '.tsx', '.mjs', '.cjs',  // JavaScript/TypeScript
+  '.vue', '.svelte', '.astro',                    // Framework files
+  '.html', '.htm', '.xhtml',                      // HTML
+  '.css', '.scss', '.sass', '.less', '.stylus',   // Styles
+  
+  // === BACKEND LANGUAGES ===
+  '.py', '.pyw', '.pyi',                          // Python
+  '.java', '.kt', '.scala',                       // JVM languages
+  '.rb', '.rbw',                                  // Ruby
+  '.php', '.phtml',                               // PHP
+  '.go',                                          // Go
+  '.rs',                                          // Rust
+  '.cs', '.fs', '.vb',                           // .NET languages
+  '.cpp', '.cc', '.cxx', '.c++', '.c', '.h', '.hpp', '.hxx', // C/C++
+  '.swift',                                       // Swift
+  '.m', '.mm',                                    // Objective-C
+  '.r', '.R',                                     // R
+  '.jl',                                          // Julia
+  '.mat',                                         // MATLAB
+  '.lua',                                         // Lua
+  '.perl', '.pl', '.pm',                         // Perl
+  '.dart',                                        // Dart/Flutter
+  '.elm',                                         // Elm
+  '.clj', '.cljs', '.cljc',                      // Clojure
+  '.ex', '.exs',                                 // Elixir
+  '.erl', '.hrl',                                // Erlang
+  '.hs', '.lhs',                                 // Haskell
+  '.ml', '.mli',                                 // OCaml
+  '.nim',                                         // Nim
+  '.crystal', '.cr',                              // Crystal
+  '.zig',                                         // Zig
+  '.v',                                           // V
+  '.d',                                           // D
+  '.pas', '.pp',                                  // Pascal
+  '.f90', '.f95', '.f03', '.f08', '.for', '.f',  // Fortran
+  '.cob', '.cbl',                                // COBOL
+  '.ada', '.adb', '.ads',                        // Ada
+  
+  // === CONFIGURATION FILES ===
+  '.json', '.json5', '.jsonc',                   // JSON variants
+  '.yaml', '.yml',                               // YAML
+  '.toml',                                       // TOML
+  '.ini', '.cfg', '.conf', '.config',           // Config files
+  '.xml', '.plist',                              // XML formats
+  '.properties',                                 // Properties
+  '.env', '.dotenv',                            // Environment
+  '.editorconfig', '.gitignore', '.gitattributes', // Git config
+  
+  // === BUILD & PACKAGE FILES ===
+  '.gradle', '.maven', '.sbt',                   // Build tools
+  'package.json', 'requirements.txt', 'Pipfile', // Package managers
+  'Cargo.toml', 'Cargo.lock',                    // Rust
+  'pom.xml', 'build.gradle', 'build.sbt',       // JVM builds
+  'composer.json', 'package-lock.json', 'yarn.lock', // Dependencies
+  'Gemfile', 'Gemfile.lock',                     // Ruby
+  'pubspec.yaml',                                // Dart/Flutter
+  'mix.exs',                                     // Elixir
+  'stack.yaml', 'cabal.project',                 // Haskell
+  
+  // === DEVOPS & INFRASTRUCTURE ===
+  '.tf', '.tfvars',                              // Terraform
+  '.bicep',                                      // Azure Bicep
+  '.pulumi',                                     // Pulumi
+  '.ansible.yml', '.playbook.yml',              // Ansible
+  '.nomad',                                      // HashiCorp Nomad
+  '.consul',                                     // Consul
+  '.vault',                                      // Vault
+  'docker-compose.yml', 'docker-compose.yaml',  // Docker Compose
+  'Dockerfile', 'Containerfile',                 // Container files
+  '.k8s.yml', '.k8s.yaml', '.kube.yml',        // Kubernetes
+  '.helm.yml', '.helm.yaml',                     // Helm
+  '.github', '.gitlab-ci.yml', '.travis.yml',   // CI/CD
+  'Jenkinsfile', '.jenkins',                     // Jenkins
+  'azure-pipelines.yml', 'bitbucket-pipelines.yml', // Other CI
+  
+  // === DATABASE & DATA ===
+  '.sql', '.psql', '.mysql', '.sqlite',          // SQL variants
+  '.graphql', '.gql', '.graphqls',               // GraphQL
+  '.cypher',                                     // Neo4j Cypher
+  '.mongo', '.js',                               // MongoDB scripts
+  '.cql',                                        // Cassandra
+  '.hql',                                        // Hive
+  '.pig',                                        // Apache Pig
+  '.spark',                                      // Spark
+  
+  // === SCRIPTS & AUTOMATION ===
+  '.sh', '.bash', '.zsh', '.fish',               // Unix shells
+  '.bat', '.cmd', '.ps1',                        // Windows
+  '.applescript', '.scpt',                       // macOS
+  'Makefile', 'makefile', '.make',               // Make
+  'Rakefile', '.rake',                           // Rake
+  '.ant', '.nant',                               // Ant/NAnt
+  
+  // === DATA SCIENCE & ML ===
+  '.ipynb',                                      // Jupyter Notebooks
+  '.rmd',                                        // R Markdown
+  '.qmd',                                        // Quarto Markdown
+  '.nb',                                         // Mathematica
+  '.wl', '.m',                                   // Wolfram Language
+  
+  // === MOBILE DEVELOPMENT ===
+  '.xcodeproj', '.xcworkspace',                  // Xcode
+  '.pbxproj',                                    // Xcode project
+  '.storyboard', '.xib',                         // iOS Interface
+  '.pch',                                        // Precompiled headers
+  '.modulemap',                                  // Module maps
+  
+  // === GAME DEVELOPMENT ===
+  '.cs',                                         // Unity C#
+  '.gd', '.gdscript',                           // Godot
+  '.hlsl', '.glsl', '.frag', '.vert',           // Shaders
+  '.fx', '.fxh',                                // DirectX shaders
+  '.cg', '.cginclude',                          // Cg shaders
+  '.unity', '.prefab', '.mat', '.asset',        // Unity assets
+  '.unreal', '.uasset', '.umap',                // Unreal Engine
+  
+  '.env.example', '.env.template',               // Environment templates
+  
+  // === SERIALIZATION & APIs ===
+  '.proto',                                      // Protocol Buffers
+  '.thrift',                                     // Apache Thrift
+  '.avro',                                       // Apache Avro
+  '.capnp',                                      // Cap'n Proto
+  '.flatbuf',                                    // FlatBuffers
+  '.openapi.yml', '.swagger.yml',               // API specs
+  '.raml',                                       // RAML API
+  '.wsdl',                                       // Web Services
+  
+  // === CONFIGURATION FORMATS ===
+  '.hocon',                                      // HOCON (Typesafe Config)
+  '.conf',                                       // Generic config
+  '.props',                                      // Properties
+  '.settings',                                   // Settings files
+  '.prefs',                                     // Preferences
+  
+  // === MISC IMPORTANT FILES ===
+  '.gitmodules', '.gitkeep',                    // Git
+  '.npmrc', '.yarnrc',                          // NPM/Yarn
+  '.babelrc', '.eslintrc', '.prettierrc',       // JavaScript tools
+  'tsconfig.json', 'jsconfig.json',             // TypeScript/JS config
+  'tailwind.config.js', 'webpack.config.js',   // Frontend configs
+  'vite.config.js', 'rollup.config.js',        // Build tools
+  '.pre-commit-config.yaml',                     // Pre-commit hooks
+  'pyproject.toml', 'setup.py', 'setup.cfg',   // Python packaging
+  'tox.ini', 'pytest.ini',                     // Python testing
+  '.coverage', '.coveragerc',                    // Coverage
+  'sonar-project.properties',                   // SonarQube
+]);
+
+// Special files without extensions (exact filename matches)
+const SPECIAL_FILES = new Set([
+  // Documentation files
+  'README', 'CHANGELOG', 'CONTRIBUTING', 'LICENSE', 'AUTHORS',
+  'INSTALL', 'NEWS', 'HISTORY', 'COPYING', 'NOTICE', 'CREDITS',
+  'ACKNOWLEDGMENTS', 'PATENTS', 'THIRD_PARTY', 'MAINTAINERS',
+  // Build files
+  'Dockerfile', 'Containerfile', 'Vagrantfile', 'Brewfile', 'Podfile',
+  'Makefile', 'makefile', 'GNUmakefile', 'Rakefile', 'Cakefile',
+  'Jakefile', 'Snakefile', 'Justfile',
+  // CI/CD files
+  'Jenkinsfile', 'Buildfile', 'Procfile', 'Capfile',
+  // Mobile development
+  'Fastfile', 'Appfile', 'Deliverfile', 'Matchfile', 'Scanfile',
+  // Package management
+  'Berksfile', 'Thorfile', 'Guarfile', 'Gemfile', 'Pipfile',
+  // Version control
+  'CODEOWNERS', 'FUNDING', 'SECURITY',
+  // Project files
+  'ROADMAP', 'ARCHITECTURE', 'DESIGN', 'PHILOSOPHY', 'VISION',
+  'GOVERNANCE', 'CODE_OF_CONDUCT', 'SUPPORT', 'TROUBLESHOOTING'
+]);
+
+// Never worth embedding - lockfiles are huge and noisy, env files hold secrets
+// gitignore syntax, applied before per-repository excludes
+const DEFAULT_EXCLUDES = [
+  'package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml',
+  'Cargo.lock', 'Gemfile.lock', 'composer.lock', 'poetry.lock', 'Pipfile.lock',
+  'go.sum', '*.lock',
+  '.env', '.env.*', '!.env.example', '!.env.template'
+];
+
+// Read from every directory, like git does
+const IGNORE_FILES = ['.gitignore', '.embedocsignore'];
+
+export interface FilePolicyOptions {
+  include?: string[]; // gitignore-style globs - when set, replaces the built-in file type list
+  exclude?: string[]; // gitignore-style globs, on top of the defaults and ignore files
+  subpath?: string; // Only index below this directory, e.g. 'docs'
+  maxDepth?: number;
+  maxFileSize?: number;
+  maxDocumentSize?: number; // PDF and DOCX
+  skipDirs?: readonly string[];
+}
+
+export class FilePolicy {
+  private readonly maxDepth: number;
+  private readonly maxFileSize: number;
+  private readonly maxDocumentSize: number;
+  private readonly skipDirs: Set<string>;
+  private readonly subpath: string;
+  private readonly excludes: Ignore;
+  private readonly includes: Ignore | null;
+  private readonly ignoreRules = new Map<string, Promise<Ignore | null>>();
+
+  constructor(options: FilePolicyOptions = {}) {
+    this.maxDepth = options.maxDepth ?? config.indexing.maxDepth;
+    this.maxFileSize = options.maxFileSize ?? config.indexing.maxFileSize;
+    this.maxDocumentSize = options.maxDocumentSize ?? config.indexing.maxDocumentSize;
+    this.skipDirs = new Set(options.skipDirs ?? config.indexing.skipDirs);
+    this.subpath = (options.subpath || '').replace(/\\/g, '/').replace(/^(\.?\/)+|\/+$/g, '');
+    this.excludes = ignore().add(DEFAULT_EXCLUDES).add(options.exclude || []);
+    this.includes = options.include?.length ? ignore().add(options.include) : null;
+  }
+
+  /**
+   * Policy for a repository entry in .repos/metadata.json
+   */
+  static forRepository(repo: { include?: string[]; exclude?: string[]; subpath?: string }): FilePolicy {
+    return new FilePolicy({ include: repo.include, exclude: repo.exclude, subpath: repo.subpath });
+  }
+
+  /**
+   * Path-only checks: subpath, depth, skipped directories, include/exclude globs and file type
+   * Ignore files need disk access - see isEligible
+   * @param relativePath - Repository-relative path with forward slashes
+   */
+  isEligiblePath(relativePath: string): boolean {
+    const segments = relativePath.split('/').filter(Boolean);
+    const filename = segments.pop();
+    if (!filename) return false;
+
+    if (this.subpath && !relativePath.startsWith(`${this.subpath}/`)) return false;
+    if (segments.length > this.maxDepth) return false;
+    if (segments.some(dir => this.skipDirs.has(dir))) return false;
+    if (this.excludes.ignores(relativePath)) return false;
+
+    return this.includes
+      ? this.includes.ignores(relativePath)
+      : this.isSupportedFile(filename);
+  }
+
+  /**
+   * Full check for a single file - used for changed files from `git diff`
+   */
+  async isEligible(repoPath: string, relativePath: string): Promise<boolean> {
+    if (!this.isEligiblePath(relativePath)) return false;
+    if (await this.isIgnored(repoPath, relativePath)) return false;
+
+    try {
+      const stats = await fs.stat(path.join(repoPath, relativePath));
+      return stats.isFile() && stats.size < this.sizeLimit(relativePath);
+    } catch {
+      return false; // Gone since the diff was taken
+    }
+  }
+
+  /**
+   * Walk a repository (or its subpath) and return every eligible file (absolute paths)
+   */
+  async scan(repoPath: string): Promise<string[]> {
+    const files: string[] = [];
+
+    const walk = async (relativeDir: string, depth: number) => {
+      if (depth > this.maxDepth) return;
+
+      try {
+        const entries = await fs.readdir(path.join(repoPath, relativeDir), { withFileTypes: true });
+
+        for (const entry of entries) {
+          const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+          // Skip common non-doc directories, excluded and ignored ones
+          if (entry.isDirectory()) {
+            if (
+              !this.skipDirs.has(entry.name) &&
+              !this.excludes.ignores(`${relativePath}/`) &&
+              !await this.isIgnored(repoPath, relativePath, true)
+            ) {
+              await walk(relativePath, depth + 1);
+            }
+          } else if (
+            entry.isFile() &&
+            this.isEligiblePath(relativePath) &&
+            !await this.isIgnored(repoPath, relativePath)
+          ) {
+            // Also check file size - skip huge files
+            const fullPath = path.join(repoPath, relativePath);
+            const stats = await fs.stat(fullPath);
+            if (stats.size < this.sizeLimit(relativePath)) {
+              files.push(fullPath);
+            }
+          }
+        }
+      } catch (error) {
+        // Ignore permission errors
+      }
+    };
+
+    await walk(this.subpath, this.subpath ? this.subpath.split('/').length : 0);
+    return files;
+  }
+
+  /**
+   * Binary documents are mostly fonts and images - they get their own, larger limit
+   */
+  private sizeLimit(relativePath: string): number {
+    return isDocumentFile(relativePath) ? this.maxDocumentSize : this.maxFileSize;
+  }
+
+  /**
+   * Supported by extension or special filename
+   * The extension list also names whole files (package.json, .env.example)
+   */
+  private isSupportedFile(filename: string): boolean {
+    const ext = path.extname(filename).toLowerCase();
+    return SUPPORTED_EXTENSIONS.has(ext) || SUPPORTED_EXTENSIONS.has(filename) || SPECIAL_FILES.has(filename);
+  }
+
+  /**
+   * Apply .gitignore/.embedocsignore from every directory above the path, each relative to its own directory
+   */
+  private async isIgnored(repoPath: string, relativePath: string, isDirectory = false): Promise<boolean> {
+    const segments = relativePath.split('/');
+
+    for (let depth = 0; depth < segments.length; depth++) {
+      const rules = await this.rulesFor(repoPath, segments.slice(0, depth).join('/'));
+      const rest = segments.slice(depth).join('/') + (isDirectory ? '/' : '');
+      if (rules?.ignores(rest)) return true;
+    }
+    return false;
+  }
+
+  private rulesFor(repoPath: string, relativeDir: string): Promise<Ignore | null> {
+    const dir = path.join(repoPath, relativeDir);
+
+    let rules = this.ignoreRules.get(dir);
+    if (!rules) {
+      rules = loadIgnoreFiles(dir);
+      this.ignoreRules.set(dir, rules);
+    }
+    return rules;
+  }
+}
+
+async function loadIgnoreFiles(dir: string): Promise<Ignore | null> {
+  const contents: string[] = [];
+
+  for (const name of IGNORE_FILES) {
+    try {
+      contents.push(await fs.readFile(path.join(dir, name), 'utf-8'));
+    } catch {
+      // Most directories have neither
+    }
+  }
+
+  return contents.length > 0 ? ignore().add(contents.join('\n')) : null;
+}
@@ -0,0 +1,48 @@
+/**
+ * Git Diff Parsing - What happened to each file between two indexed commits
+ * Reads `git diff --name-status -M -z <old> <new>` so smart updates can tell
+ * added, modified, deleted and renamed files apart
+ */
+
+export type FileChangeStatus = 'A' | 'M' | 'D' | 'R';
+
+export interface FileChange {
+  status: FileChangeStatus;
+  path: string;
+  oldPath?: string; // Renames only - the path whose chunks must be purged
+}
+
+/**
+ * Parse NUL-separated name-status output (-z keeps unusual file names unquoted)
+ * Copies count as additions, type changes and unmerged entries as modifications
+ */
+export function parseNameStatus(output: string): FileChange[] {
+  const fields = output.split('\0').filter(field => field.length > 0);
+  const changes: FileChange[] = [];
+
+  for (let i = 0; i < fields.length;) {
+    const code = fields[i++].trim();
+
+    switch (code[0]) {
+      case 'R':
+        changes.push({ status: 'R', oldPath: fields[i], path: fields[i + 1] });
+        i += 2;
+        break;
+      case 'C':
+        changes.push({ status: 'A', path: fields[i + 1] });
+        i += 2;
+        break;
+      case 'A':
+        changes.push({ status: 'A', path: fields[i++] });
+        break;
+      case 'D':
+        changes.push({ status: 'D', path: fields[i++] });
+        break;
+      default:
+        changes.push({ status: 'M', path: fields[i++] });
+        break;
+    }
+  }
+
+  return changes;
+}
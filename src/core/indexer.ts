@@ -3,14 +3,18 @@
  * Uses EmbeddingService and StorageService, no duplicate logic!
  */
 
-import { simpleGit } from 'simple-git';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { createHash } from 'crypto';
-import { config } from '../config/index.js';
-import { EmbeddingService } from './embeddings.js';
-import { StorageService, Document } from './storage.js';
-import { AdvancedSemanticChunker } from './semantic-chunker.js';
+import { EmbeddingService, EmbeddingResult } from './embeddings.js';
+import { EmbeddingCache, hashContent } from './embedding-cache.js';
+import { getVectorStore, VectorStore, Document } from './vector-store.js';
+import { FileChunker } from './file-chunker.js';
+import { extractDocument, isDocumentFile } from './document-extractor.js';
+import { directoriesOf } from './search-filters.js';
+import { FileChange } from './git-diff.js';
+import { createSource, Source } from './sources.js';
+import { SecretScanner, SecretReport } from './secret-scanner.js';
 
 export interface IndexingProgress {
   current: number;
@@ -21,15 +25,19 @@ export interface IndexingProgress {
 
 export class Indexer {
   private embeddingService: EmbeddingService;
-  private storageService: StorageService;
-  private advancedChunker: AdvancedSemanticChunker;
+  private embeddingCache: EmbeddingCache;
+  private storageService: VectorStore;
+  private fileChunker: FileChunker;
+  private secretScanner: SecretScanner;
   private progressCallback?: (progress: IndexingProgress) => void;
   private dynamicConfig?: any; // Optional dynamic configuration from web UI
   
   constructor(dynamicConfig?: any) {
     this.embeddingService = EmbeddingService.getInstance();
-    this.storageService = StorageService.getInstance();
-    this.advancedChunker = new AdvancedSemanticChunker();
+    this.embeddingCache = EmbeddingCache.getInstance();
+    this.storageService = getVectorStore();
+    this.fileChunker = new FileChunker();
+    this.secretScanner = SecretScanner.getInstance();
     this.dynamicConfig = dynamicConfig;
     
     // Log configuration source
@@ -85,8 +93,10 @@ export class Indexer {
     console.log('     "version": "1.0.0",');
     console.log('     "repositories": [{');
     console.log('       "name": "My Repo",');
-    console.log('       "repo": "owner/repo",');
+    console.log('       "repo": "owner/repo",  // or any git URL, a local path, an llms.txt URL, or a website URL with "type": "web"');
     console.log('       "branch": "main",');
+    console.log('       "subpath": "docs",  // optional - only index below this folder');
+    console.log('       "exclude": ["**/generated/**"],  // optional - gitignore-style globs');
     console.log('       "product": "custom-owner-repo",');
     console.log('       "version": "latest"');
     console.log('     }]');
@@ -107,15 +117,12 @@ export class Indexer {
     let anyRepoWasNew = false;
     
     for (const repo of await this.getRepositories()) {
+      const source = createSource(repo);
+      
       try {
-        const repoPath = path.join('.repos', repo.repo.replace('/', '_'));
-        
-        // Check if repo exists locally
-        await fs.access(repoPath);
-        
-        // Get current and stored commit hashes
-        const git = simpleGit(repoPath);
-        const currentHash = await git.revparse(['HEAD']);
+        // Bring the source up to date, then compare revisions
+        await this.syncSource(repo, source);
+        const currentHash = await source.revision();
         const storedHash = await this.storageService.getRepositoryHash(repo.name);
         
         if (currentHash === storedHash) {
@@ -123,34 +130,38 @@ export class Indexer {
           continue;
         }
         
-        if (storedHash) {
+        const changes = storedHash ? await source.changesSince(storedHash) : null;
+        let failedFiles: number;
+        
+        if (storedHash && changes) {
           // Smart update: only changed files
           console.log(`🔄 ${repo.name} has changes (${storedHash.substring(0, 8)} → ${currentHash.substring(0, 8)}), updating...`);
-          await this.smartUpdateRepository(repo, storedHash, currentHash);
+          failedFiles = await this.smartUpdateRepository(repo, source, changes);
         } else {
-          // No stored hash = first time indexing
-          console.log(`🆕 ${repo.name} first time indexing...`);
+          // No stored hash = first time indexing, unknown old revision = start over
+          console.log(storedHash
+            ? `🆕 ${repo.name} previous revision unavailable, doing full index...`
+            : `🆕 ${repo.name} first time indexing...`);
           anyRepoWasNew = true;
-          await this.indexRepository(repo);
-          // Store hash after successful indexing
-          await this.storageService.storeRepositoryHash(repo.name, currentHash);
+          failedFiles = (await this.indexRepository(repo, source, currentHash)).failedFiles;
         }
         
-      } catch (error) {
-        // Repo missing/corrupted = full index needed
-        console.log(`🆕 ${repo.name} not found locally, doing full index...`);
-        anyRepoWasNew = true;
-        await this.indexRepository(repo);
+        // Files that failed to embed are retried from the old revision next time
+        if (failedFiles > 0) {
+          warnFailedFiles(repo.name, failedFiles);
+          continue;
+        }
         
         // Store hash after successful indexing
-        try {
-          const repoPath = path.join('.repos', repo.repo.replace('/', '_'));
-          const git = simpleGit(repoPath);
-          const currentHash = await git.revparse(['HEAD']);
-          await this.storageService.storeRepositoryHash(repo.name, currentHash);
-        } catch (hashError) {
-          console.warn(`Could not store hash for ${repo.name}:`, hashError);
-        }
+        await this.storageService.storeRepositoryHash(repo.name, currentHash);
+        await source.markIndexed();
+        
+      } catch (error) {
+        // Smart update failed = full index needed
+        console.log(`🆕 ${repo.name} could not be updated incrementally, doing full index...`);
+        console.warn(error instanceof Error ? error.message : error);
+        anyRepoWasNew = true;
+        await this.fullIndex(repo, source);
       }
     }
     
@@ -167,52 +178,91 @@ export class Indexer {
     console.log('🔥 FORCE REBUILD: Re-indexing everything from scratch...');
     
     for (const repo of await this.getRepositories()) {
-      await this.indexRepository(repo);
-      
-      // Store hash after successful indexing
-      try {
-        const repoPath = path.join('.repos', repo.repo.replace('/', '_'));
-        const git = simpleGit(repoPath);
-        const currentHash = await git.revparse(['HEAD']);
-        await this.storageService.storeRepositoryHash(repo.name, currentHash);
-      } catch (hashError) {
-        console.warn(`Could not store hash for ${repo.name}:`, hashError);
-      }
+      await this.fullIndex(repo, createSource(repo));
     }
     
     console.log('✅ Force rebuild complete!');
   }
   
   /**
-   * Smart update repository - only re-index changed files between commits
+   * Sync, index every file and remember the revision
+   * Chunks of files that are gone - and chunks from before chunks carried a path - are purged
    */
-  private async smartUpdateRepository(repo: any, oldHash: string, newHash: string): Promise<void> {
-    const repoPath = path.join('.repos', repo.repo.replace('/', '_'));
-    const git = simpleGit(repoPath);
+  private async fullIndex(repo: any, source: Source): Promise<void> {
+    await this.syncSource(repo, source);
+    const currentHash = await source.revision();
     
-    // Pull latest changes first
-    console.log(`📥 Pulling updates for ${repo.name}...`);
-    await git.pull('origin', repo.branch);
+    const { paths, failedFiles } = await this.indexRepository(repo, source, currentHash);
+    
+    // Nothing is purged until every file has new chunks - failed files keep their old ones
+    if (failedFiles > 0) {
+      warnFailedFiles(repo.name, failedFiles);
+      return;
+    }
     
-    // Get list of changed files between commits
-    const diff = await git.diff([oldHash, newHash, '--name-only']);
-    const changedFiles = diff.split('\n').filter(f => f);
+    const stale = await this.storageService.deleteStaleChunks(repo.repo, paths);
+    if (stale > 0) {
+      console.log(`🗑️  Removed ${stale} stale chunks from ${repo.name}`);
+    }
     
-    console.log(`📝 Found ${changedFiles.length} changed files in ${repo.name}`);
+    // Store hash after successful indexing
+    await this.storageService.storeRepositoryHash(repo.name, currentHash);
+    await source.markIndexed();
+  }
+  
+  /**
+   * Clone, fetch or check the source's working directory
+   */
+  private async syncSource(repo: any, source: Source): Promise<void> {
+    this.updateProgress({
+      phase: 'cloning',
+      currentRepo: repo.name,
+      current: 0,
+      total: 0
+    });
     
-    // Re-index only changed documentation files
-    const docsExtensions = ['.md', '.markdown', '.mdx', '.rst', '.txt'];
-    const changedDocs = changedFiles.filter(file => 
-      docsExtensions.some(ext => file.endsWith(ext))
+    if (source.type !== 'local') {
+      console.log(`📥 Fetching ${repo.name}${repo.branch ? ` (${repo.branch})` : ''}...`);
+    }
+    await source.sync();
+  }
+  
+  /**
+   * Smart update repository - only re-index files changed since the last indexed revision
+   * @returns Number of changed files that could not be embedded
+   */
+  private async smartUpdateRepository(repo: any, source: Source, changes: FileChange[]): Promise<number> {
+    console.log(`📝 Found ${changes.length} changed files in ${repo.name}`);
+    
+    // Purge chunks of deleted files and the old side of renames
+    const removedPaths = changes.flatMap(change =>
+      change.status === 'D' ? [change.path] : change.status === 'R' ? [change.oldPath!] : []
     );
+    if (removedPaths.length > 0) {
+      const removed = await this.storageService.deleteFileChunks(repo.repo, removedPaths);
+      console.log(`🗑️  Removed ${removed} chunks from ${removedPaths.length} deleted or renamed files`);
+    }
     
-    if (changedDocs.length > 0) {
-      console.log(`🔄 Re-indexing ${changedDocs.length} documentation files...`);
-      await this.indexRepository(repo, changedDocs);
+    // Re-index changed files the full scan would pick up - their old chunks are replaced
+    const changedFiles: string[] = [];
+    const ineligiblePaths: string[] = [];
+    for (const change of changes.filter(change => change.status !== 'D')) {
+      if (await source.filePolicy.isEligible(source.workdir, change.path)) {
+        changedFiles.push(change.path);
+      } else {
+        ineligiblePaths.push(change.path);
+      }
     }
     
-    // Store updated hash after successful processing
-    await this.storageService.storeRepositoryHash(repo.name, newHash);
+    // A file that stopped qualifying (now excluded or ignored, grew too large) loses its chunks
+    if (ineligiblePaths.length > 0) {
+      await this.storageService.deleteFileChunks(repo.repo, ineligiblePaths);
+    }
+    
+    if (changedFiles.length === 0) return 0;
+
+    console.log(`🔄 Re-indexing ${changedFiles.length} changed files...`);
+    return (await this.indexRepository(repo, source, await source.revision(), changedFiles)).failedFiles;
   }
   
   /**
@@ -236,31 +286,31 @@ export class Indexer {
   /**
    * Index a single repository
    * @param repo - Repository configuration
+   * @param source - Synced source the files are read from
+   * @param currentHash - Revision being indexed, stored at checkpoints
    * @param specificFiles - Optional: only index these specific files
+   * @returns Repository paths of the indexed files, and how many of them could not be embedded
    */
-  private async indexRepository(repo: any, specificFiles?: string[]): Promise<void> {
-    this.updateProgress({
-      phase: 'cloning',
-      currentRepo: repo.name,
-      current: 0,
-      total: 0
-    });
-
-    // Clone repository
-    const repoPath = await this.cloneRepo(repo.repo, repo.branch);
+  private async indexRepository(
+    repo: any,
+    source: Source,
+    currentHash: string,
+    specificFiles?: string[]
+  ): Promise<{ paths: string[]; failedFiles: number }> {
+    const repoPath = source.workdir;
 
     this.updateProgress({ phase: 'scanning', currentRepo: repo.name, current: 0, total: 0 });
 
     // Find all supported files or use specific files
     const files = specificFiles
       ? specificFiles.map(f => path.join(repoPath, f))
-      : await this.findSupportedFiles(repoPath);
+      : await this.findSupportedFiles(source);
+
+    // A full index starts a fresh report; smart updates revise the entries of changed files
+    const secretReport = await SecretReport.load(repo.repo, !specificFiles);
 
-    // CRITICAL: Get current hash for incremental progress tracking
-    const git = simpleGit(repoPath);
-    const currentHash = await git.revparse(['HEAD']);
-    
     let processed = 0;
+    let failedFiles = 0;
     const totalFiles = files.length;
     
     // Process files in smaller batches to avoid token limits
@@ -277,7 +327,8 @@ export class Indexer {
       });
       
       // Process batch
-      const documents = await this.processBatch(batch, repo);
+      const documents = await this.processBatch(batch, repo, repoPath, secretReport);
+      const batchPaths = batch.map(file => toRepoPath(repoPath, file));
       
       if (documents.length > 0) {
         this.updateProgress({
@@ -287,32 +338,28 @@ export class Indexer {
           total: totalFiles
         });
         
-        // Process embeddings in smaller chunks to avoid token limits
-        const embeddingBatchSize = 8; // Even smaller batches for embeddings
-        const allEmbeddings: any[] = [];
-        
-        for (let j = 0; j < documents.length; j += embeddingBatchSize) {
-          const docBatch = documents.slice(j, j + embeddingBatchSize);
-          const texts = docBatch.map(d => d.content);
-          
-          try {
-            const embeddings = await this.embeddingService.embedDocuments(texts);
-            allEmbeddings.push(...embeddings);
-          } catch (error) {
-            console.warn(`Failed to embed batch ${j}-${j + embeddingBatchSize}:`, error);
-            // Create empty embeddings for failed batch
-            for (let k = 0; k < docBatch.length; k++) {
-              allEmbeddings.push({
-                embedding: new Array(config.embedding.dimensions).fill(0),
-                normalized: new Array(config.embedding.dimensions).fill(0),  
-                dimensions: config.embedding.dimensions,
-                model: 'failed'
-              });
-            }
+        // Embed chunks grouped by file so context models see the whole document
+        // Documents are produced file by file, so each file's chunks are contiguous
+        const fileGroups: typeof documents[] = [];
+        let lastFile: string | undefined;
+        for (const doc of documents) {
+          if (fileGroups.length === 0 || doc.metadata?.file !== lastFile) {
+            fileGroups.push([]);
+            lastFile = doc.metadata?.file;
           }
+          fileGroups[fileGroups.length - 1].push(doc);
+        }
+
+        let embeddings: EmbeddingResult[];
+        try {
+          embeddings = await this.embedWithCache(fileGroups);
+        } catch (error) {
+          // Keep the batch's previous chunks searchable - the caller leaves the revision unrecorded
+          console.warn(`Failed to embed ${fileGroups.length} files in ${repo.name}:`, error);
+          failedFiles += batch.length;
+          processed += batch.length;
+          continue;
         }
-        
-        const embeddings = allEmbeddings;
         
         // Combine documents with embeddings
         const enrichedDocs = documents.map((doc, idx) => ({
@@ -330,268 +377,85 @@ export class Indexer {
           total: totalFiles
         });
         
-        // Store in MongoDB - USING THE SERVICE
-        await this.storageService.upsertDocuments(enrichedDocs);
+        // Replace each file's previous chunks - USING THE SERVICE
+        await this.storageService.replaceFileChunks(repo.repo, batchPaths, enrichedDocs);
+      } else {
+        // Files that no longer produce chunks still lose their old ones
+        await this.storageService.replaceFileChunks(repo.repo, batchPaths, []);
       }
 
       processed += batch.length;
 
       // CRITICAL: Save incremental progress every 100 files
       const CHECKPOINT_INTERVAL = 100;
-      if (processed % CHECKPOINT_INTERVAL === 0) {
+      if (processed % CHECKPOINT_INTERVAL === 0 && failedFiles === 0) {
         console.log(`💾 Repository state saved at ${processed}/${totalFiles} files (will restart from beginning if interrupted)`);
         await this.storageService.storeRepositoryHash(repo.name, currentHash);
       }
     }
 
-    console.log(`✅ Indexed ${repo.name}: ${processed} files`);
+    await secretReport.save(repoPath);
+    const suppressed = secretReport.summary();
+    if (suppressed.files > 0) {
+      console.log(`🔐 ${suppressed.secrets} secrets suppressed in ${suppressed.files} files (${suppressed.skipped} skipped) - see ${secretReport.location}`);
+    }
+
+    console.log(`✅ Indexed ${repo.name}: ${processed - failedFiles} files`);
+    return { paths: files.map(file => toRepoPath(repoPath, file)), failedFiles };
   }
   
   /**
-   * Clone or update repository
+   * Embed file groups, reusing cached vectors for chunks whose text hasn't changed
+   * Context models embed a chunk with its whole file, so their cache key covers the file
+   * too and a file is re-embedded as a unit when any of its chunks changed
    */
-  private async cloneRepo(repo: string, branch: string): Promise<string> {
-    const repoPath = path.join('.repos', repo.replace('/', '_'));
-    const git = simpleGit();
-    
-    try {
-      await fs.access(repoPath);
-      // Update existing
-      await git.cwd(repoPath);
-      await git.pull('origin', branch);
-    } catch {
-      // Clone new
-      await fs.mkdir(path.dirname(repoPath), { recursive: true });
-      await git.clone(
-        `https://github.com/${repo}.git`,
-        repoPath,
-        ['--branch', branch, '--depth', '1']
+  private async embedWithCache(fileGroups: { content: string; contentHash?: string }[][]): Promise<EmbeddingResult[]> {
+    const { model, dimensions, contextual } = this.embeddingService;
+
+    const keyGroups = fileGroups.map(group => {
+      const hashes = group.map(doc => doc.contentHash || hashContent(doc.content));
+      if (!contextual) return hashes;
+
+      const fileHash = hashContent(hashes.join('\n'));
+      return hashes.map(hash => hashContent(`${fileHash}:${hash}`));
+    });
+
+    const results: (EmbeddingResult | undefined)[][] = [];
+    const pending: number[][] = [];
+    for (const keys of keyGroups) {
+      const cached = await this.embeddingCache.lookup(model, dimensions, keys);
+      const missing = cached.flatMap((result, idx) => result ? [] : [idx]);
+
+      results.push(cached);
+      pending.push(contextual && missing.length > 0 ? keys.map((_, idx) => idx) : missing);
+    }
+
+    const embedded = await this.embeddingService.embedDocumentGroups(
+      pending.map((indexes, g) => indexes.map(idx => fileGroups[g][idx].content))
+    );
+
+    for (let g = 0; g < fileGroups.length; g++) {
+      const fresh = embedded[g];
+      pending[g].forEach((idx, i) => { results[g][idx] = fresh[i]; });
+
+      // Never cache placeholders for failed or oversized chunks
+      const cacheable = pending[g].filter((_, i) => fresh[i].model === model);
+      await this.embeddingCache.store(
+        model,
+        dimensions,
+        cacheable.map(idx => keyGroups[g][idx]),
+        cacheable.map(idx => results[g][idx]!)
       );
     }
-    
-    return repoPath;
+
+    return results.flat() as EmbeddingResult[];
   }
-  
+
   /**
    * Find all supported documentation and code files for indexing
    */
-  private async findSupportedFiles(dir: string): Promise<string[]> {
-    const files: string[] = [];
-    const extensions = [
-      // === DOCUMENTATION FILES ===
-      '.md', '.markdown', '.mdx', '.rst', '.txt', '.adoc', '.wiki', '.org',
-      
-      // === FRONTEND/WEB ===
-      '.js', '.ts', '.jsx', '.tsx', '.mjs', '.cjs',  // JavaScript/TypeScript
-      '.vue', '.svelte', '.astro',                    // Framework files
-      '.html', '.htm', '.xhtml',                      // HTML
-      '.css', '.scss', '.sass', '.less', '.stylus',   // Styles
-      
-      // === BACKEND LANGUAGES ===
-      '.py', '.pyw', '.pyi',                          // Python
-      '.java', '.kt', '.scala',                       // JVM languages
-      '.rb', '.rbw',                                  // Ruby
-      '.php', '.phtml',                               // PHP
-      '.go',                                          // Go
-      '.rs',                                          // Rust
-      '.cs', '.fs', '.vb',                           // .NET languages
-      '.cpp', '.cc', '.cxx', '.c++', '.c', '.h', '.hpp', '.hxx', // C/C++
-      '.swift',                                       // Swift
-      '.m', '.mm',                                    // Objective-C
-      '.r', '.R',                                     // R
-      '.jl',                                          // Julia
-      '.mat',                                         // MATLAB
-      '.lua',                                         // Lua
-      '.perl', '.pl', '.pm',                         // Perl
-      '.dart',                                        // Dart/Flutter
-      '.elm',                                         // Elm
-      '.clj', '.cljs', '.cljc',                      // Clojure
-      '.ex', '.exs',                                 // Elixir
-      '.erl', '.hrl',                                // Erlang
-      '.hs', '.lhs',                                 // Haskell
-      '.ml', '.mli',                                 // OCaml
-      '.nim',                                         // Nim
-      '.crystal', '.cr',                              // Crystal
-      '.zig',                                         // Zig
-      '.v',                                           // V
-      '.d',                                           // D
-      '.pas', '.pp',                                  // Pascal
-      '.f90', '.f95', '.f03', '.f08', '.for', '.f',  // Fortran
-      '.cob', '.cbl',                                // COBOL
-      '.ada', '.adb', '.ads',                        // Ada
-      
-      // === CONFIGURATION FILES ===
-      '.json', '.json5', '.jsonc',                   // JSON variants
-      '.yaml', '.yml',                               // YAML
-      '.toml',                                       // TOML
-      '.ini', '.cfg', '.conf', '.config',           // Config files
-      '.xml', '.plist',                              // XML formats
-      '.properties',                                 // Properties
-      '.env', '.dotenv',                            // Environment
-      '.editorconfig', '.gitignore', '.gitattributes', // Git config
-      
-      // === BUILD & PACKAGE FILES ===
-      '.gradle', '.maven', '.sbt',                   // Build tools
-      'package.json', 'requirements.txt', 'Pipfile', // Package managers
-      'Cargo.toml', 'Cargo.lock',                    // Rust
-      'pom.xml', 'build.gradle', 'build.sbt',       // JVM builds
-      'composer.json', 'package-lock.json', 'yarn.lock', // Dependencies
-      'Gemfile', 'Gemfile.lock',                     // Ruby
-      'pubspec.yaml',                                // Dart/Flutter
-      'mix.exs',                                     // Elixir
-      'stack.yaml', 'cabal.project',                 // Haskell
-      
-      // === DEVOPS & INFRASTRUCTURE ===
-      '.tf', '.tfvars',                              // Terraform
-      '.bicep',                                      // Azure Bicep
-      '.pulumi',                                     // Pulumi
-      '.ansible.yml', '.playbook.yml',              // Ansible
-      '.nomad',                                      // HashiCorp Nomad
-      '.consul',                                     // Consul
-      '.vault',                                      // Vault
-      'docker-compose.yml', 'docker-compose.yaml',  // Docker Compose
-      'Dockerfile', 'Containerfile',                 // Container files
-      '.k8s.yml', '.k8s.yaml', '.kube.yml',        // Kubernetes
-      '.helm.yml', '.helm.yaml',                     // Helm
-      '.github', '.gitlab-ci.yml', '.travis.yml',   // CI/CD
-      'Jenkinsfile', '.jenkins',                     // Jenkins
-      'azure-pipelines.yml', 'bitbucket-pipelines.yml', // Other CI
-      
-      // === DATABASE & DATA ===
-      '.sql', '.psql', '.mysql', '.sqlite',          // SQL variants
-      '.graphql', '.gql',                            // GraphQL
-      '.cypher',                                     // Neo4j Cypher
-      '.mongo', '.js',                               // MongoDB scripts
-      '.cql',                                        // Cassandra
-      '.hql',                                        // Hive
-      '.pig',                                        // Apache Pig
-      '.spark',                                      // Spark
-      
-      // === SCRIPTS & AUTOMATION ===
-      '.sh', '.bash', '.zsh', '.fish',               // Unix shells
-      '.bat', '.cmd', '.ps1',                        // Windows
-      '.applescript', '.scpt',                       // macOS
-      'Makefile', 'makefile', '.make',               // Make
-      'Rakefile', '.rake',                           // Rake
-      '.ant', '.nant',                               // Ant/NAnt
-      
-      // === DATA SCIENCE & ML ===
-      '.ipynb',                                      // Jupyter Notebooks
-      '.rmd',                                        // R Markdown
-      '.qmd',                                        // Quarto Markdown
-      '.nb',                                         // Mathematica
-      '.wl', '.m',                                   // Wolfram Language
-      
-      // === MOBILE DEVELOPMENT ===
-      '.xcodeproj', '.xcworkspace',                  // Xcode
-      '.pbxproj',                                    // Xcode project
-      '.storyboard', '.xib',                         // iOS Interface
-      '.pch',                                        // Precompiled headers
-      '.modulemap',                                  // Module maps
-      
-      // === GAME DEVELOPMENT ===
-      '.cs',                                         // Unity C#
-      '.gd', '.gdscript',                           // Godot
-      '.hlsl', '.glsl', '.frag', '.vert',           // Shaders
-      '.fx', '.fxh',                                // DirectX shaders
-      '.cg', '.cginclude',                          // Cg shaders
-      '.unity', '.prefab', '.mat', '.asset',        // Unity assets
-      '.unreal', '.uasset', '.umap',                // Unreal Engine
-      
-      '.env.example', '.env.template',               // Environment templates
-      
-      // === SERIALIZATION & APIs ===
-      '.proto',                                      // Protocol Buffers
-      '.thrift',                                     // Apache Thrift
-      '.avro',                                       // Apache Avro
-      '.capnp',                                      // Cap'n Proto
-      '.flatbuf',                                    // FlatBuffers
-      '.openapi.yml', '.swagger.yml',               // API specs
-      '.raml',                                       // RAML API
-      '.wsdl',                                       // Web Services
-      
-      // === CONFIGURATION FORMATS ===
-      '.hocon',                                      // HOCON (Typesafe Config)
-      '.conf',                                       // Generic config
-      '.props',                                      // Properties
-      '.settings',                                   // Settings files
-      '.prefs',                                     // Preferences
-      
-      // === MISC IMPORTANT FILES ===
-      '.gitmodules', '.gitkeep',                    // Git
-      '.npmrc', '.yarnrc',                          // NPM/Yarn
-      '.babelrc', '.eslintrc', '.prettierrc',       // JavaScript tools
-      'tsconfig.json', 'jsconfig.json',             // TypeScript/JS config
-      'tailwind.config.js', 'webpack.config.js',   // Frontend configs
-      'vite.config.js', 'rollup.config.js',        // Build tools
-      '.pre-commit-config.yaml',                     // Pre-commit hooks
-      'pyproject.toml', 'setup.py', 'setup.cfg',   // Python packaging
-      'tox.ini', 'pytest.ini',                     // Python testing
-      '.coverage', '.coveragerc',                    // Coverage
-      'sonar-project.properties',                   // SonarQube
-    ];
-
-    // Special files without extensions (exact filename matches)
-    const specialFiles = [
-      // Documentation files
-      'README', 'CHANGELOG', 'CONTRIBUTING', 'LICENSE', 'AUTHORS',
-      'INSTALL', 'NEWS', 'HISTORY', 'COPYING', 'NOTICE', 'CREDITS',
-      'ACKNOWLEDGMENTS', 'PATENTS', 'THIRD_PARTY', 'MAINTAINERS',
-      // Build files
-      'Dockerfile', 'Containerfile', 'Vagrantfile', 'Brewfile', 'Podfile',
-      'Makefile', 'makefile', 'GNUmakefile', 'Rakefile', 'Cakefile',
-      'Jakefile', 'Snakefile', 'Justfile',
-      // CI/CD files
-      'Jenkinsfile', 'Buildfile', 'Procfile', 'Capfile',
-      // Mobile development
-      'Fastfile', 'Appfile', 'Deliverfile', 'Matchfile', 'Scanfile',
-      // Package management
-      'Berksfile', 'Thorfile', 'Guarfile', 'Gemfile', 'Pipfile',
-      // Version control
-      'CODEOWNERS', 'FUNDING', 'SECURITY',
-      // Project files
-      'ROADMAP', 'ARCHITECTURE', 'DESIGN', 'PHILOSOPHY', 'VISION',
-      'GOVERNANCE', 'CODE_OF_CONDUCT', 'SUPPORT', 'TROUBLESHOOTING'
-    ];
-
-    const maxDepth = 10; // Search deeper
-    
-    async function walk(currentDir: string, depth: number = 0) {
-      if (depth > maxDepth) return;
-      
-      try {
-        const entries = await fs.readdir(currentDir, { withFileTypes: true });
-        
-        for (const entry of entries) {
-          const fullPath = path.join(currentDir, entry.name);
-          
-          // Skip common non-doc directories
-          if (entry.isDirectory()) {
-            const skipDirs = ['node_modules', '.git', 'build', 'dist', 'target', '.next', '.cache', 'coverage'];
-            if (!skipDirs.includes(entry.name)) {
-              await walk(fullPath, depth + 1);
-            }
-          } else if (entry.isFile()) {
-            // Check for supported files (by extension or special filename)
-            const ext = path.extname(entry.name).toLowerCase();
-            const filename = entry.name;
-            const isSupported = extensions.includes(ext) || specialFiles.includes(filename);
-            
-            if (isSupported) {
-              // Also check file size - skip huge files
-              const stats = await fs.stat(fullPath);
-              if (stats.size < 10_000_000) { // 10MB max (increased for code files)
-                files.push(fullPath);
-              }
-            }
-          }
-        }
-      } catch (error) {
-        // Ignore permission errors
-      }
-    }
-    
-    await walk(dir);
+  private async findSupportedFiles(source: Source): Promise<string[]> {
+    const files = await source.filePolicy.scan(source.workdir);
     console.log(`📄 Found ${files.length} files (code, docs, config, and special files)`);
     return files;
   }
@@ -599,33 +463,33 @@ export class Indexer {
   /**
    * Process a batch of files into documents
    */
-  private async processBatch(files: string[], repo: any): Promise<Omit<Document, 'embedding' | 'embeddingModel' | 'embeddingDimensions' | 'indexedAt'>[]> {
+  private async processBatch(files: string[], repo: any, repoPath: string, secretReport: SecretReport): Promise<Omit<Document, 'embedding' | 'embeddingModel' | 'embeddingDimensions' | 'indexedAt'>[]> {
     const documents: any[] = [];
     
     for (const file of files) {
       try {
-        const content = await fs.readFile(file, 'utf-8');
+        // PDF and DOCX are chunked as their extracted Markdown
+        const raw = isDocumentFile(file)
+          ? await extractDocument(file, await fs.readFile(file))
+          : await fs.readFile(file, 'utf-8');
+        const repoRelativePath = toRepoPath(repoPath, file);
+
+        // Secrets never reach the chunker, the embedding API or the store
+        const scan = this.secretScanner.apply(raw);
+        secretReport.record(repoRelativePath, scan);
+        if (scan.skip) {
+          console.warn(`🔐 Skipping ${repoRelativePath}: ${scan.findings.length} possible secrets`);
+          continue;
+        }
+        const content = scan.content;
         
         // Skip empty or very small files
         if (content.length < 50) continue;
         
         const ext = path.extname(file).toLowerCase();
-        let chunks: string[] = [];
-        
-        // Advanced semantic chunking based on file type and research
-        if (ext === '.rst') {
-          // reStructuredText - gradient method works well for structured docs
-          chunks = await this.advancedChunker.chunkContent(content, 'gradient');
-        } else if (['.md', '.markdown', '.mdx'].includes(ext)) {
-          // Markdown - interquartile method optimal for technical docs (41.71 score)
-          chunks = await this.advancedChunker.chunkContent(content, 'interquartile');
-        } else if (ext === '.txt') {
-          // Plain text - auto-select based on content analysis
-          chunks = await this.advancedChunker.chunkContent(content, 'auto');
-        } else {
-          // Default - hybrid approach for unknown formats
-          chunks = await this.advancedChunker.chunkContent(content, 'hybrid');
-        }
+
+        // Structural chunking by default - semantic breakpoints only where configured
+        const { chunks, frontMatter, mode } = await this.fileChunker.chunk(file, content);
 
         // Filter chunks with voyage-context-3 token limit constraints
         // Based on Harry-231's successful approach: min_chunk_size=100, no artificial max
@@ -634,24 +498,66 @@ export class Indexer {
         // The semantic chunker already handles token limits and size constraints
 
         // Log chunking performance metrics
-        const metrics = this.advancedChunker.getMetrics();
-        console.log(`📊 Chunking metrics for ${path.basename(file)}: ${chunks.length} chunks, avg size: ${Math.round(metrics.averageChunkSize)}`)
+        const averageSize = chunks.reduce((sum, chunk) => sum + chunk.content.length, 0) / Math.max(chunks.length, 1);
+        console.log(`📊 Chunking metrics for ${path.basename(file)} (${mode}): ${chunks.length} chunks, avg size: ${Math.round(averageSize)}`)
         
-        // Create documents from chunks
-        chunks.forEach((chunk, idx) => {
-          const docId = `${repo.product}_${repo.version}_${createHash('md5').update(chunk).digest('hex').substring(0, 8)}`;
+        // Create documents from chunks - owned by (repo, path) so updates can replace them
+        chunks.forEach(({ content: chunk, metadata: chunkMetadata }, idx) => {
+          const docId = `${repo.product}_${repo.version}_${createHash('md5').update(`${repo.repo}:${repoRelativePath}:${idx}:${chunk}`).digest('hex').substring(0, 16)}`;
           
           documents.push({
             documentId: docId,
             content: chunk.trim(),
-            title: path.basename(file),
+            contentHash: hashContent(chunk.trim()),
+            title: typeof frontMatter.title === 'string' ? frontMatter.title : path.basename(file),
             product: repo.product,
             version: repo.version,
             metadata: {
               file: path.relative(process.cwd(), file),
+              path: repoRelativePath,
+              dirs: directoriesOf(repoRelativePath), // Path prefix filters - see search-filters
               chunkIndex: idx,
               repo: repo.repo,
-              fileType: ext.substring(1)
+              fileType: ext.substring(1),
+              hasCode: chunkMetadata.hasCode,
+              tokenCount: chunkMetadata.tokenCount,
+              ...(chunkMetadata.pageStart !== undefined && {
+                pageStart: chunkMetadata.pageStart,
+                pageEnd: chunkMetadata.pageEnd
+              }),
+              ...(chunkMetadata.startLine !== undefined && {
+                startLine: chunkMetadata.startLine,
+                endLine: chunkMetadata.endLine,
+                startByte: chunkMetadata.startByte,
+                endByte: chunkMetadata.endByte
+              }),
+              ...(chunkMetadata.sectionTitles && {
+                sectionTitle: chunkMetadata.sectionTitle,
+                sectionTitles: chunkMetadata.sectionTitles,
+                sectionLevel: chunkMetadata.sectionLevel
+              }),
+              ...(chunkMetadata.admonitions && { admonitions: chunkMetadata.admonitions }),
+              ...(chunkMetadata.apiKind && {
+                apiFormat: chunkMetadata.apiFormat,
+                apiKind: chunkMetadata.apiKind,
+                typeName: chunkMetadata.typeName,
+                operationId: chunkMetadata.operationId,
+                httpMethod: chunkMetadata.httpMethod,
+                httpPath: chunkMetadata.httpPath
+              }),
+              ...(chunkMetadata.cellIndices && {
+                cellIndices: chunkMetadata.cellIndices,
+                sectionTitle: chunkMetadata.sectionTitle,
+                language: chunkMetadata.language
+              }),
+              ...(chunkMetadata.symbolKind && {
+                symbol: chunkMetadata.symbol,
+                symbolKind: chunkMetadata.symbolKind,
+                language: chunkMetadata.language
+              }),
+              // Web and llms.txt documents record where they came from
+              ...(typeof frontMatter.url === 'string' && /^(https?|file):\/\//i.test(frontMatter.url) && { url: frontMatter.url }),
+              ...(Object.keys(frontMatter).length > 0 && { frontMatter })
             }
           });
         });
@@ -663,7 +569,7 @@ export class Indexer {
     return documents;
   }
   
-  // Old chunking method removed - now using AdvancedSemanticChunker
+  // Old chunking method removed - now using FileChunker
   
   /**
    * Update progress
@@ -682,10 +588,11 @@ export class Indexer {
     const baseStats = await this.storageService.getStats();
     
     // Add chunking performance metrics
-    const chunkingMetrics = this.advancedChunker.getMetrics();
+    const chunkingMetrics = this.fileChunker.getSemanticMetrics();
     
     return {
       ...baseStats,
+      embeddingCache: await this.embeddingCache.getStats(),
       chunking: {
         totalRequests: chunkingMetrics.totalRequests,
         averageChunkSize: Math.round(chunkingMetrics.averageChunkSize),
@@ -696,4 +603,18 @@ export class Indexer {
       }
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Files whose embedding failed keep their previous chunks, and the revision stays unrecorded
+ */
+function warnFailedFiles(repoName: string, failedFiles: number): void {
+  console.warn(`⚠️ ${failedFiles} files in ${repoName} could not be embedded - they keep their previous chunks, run the command again to retry`);
+}
+
+/**
+ * Repository-relative path with forward slashes - matches `git diff` output
+ */
+function toRepoPath(repoPath: string, file: string): string {
+  return path.relative(repoPath, file).split(path.sep).join('/');
+}
@@ -0,0 +1,274 @@
+/**
+ * llms.txt - Documentation a library publishes for language models, as Markdown files on disk
+ *
+ * An llms.txt (https://llmstxt.org) is a Markdown index: a `# Title`, an optional `> summary`
+ * and `## Section` lists of `[name](url): notes` links to the documents themselves. The index
+ * and every linked document are written to an output directory with their title, URL and
+ * section as front matter, so they go through the Markdown chunker like any other docs.
+ * An llms-full.txt - or an llms.txt without links - already contains the documentation and
+ * is written as a single document.
+ *
+ * Locations are http(s) URLs or local paths; relative links resolve against the index either way.
+ * Only links of the index's own kind are followed: http(s) from a remote index, files below the
+ * index's directory from a local one.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { parse as parseYaml } from 'yaml';
+import { config } from '../config/index.js';
+import { htmlToMarkdown, pageFile, writeMarkdownPage } from './web-crawler.js';
+
+export interface LlmsTxtLink {
+  title: string;
+  url: string; // Absolute - http(s) or file:
+  notes?: string;
+  section?: string; // The `## Section` it is listed under
+  optional: boolean; // Listed under `## Optional` - secondary material
+}
+
+export interface LlmsTxtIndex {
+  title: string;
+  summary?: string;
+  links: LlmsTxtLink[];
+}
+
+export interface LlmsTxtOptions {
+  maxPages?: number; // Linked documents beyond this are skipped
+  userAgent?: string;
+  timeoutMs?: number;
+}
+
+export interface LlmsTxtResult {
+  documents: number; // Linked documents downloaded or read
+  failed: number; // Unreachable this time - the previous copy is kept
+  removed: number; // No longer linked
+  files: string[]; // Document files in the output directory, relative
+}
+
+interface LlmsTxtState {
+  location: string;
+  files: string[];
+}
+
+const LINK_ITEM = /^\s*[-*+]\s+\[([^\]]+)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)\s*(?::\s*(.*))?$/;
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+/**
+ * URL of an llms.txt location - local paths become file: URLs
+ */
+export function llmsTxtUrl(location: string): string {
+  return /^(https?|file):\/\//i.test(location) ? location : pathToFileURL(path.resolve(location)).toString();
+}
+
+/**
+ * Title, summary and links of an llms.txt - links resolved against `baseUrl`
+ */
+export function parseLlmsTxt(text: string, baseUrl: string): LlmsTxtIndex {
+  const index: LlmsTxtIndex = { title: '', links: [] };
+  let section: string | undefined;
+  let fence: string | undefined;
+
+  for (const line of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    // Links inside code samples are not part of the index
+    const marker = line.match(/^\s*(```|~~~)/)?.[1];
+    if (marker && (!fence || marker === fence)) {
+      fence = fence ? undefined : marker;
+      continue;
+    }
+    if (fence) continue;
+
+    const heading = line.match(/^(#{1,2})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      if (heading[1] === '#' && !index.title) index.title = heading[2];
+      if (heading[1] === '##') section = heading[2];
+      continue;
+    }
+
+    const quote = line.match(/^>\s?(.*)$/);
+    if (quote && !section && index.links.length === 0) {
+      index.summary = [index.summary, quote[1].trim()].filter(Boolean).join(' ');
+      continue;
+    }
+
+    const link = line.match(LINK_ITEM);
+    if (!link) continue;
+    try {
+      const url = new URL(link[2], baseUrl);
+      url.hash = '';
+      index.links.push({
+        title: link[1].trim(),
+        url: url.toString(),
+        ...(link[3]?.trim() && { notes: link[3].trim() }),
+        ...(section && { section }),
+        optional: section?.toLowerCase() === 'optional'
+      });
+    } catch {
+      // Not a URL
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Text of an llms.txt or a linked document, with its content type
+ */
+export async function readDocument(
+  url: string,
+  options: LlmsTxtOptions = {}
+): Promise<{ text: string; contentType: string; url: string }> {
+  if (url.startsWith('file:')) {
+    return { text: await fs.readFile(fileURLToPath(url), 'utf-8'), contentType: 'text/markdown', url };
+  }
+
+  const response = await fetch(url, {
+    headers: { 'User-Agent': options.userAgent ?? config.web.userAgent },
+    redirect: 'follow',
+    signal: AbortSignal.timeout(options.timeoutMs ?? config.web.timeoutMs)
+  });
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`${url} returned ${response.status}`);
+  }
+  return { text: await response.text(), contentType: response.headers.get('content-type') || '', url: response.url || url };
+}
+
+export class LlmsTxtLoader {
+  readonly url: string;
+  private readonly maxPages: number;
+
+  /**
+   * @param location - llms.txt or llms-full.txt URL or local path
+   * @param outputDir - Where documents are written - owned by the loader, stale files are deleted
+   * @param statePath - Files written by the previous load
+   */
+  constructor(
+    location: string,
+    private readonly outputDir: string,
+    private readonly statePath: string,
+    private readonly options: LlmsTxtOptions = {}
+  ) {
+    this.url = llmsTxtUrl(location);
+    this.maxPages = options.maxPages ?? config.web.maxPages;
+  }
+
+  async load(): Promise<LlmsTxtResult> {
+    const previous = await this.readState();
+    const indexDoc = await readDocument(this.url, this.options);
+    const index = parseLlmsTxt(indexDoc.text, indexDoc.url);
+    const full = /llms-full\.txt$/i.test(new URL(this.url).pathname) || index.links.length === 0;
+
+    const result: LlmsTxtResult = { documents: 0, failed: 0, removed: 0, files: [] };
+    const written = new Set<string>();
+
+    // The index itself - its summary and link notes are searchable too
+    const indexFile = path.posix.basename(new URL(this.url).pathname).replace(/\.txt$/i, '') + '.md';
+    await writeMarkdownPage(
+      path.join(this.outputDir, indexFile),
+      { title: index.title || indexFile, url: indexDoc.url, ...(index.summary && { description: index.summary }) },
+      stripFrontMatter(indexDoc.text).markdown.trim()
+    );
+    written.add(indexFile);
+
+    if (!full) {
+      for (const link of index.links.slice(0, this.maxPages)) {
+        let file: string | undefined;
+
+        try {
+          file = this.documentFile(link.url);
+          if (written.has(file)) continue;
+          written.add(file);
+
+          const doc = await readDocument(link.url, this.options);
+          const { frontMatter, markdown } = /html/i.test(doc.contentType)
+            ? { frontMatter: {}, markdown: htmlToMarkdown(doc.text, doc.url).markdown }
+            : stripFrontMatter(doc.text);
+
+          await writeMarkdownPage(path.join(this.outputDir, file), {
+            ...frontMatter,
+            title: typeof frontMatter.title === 'string' ? frontMatter.title : link.title,
+            url: link.url,
+            ...(link.section && { section: link.section }),
+            ...(link.notes && { description: link.notes })
+          }, markdown.trim());
+          result.documents++;
+        } catch (error) {
+          // A flaky request keeps the document from the last load rather than dropping it
+          console.warn(`⚠️ Could not read ${link.url}:`, error instanceof Error ? error.message : error);
+          result.failed++;
+          if (file && !previous.files.includes(file)) written.delete(file);
+        }
+      }
+    }
+
+    // Documents no longer linked lose their files
+    for (const file of previous.files) {
+      if (written.has(file)) continue;
+      await fs.rm(path.join(this.outputDir, file), { force: true });
+      result.removed++;
+    }
+
+    result.files = [...written].sort();
+    await this.writeState({ location: this.url, files: result.files });
+    return result;
+  }
+
+  /**
+   * Relative file for a linked document - paths below the index keep their layout,
+   * documents on other hosts go under a directory named after the host
+   * Throws for links the index may not follow - see the module comment
+   */
+  private documentFile(url: string): string {
+    const target = new URL(url);
+    const base = new URL(this.url);
+
+    if (base.protocol === 'file:') {
+      const directory = path.dirname(fileURLToPath(base));
+      const relative = target.protocol === 'file:' ? path.relative(directory, fileURLToPath(target)) : '';
+      if (!relative || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+        throw new Error(`A local llms.txt only links files below ${directory}`);
+      }
+      return pageFile(`file:///${relative.split(path.sep).map(encodeURIComponent).join('/')}`);
+    }
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      throw new Error(`A remote llms.txt only links http(s) documents, not ${target.protocol}`);
+    }
+    return target.host === base.host ? pageFile(url) : `${target.host.replace(/[^\w.-]+/g, '_')}/${pageFile(url)}`;
+  }
+
+  private async readState(): Promise<LlmsTxtState> {
+    try {
+      const state = JSON.parse(await fs.readFile(this.statePath, 'utf-8'));
+      return state.location === this.url ? state : { location: this.url, files: [] };
+    } catch {
+      return { location: this.url, files: [] };
+    }
+  }
+
+  private async writeState(state: LlmsTxtState): Promise<void> {
+    await fs.mkdir(path.dirname(this.statePath), { recursive: true });
+
+    const tmp = `${this.statePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(state));
+    await fs.rename(tmp, this.statePath);
+  }
+}
+
+/**
+ * Split a document's own front matter from its Markdown - merged into the front matter written for it
+ */
+function stripFrontMatter(text: string): { frontMatter: Record<string, unknown>; markdown: string } {
+  const body = text.replace(/^\uFEFF/, '');
+  const match = body.match(FRONT_MATTER);
+  if (!match) return { frontMatter: {}, markdown: body };
+
+  try {
+    const parsed = parseYaml(match[1]);
+    const frontMatter = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : {};
+    return { frontMatter, markdown: body.slice(match[0].length) };
+  } catch {
+    return { frontMatter: {}, markdown: body };
+  }
+}
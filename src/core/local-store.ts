@@ -0,0 +1,532 @@
+/**
+ * Local Vector Store - File-backed VectorStore for laptops, CI and tests
+ * Exact (flat) cosine index + BM25 keyword index, no Atlas cluster needed
+ *
+ * On-disk layout (config.storage.localPath):
+ *   documents.log           - append-only JSON lines, one write batch per line
+ *   repository-states.json  - commit hashes for smart update tracking
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Bm25Index } from './bm25.js';
+import { resolveEmbeddingSettings } from './embedding-providers.js';
+import { cosineSimilarity, selectMMRDocuments } from './mmr.js';
+import type {
+  Document,
+  RepositoryState,
+  VectorStore,
+  MMRSearchOptions,
+  IndexStatus,
+  StoreStats,
+  NativeFusion,
+  FusedSearchOptions
+} from './vector-store.js';
+
+interface LogEntry {
+  put?: StoredDocument[];
+  delete?: string[];
+  clear?: boolean;
+}
+
+// Embeddings are persisted as base64 Float32 buffers - ~5x smaller than JSON arrays
+type StoredDocument = Omit<Document, 'embedding'> & { embedding: string };
+
+export class LocalVectorStore implements VectorStore {
+  private documents = new Map<string, Document>();
+  private states = new Map<string, RepositoryState>();
+  private keywordIndex = new Bm25Index();
+  private loaded = false;
+  private loggedDocuments = 0;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly directory: string) {}
+
+  private get logPath(): string {
+    return path.join(this.directory, 'documents.log');
+  }
+
+  private get statesPath(): string {
+    return path.join(this.directory, 'repository-states.json');
+  }
+
+  async connect(): Promise<void> {
+    if (this.loaded) return;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await this.load();
+    this.loaded = true;
+
+    // Compact once the log carries more superseded rows than live ones
+    if (this.loggedDocuments > this.documents.size * 2 + 1000) {
+      await this.compact();
+    }
+
+    console.error(`📂 Local vector store ready: ${this.documents.size} documents in ${this.directory}`);
+  }
+
+  async disconnect(): Promise<void> {
+    await this.writeQueue;
+    this.documents.clear();
+    this.states.clear();
+    this.keywordIndex.clear();
+    this.loggedDocuments = 0;
+    this.loaded = false;
+  }
+
+  /**
+   * Upsert documents - one log line per call
+   */
+  async upsertDocuments(documents: Document[]): Promise<void> {
+    this.ensureLoaded();
+    if (documents.length === 0) return;
+
+    for (const doc of documents) {
+      this.putInMemory(doc);
+    }
+
+    await this.append({ put: documents.map(serializeDocument) });
+  }
+
+  /**
+   * Replace the chunks owned by files - deletes and puts land in one log line
+   */
+  async replaceFileChunks(repo: string, paths: string[], documents: Document[]): Promise<void> {
+    await this.swapFileChunks(repo, paths, documents);
+  }
+
+  async deleteFileChunks(repo: string, paths: string[]): Promise<number> {
+    return this.swapFileChunks(repo, paths, []);
+  }
+
+  async deleteStaleChunks(repo: string, paths: string[]): Promise<number> {
+    this.ensureLoaded();
+
+    const current = new Set(paths);
+    const stale = Array.from(this.documents.values())
+      .filter(doc => doc.metadata?.repo === repo && !current.has(doc.metadata?.path))
+      .map(doc => doc.documentId);
+    if (stale.length === 0) return 0;
+
+    for (const documentId of stale) {
+      this.deleteInMemory(documentId);
+    }
+
+    await this.append({ delete: stale });
+    return stale.length;
+  }
+
+  private async swapFileChunks(repo: string, paths: string[], documents: Document[]): Promise<number> {
+    this.ensureLoaded();
+
+    const owned = new Set(paths);
+    const stale: string[] = [];
+    for (const doc of this.documents.values()) {
+      if (doc.metadata?.repo === repo && owned.has(doc.metadata?.path)) {
+        stale.push(doc.documentId);
+      }
+    }
+
+    if (stale.length === 0 && documents.length === 0) return 0;
+
+    for (const documentId of stale) {
+      this.deleteInMemory(documentId);
+    }
+    for (const doc of documents) {
+      this.putInMemory(doc);
+    }
+
+    await this.append({ delete: stale, put: documents.map(serializeDocument) });
+    return stale.length;
+  }
+
+  /**
+   * Clean the store
+   */
+  async clean(): Promise<void> {
+    this.ensureLoaded();
+
+    this.documents.clear();
+    this.keywordIndex.clear();
+    this.loggedDocuments = 0;
+
+    await this.enqueue(() => fs.writeFile(this.logPath, ''));
+  }
+
+  async count(filter: any = {}): Promise<number> {
+    this.ensureLoaded();
+
+    let total = 0;
+    for (const doc of this.documents.values()) {
+      if (matchesFilter(doc, filter)) total++;
+    }
+    return total;
+  }
+
+  /**
+   * Exact vector search over every stored embedding
+   * Scores use Atlas' cosine normalization ((1 + cos) / 2) so thresholds carry over
+   */
+  async vectorSearch(
+    embedding: number[],
+    limit: number = 10,
+    filter?: any
+  ): Promise<Document[]> {
+    return this.scoreByVector(embedding, limit, filter).map(stripEmbedding);
+  }
+
+  /**
+   * MMR Vector Search - same algorithm as the Atlas backend
+   */
+  async vectorSearchMMR(
+    embedding: number[],
+    options: MMRSearchOptions = {}
+  ): Promise<Document[]> {
+    const { limit = 10, fetchK = 20, lambdaMult = 0.7, filter, minScore = 0 } = options;
+
+    const candidates = this.scoreByVector(embedding, fetchK, filter)
+      .filter(doc => (doc as any).searchScore >= minScore);
+    return selectMMRDocuments(candidates, limit, lambdaMult);
+  }
+
+  /**
+   * Keyword search using the BM25 index built alongside the vectors
+   */
+  async keywordSearch(
+    query: string,
+    limit: number = 10,
+    filter?: any
+  ): Promise<Document[]> {
+    this.ensureLoaded();
+
+    const accept = filter ? (id: string) => matchesFilter(this.documents.get(id)!, filter) : undefined;
+    return this.keywordIndex.search(query, limit, accept).map(hit => ({
+      ...stripEmbedding(this.documents.get(hit.id)!),
+      searchScore: hit.score
+    }) as Document);
+  }
+
+  /**
+   * No server to fuse on - SearchService fuses vector and keyword results itself
+   */
+  getNativeFusion(): NativeFusion[] {
+    return [];
+  }
+
+  async fusedSearch(_embedding: number[], _query: string, options: FusedSearchOptions): Promise<Document[]> {
+    throw new Error(`$${options.fusion} needs the mongodb storage backend. Use fusion mode "manual" or "auto".`);
+  }
+
+  /**
+   * Store repository commit hash for smart update tracking
+   */
+  async storeRepositoryHash(repoName: string, commitHash: string): Promise<void> {
+    this.ensureLoaded();
+
+    this.states.set(repoName, { repoName, commitHash, lastIndexed: new Date() });
+
+    const snapshot = JSON.stringify(Array.from(this.states.values()), null, 2);
+    await this.enqueue(() => writeAtomic(this.statesPath, snapshot));
+  }
+
+  /**
+   * Get stored repository commit hash
+   */
+  async getRepositoryHash(repoName: string): Promise<string | null> {
+    this.ensureLoaded();
+    return this.states.get(repoName)?.commitHash || null;
+  }
+
+  /**
+   * Local indexes are built in memory on connect, so they are always ready
+   */
+  async checkIndexesReady(): Promise<IndexStatus> {
+    return {
+      ready: this.loaded,
+      details: [
+        { name: 'local_flat_vector', status: this.loaded ? 'READY' : 'NOT_LOADED' },
+        { name: 'local_bm25', status: this.loaded ? 'READY' : 'NOT_LOADED' }
+      ]
+    };
+  }
+
+  async getStats(): Promise<StoreStats> {
+    this.ensureLoaded();
+
+    const products = new Set<string>();
+    const models = new Set<string>();
+    for (const doc of this.documents.values()) {
+      if (doc.product) products.add(doc.product);
+      if (doc.embeddingModel) models.add(doc.embeddingModel);
+    }
+
+    const settings = resolveEmbeddingSettings();
+    return {
+      backend: 'local',
+      totalDocuments: this.documents.size,
+      products: Array.from(products),
+      models: Array.from(models),
+      expectedDimensions: settings.dimensions,
+      expectedModel: settings.model
+    };
+  }
+
+  /**
+   * Fetch all chunks for a specific file, in chunk order
+   */
+  async fetchFileChunks(filename: string, product: string): Promise<Document[]> {
+    this.ensureLoaded();
+
+    const chunks = Array.from(this.documents.values())
+      .filter(doc => doc.title === filename && doc.product === product)
+      .sort((a, b) =>
+        (a.metadata?.chunkIndex ?? 0) - (b.metadata?.chunkIndex ?? 0) ||
+        a.documentId.localeCompare(b.documentId)
+      )
+      .map(stripEmbedding);
+
+    console.error(`📄 Found ${chunks.length} chunks for ${filename} in ${product}`);
+    return chunks;
+  }
+
+  async countByProduct(product: string): Promise<number> {
+    return this.count({ product });
+  }
+
+  private ensureLoaded(): void {
+    if (!this.loaded) throw new Error('Local vector store not connected');
+  }
+
+  private scoreByVector(embedding: number[], limit: number, filter?: any): Document[] {
+    this.ensureLoaded();
+
+    const scored: Array<{ doc: Document; score: number }> = [];
+    for (const doc of this.documents.values()) {
+      if (!matchesFilter(doc, filter)) continue;
+      scored.push({ doc, score: (1 + cosineSimilarity(embedding, doc.embedding)) / 2 });
+    }
+
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ doc, score }) => ({ ...doc, searchScore: score }) as Document);
+  }
+
+  private putInMemory(doc: Document): void {
+    this.documents.set(doc.documentId, doc);
+    this.keywordIndex.add(doc.documentId, `${doc.title || ''}\n${doc.content}`);
+  }
+
+  private deleteInMemory(documentId: string): void {
+    this.documents.delete(documentId);
+    this.keywordIndex.remove(documentId);
+  }
+
+  /**
+   * Replay the append-only log into memory
+   */
+  private async load(): Promise<void> {
+    const states = await readOptional(this.statesPath);
+    if (states) {
+      for (const state of JSON.parse(states) as RepositoryState[]) {
+        this.states.set(state.repoName, { ...state, lastIndexed: new Date(state.lastIndexed) });
+      }
+    }
+
+    const log = await readOptional(this.logPath);
+    if (!log) return;
+
+    for (const line of log.split('\n')) {
+      if (!line.trim()) continue;
+
+      let entry: LogEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // A torn final line from an interrupted write - everything before it is intact
+        console.warn('⚠️ Skipping unreadable line in local store log');
+        continue;
+      }
+
+      if (entry.clear) {
+        this.documents.clear();
+        this.keywordIndex.clear();
+        this.loggedDocuments = 0;
+      }
+      for (const documentId of entry.delete || []) {
+        this.deleteInMemory(documentId);
+      }
+      for (const stored of entry.put || []) {
+        this.putInMemory(deserializeDocument(stored));
+        this.loggedDocuments++;
+      }
+    }
+  }
+
+  /**
+   * Rewrite the log with only live documents
+   */
+  private async compact(): Promise<void> {
+    const lines: string[] = [];
+    const batch: StoredDocument[] = [];
+
+    for (const doc of this.documents.values()) {
+      batch.push(serializeDocument(doc));
+      if (batch.length === 500) {
+        lines.push(JSON.stringify({ put: batch }));
+        batch.length = 0;
+      }
+    }
+    if (batch.length > 0) {
+      lines.push(JSON.stringify({ put: batch }));
+    }
+
+    await this.enqueue(() => writeAtomic(this.logPath, lines.map(line => line + '\n').join('')));
+    this.loggedDocuments = this.documents.size;
+  }
+
+  private async append(entry: LogEntry): Promise<void> {
+    this.loggedDocuments += entry.put?.length || 0;
+    await this.enqueue(() => fs.appendFile(this.logPath, JSON.stringify(entry) + '\n'));
+  }
+
+  /**
+   * Serialize file writes so log lines never interleave
+   */
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const next = this.writeQueue.then(write);
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+}
+
+function serializeDocument(doc: Document): StoredDocument {
+  const buffer = Buffer.from(new Float32Array(doc.embedding || []).buffer);
+  return { ...doc, embedding: buffer.toString('base64') };
+}
+
+function deserializeDocument(stored: StoredDocument): Document {
+  const buffer = Buffer.from(stored.embedding, 'base64');
+  const floats = new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4);
+  return {
+    ...stored,
+    embedding: Array.from(floats),
+    indexedAt: new Date(stored.indexedAt)
+  };
+}
+
+function stripEmbedding(doc: Document): Document {
+  const { embedding: _, ...rest } = doc;
+  return rest as Document;
+}
+
+async function readOptional(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function writeAtomic(file: string, content: string): Promise<void> {
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, content);
+  await fs.rename(tmp, file);
+}
+
+/**
+ * Minimal MongoDB query matcher so callers can pass the same filters to either backend
+ * Supports equality, $eq/$ne/$in/$nin/$exists/$gt/$gte/$lt/$lte/$regex and $and/$or/$nor
+ */
+export function matchesFilter(doc: Record<string, any>, filter?: Record<string, any>): boolean {
+  if (!filter) return true;
+
+  return Object.entries(filter).every(([key, condition]) => {
+    switch (key) {
+      case '$and':
+        return (condition as any[]).every(sub => matchesFilter(doc, sub));
+      case '$or':
+        return (condition as any[]).some(sub => matchesFilter(doc, sub));
+      case '$nor':
+        return !(condition as any[]).some(sub => matchesFilter(doc, sub));
+      default:
+        return matchesCondition(getPath(doc, key), condition);
+    }
+  });
+}
+
+function getPath(doc: Record<string, any>, dottedPath: string): any {
+  return dottedPath.split('.').reduce((value, key) => value?.[key], doc as any);
+}
+
+function matchesCondition(value: any, condition: any): boolean {
+  const isOperatorObject = condition !== null &&
+    typeof condition === 'object' &&
+    !Array.isArray(condition) &&
+    !(condition instanceof Date) &&
+    !(condition instanceof RegExp) &&
+    Object.keys(condition).some(key => key.startsWith('$'));
+
+  if (!isOperatorObject) {
+    return valueEquals(value, condition);
+  }
+
+  return Object.entries(condition).every(([operator, operand]: [string, any]) => {
+    switch (operator) {
+      case '$eq':
+        return valueEquals(value, operand);
+      case '$ne':
+        return !valueEquals(value, operand);
+      case '$in':
+        return (operand as any[]).some(item => valueEquals(value, item));
+      case '$nin':
+        return !(operand as any[]).some(item => valueEquals(value, item));
+      case '$exists':
+        return operand ? value !== undefined : value === undefined;
+      case '$gt':
+        return compareValues(value, operand, result => result > 0);
+      case '$gte':
+        return compareValues(value, operand, result => result >= 0);
+      case '$lt':
+        return compareValues(value, operand, result => result < 0);
+      case '$lte':
+        return compareValues(value, operand, result => result <= 0);
+      case '$regex': {
+        const regex = operand instanceof RegExp ? operand : new RegExp(operand, condition.$options || '');
+        return anyValue(value, item => typeof item === 'string' && regex.test(item));
+      }
+      case '$options':
+        return true;
+      case '$not':
+        return !matchesCondition(value, operand);
+      default:
+        throw new Error(`Unsupported filter operator for local store: ${operator}`);
+    }
+  });
+}
+
+function anyValue(value: any, predicate: (item: any) => boolean): boolean {
+  return Array.isArray(value) ? value.some(predicate) : predicate(value);
+}
+
+function valueEquals(value: any, expected: any): boolean {
+  if (expected instanceof RegExp) {
+    return anyValue(value, item => typeof item === 'string' && expected.test(item));
+  }
+  if (expected === null) {
+    return value === null || value === undefined;
+  }
+  const normalize = (item: any) => (item instanceof Date ? item.getTime() : item);
+  return anyValue(value, item => normalize(item) === normalize(expected));
+}
+
+function compareValues(value: any, operand: any, test: (result: number) => boolean): boolean {
+  const normalize = (item: any) => (item instanceof Date ? item.getTime() : item);
+  return anyValue(value, item => {
+    const a = normalize(item);
+    const b = normalize(operand);
+    if (a === undefined || a === null || typeof a !== typeof b) return false;
+    return test(a < b ? -1 : a > b ? 1 : 0);
+  });
+}
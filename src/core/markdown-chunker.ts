@@ -0,0 +1,135 @@
+/**
+ * Markdown Chunker - Structure-aware chunking for Markdown and MDX
+ *
+ * - Splits on the heading hierarchy (ATX `#` and setext underlines)
+ * - Never cuts inside a fenced code block or a table unless it alone exceeds the token limit,
+ *   and then every piece is re-fenced / keeps the table header
+ * - Records the heading breadcrumb in `sectionTitles` / `sectionLevel`
+ * - Parses YAML front matter into its own object instead of embedding it
+ * - Keeps the original whitespace - no collapsing of lists, indentation or code
+ * - Records each chunk's line and byte range in the original file
+ *
+ * Sectioning and packing are shared with the other markup chunkers - see SectionChunker
+ */
+
+import { parse as parseYaml } from 'yaml';
+import { SourceText } from './source-positions.js';
+import { SectionChunker, SectionChunkerOptions, Block, blockReader, range } from './section-chunker.js';
+import type { Chunk } from '../types/index.js';
+
+export type MarkdownChunkerOptions = SectionChunkerOptions;
+
+export interface MarkdownDocument {
+  frontMatter: Record<string, unknown>;
+  chunks: Chunk[];
+}
+
+const FRONT_MATTER = /^---[ \t]*\n([\s\S]*?)\n(?:---|\.\.\.)[ \t]*(?:\n|$)/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const TABLE_DIVIDER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const MDX_ESM = /^(import|export)\s/;
+
+export class MarkdownChunker extends SectionChunker {
+  /**
+   * Chunk a Markdown (or MDX) file
+   * @param mdx - Drop top-level `import`/`export` statements
+   */
+  chunk(content: string, mdx = false): MarkdownDocument {
+    const normalized = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+    const { frontMatter, body } = parseFrontMatter(normalized);
+    const source = new SourceText(content);
+    const firstLine = normalized.slice(0, normalized.length - body.length).split('\n').length - 1;
+    const chunks = this.chunkBlocks(this.toBlocks(body, mdx, source, firstLine), source);
+
+    return { frontMatter, chunks };
+  }
+
+  /**
+   * Line scanner - headings, fenced code, tables and blank-line separated text
+   */
+  private toBlocks(body: string, mdx: boolean, source: SourceText, firstLine: number): Block[] {
+    const lines = body.split('\n');
+    const blockOf = blockReader(lines, source, firstLine);
+    const blocks: Block[] = [];
+    let text: number[] = []; // Line indices - MDX imports in between are left out
+
+    const flush = () => {
+      if (text.some(idx => lines[idx].trim())) {
+        blocks.push(blockOf('text', text));
+      }
+      text = [];
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      const fence = line.match(FENCE);
+      if (fence) {
+        flush();
+        const marker = fence[1];
+        const open = i;
+        while (++i < lines.length) {
+          const close = lines[i].match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/);
+          if (close && close[1][0] === marker[0] && close[1].length >= marker.length) break;
+        }
+        const close = Math.min(i, lines.length - 1); // An unclosed fence runs to the end, like CommonMark
+        blocks.push(blockOf('code', range(open, close), { frame: [1, i < lines.length ? 1 : 0] }));
+        continue;
+      }
+
+      const heading = line.match(ATX_HEADING);
+      if (heading) {
+        flush();
+        blocks.push(blockOf('heading', [i], { level: heading[1].length, title: (heading[2] || '').trim() }));
+        continue;
+      }
+
+      // A single text line underlined with === or --- is a heading
+      const underline = line.match(SETEXT_UNDERLINE);
+      const title = text.length === 1 ? lines[text[0]] : '';
+      if (underline && title.trim() && !/^\s*([-*+]|\d+[.)])\s/.test(title)) {
+        blocks.push(blockOf('heading', [text[0], i], { level: underline[1][0] === '=' ? 1 : 2, title: title.trim() }));
+        text = [];
+        continue;
+      }
+
+      if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+        flush();
+        const header = i++;
+        while (i + 1 < lines.length && lines[i + 1].includes('|') && lines[i + 1].trim()) i++;
+        blocks.push(blockOf('table', range(header, i), { frame: [2, 0] }));
+        continue;
+      }
+
+      if (!line.trim()) {
+        flush();
+      } else if (!(mdx && MDX_ESM.test(line))) {
+        text.push(i);
+      }
+    }
+    flush();
+
+    return blocks;
+  }
+
+}
+
+/**
+ * Strip leading YAML front matter - unparseable front matter is dropped with a warning
+ */
+export function parseFrontMatter(content: string): { frontMatter: Record<string, unknown>; body: string } {
+  const match = content.match(FRONT_MATTER);
+  if (!match) return { frontMatter: {}, body: content };
+
+  const body = content.slice(match[0].length);
+  try {
+    const parsed = parseYaml(match[1]);
+    const isObject = parsed && typeof parsed === 'object' && !Array.isArray(parsed);
+    return { frontMatter: isObject ? parsed : {}, body };
+  } catch (error) {
+    console.warn('⚠️ Ignoring invalid front matter:', error instanceof Error ? error.message.split('\n')[0] : error);
+    return { frontMatter: {}, body };
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Vector math shared by every store - cosine similarity and MMR selection
+ * Inspired by Harry-231's approach and LangChain MMR implementation
+ */
+
+import type { Document } from './vector-store.js';
+
+/**
+ * Calculate cosine similarity between two vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  const magnitude = Math.sqrt(normA) * Math.sqrt(normB);
+  return magnitude === 0 ? 0 : dotProduct / magnitude;
+}
+
+/**
+ * MMR selection algorithm
+ * Based on the standard MMR formula: λ * relevance - (1-λ) * max_similarity_to_selected
+ * Candidates must carry their embeddings and a searchScore
+ */
+export function selectMMRDocuments(
+  candidates: Document[],
+  limit: number,
+  lambdaMult: number
+): Document[] {
+  if (candidates.length === 0) return [];
+
+  const selected: Document[] = [];
+  const remaining = [...candidates];
+
+  // Step 1: Select the most relevant document first
+  const firstDoc = remaining.shift()!;
+  selected.push(firstDoc);
+
+  // Step 2: Iteratively select documents using MMR
+  while (selected.length < limit && remaining.length > 0) {
+    let bestDoc: Document | null = null;
+    let bestScore = -Infinity;
+    let bestIndex = -1;
+
+    for (let i = 0; i < remaining.length; i++) {
+      const candidate = remaining[i];
+
+      // Calculate relevance score (already from vector search)
+      const relevanceScore = (candidate as any).searchScore || 0;
+
+      // Calculate max similarity to already selected documents
+      let maxSimilarity = 0;
+      for (const selectedDoc of selected) {
+        if (selectedDoc.embedding && candidate.embedding) {
+          const similarity = cosineSimilarity(candidate.embedding, selectedDoc.embedding);
+          maxSimilarity = Math.max(maxSimilarity, similarity);
+        }
+      }
+
+      // MMR score: λ * relevance - (1-λ) * max_similarity
+      const mmrScore = lambdaMult * relevanceScore - (1 - lambdaMult) * maxSimilarity;
+
+      if (mmrScore > bestScore) {
+        bestScore = mmrScore;
+        bestDoc = candidate;
+        bestIndex = i;
+      }
+    }
+
+    if (bestDoc) {
+      selected.push(bestDoc);
+      remaining.splice(bestIndex, 1);
+    } else {
+      break;
+    }
+  }
+
+  // Remove embeddings from final results to save bandwidth
+  return selected.map(doc => {
+    const { embedding: _, ...docWithoutEmbedding } = doc;
+    return docWithoutEmbedding as Document;
+  });
+}
@@ -0,0 +1,233 @@
+/**
+ * Notebook Chunker - Cell-aware chunking for Jupyter notebooks (.ipynb)
+ *
+ * A notebook is JSON - embedding it raw means embedding `"cell_type"` keys and base64 images.
+ * Instead the markdown and code cells are extracted (code fenced with the kernel language),
+ * short text outputs are optionally kept and binary outputs are always dropped.
+ *
+ * Cells are grouped - a markdown cell and the code cells under it - and groups are packed up
+ * to the token budget; a new heading always starts a new chunk. `cellIndices` records which
+ * cells a chunk came from and the line range covers those cells in the .ipynb file.
+ */
+
+import { config } from '../config/index.js';
+import { countTokens } from './tokens.js';
+import { SourceText } from './source-positions.js';
+import { RecursiveChunker } from './recursive-chunker.js';
+import type { Chunk } from '../types/index.js';
+
+export interface NotebookChunkerOptions {
+  maxTokens?: number;
+  keepOutputs?: boolean;
+  maxOutputChars?: number;
+}
+
+interface NotebookCell {
+  cell_type: 'markdown' | 'code' | 'raw';
+  source: string | string[];
+  outputs?: NotebookOutput[];
+}
+
+interface NotebookOutput {
+  output_type: 'stream' | 'execute_result' | 'display_data' | 'error';
+  text?: string | string[];
+  data?: Record<string, string | string[]>;
+  ename?: string;
+  evalue?: string;
+}
+
+interface Cell {
+  index: number;
+  type: 'markdown' | 'code';
+  text: string;
+  tokens: number;
+  heading?: string; // Nearest markdown heading at or above this cell
+}
+
+export class NotebookChunker {
+  private readonly maxTokens: number;
+  private readonly keepOutputs: boolean;
+  private readonly maxOutputChars: number;
+
+  constructor(options: NotebookChunkerOptions = {}) {
+    this.maxTokens = options.maxTokens ?? config.chunking.notebook.maxTokens;
+    this.keepOutputs = options.keepOutputs ?? config.chunking.notebook.keepOutputs;
+    this.maxOutputChars = options.maxOutputChars ?? config.chunking.notebook.maxOutputChars;
+  }
+
+  /**
+   * Chunk a notebook - content that isn't valid notebook JSON is chunked as plain text
+   */
+  chunk(content: string): Chunk[] {
+    let notebook: { cells?: NotebookCell[]; metadata?: Record<string, any> };
+    try {
+      notebook = JSON.parse(content.replace(/^\uFEFF/, ''));
+    } catch (error) {
+      console.warn('⚠️ Notebook is not valid JSON, chunking it as text:', error instanceof Error ? error.message : error);
+      return new RecursiveChunker().chunk(content);
+    }
+    if (!Array.isArray(notebook.cells)) return [];
+
+    const language = notebook.metadata?.kernelspec?.language || notebook.metadata?.language_info?.name || '';
+    const source = new SourceText(content);
+    const spans = cellSpans(content);
+    const cells = this.toCells(notebook.cells, language);
+
+    return this.pack(cells).map((group, chunkIndex) => {
+      const text = group.map(cell => cell.text).join('\n\n');
+      const indices = [...new Set(group.map(cell => cell.index))];
+      const first = spans[indices[0]];
+      const last = spans[indices[indices.length - 1]];
+      return {
+        content: text,
+        metadata: {
+          ...(first && last && source.span(first[0], last[1])),
+          cellIndices: indices,
+          ...(group[0].heading && { sectionTitle: group[0].heading }),
+          ...(language && { language }),
+          hasCode: group.some(cell => cell.type === 'code'),
+          tokenCount: countTokens(text),
+          chunkIndex
+        }
+      };
+    });
+  }
+
+  /**
+   * Render markdown and code cells - raw cells and empty cells are skipped, oversized cells split
+   */
+  private toCells(notebookCells: NotebookCell[], language: string): Cell[] {
+    const cells: Cell[] = [];
+    let heading: string | undefined;
+
+    notebookCells.forEach((cell, index) => {
+      const cellSource = joinLines(cell.source).trim();
+      if (!cellSource || (cell.cell_type !== 'markdown' && cell.cell_type !== 'code')) return;
+
+      let text = cellSource;
+      if (cell.cell_type === 'markdown') {
+        heading = cellSource.match(/^#{1,6}[ \t]+(.+?)[ \t#]*$/m)?.[1] ?? heading;
+      } else {
+        text = ['```' + language, cellSource, '```', ...this.outputsOf(cell)].join('\n');
+      }
+
+      const tokens = countTokens(text);
+      if (tokens <= this.maxTokens) {
+        cells.push({ index, type: cell.cell_type, text, tokens, heading });
+        return;
+      }
+      for (const piece of new RecursiveChunker({ maxTokens: this.maxTokens }).chunk(text)) {
+        cells.push({ index, type: cell.cell_type, text: piece.content, tokens: piece.metadata.tokenCount, heading });
+      }
+    });
+
+    return cells;
+  }
+
+  /**
+   * Short text outputs of a code cell - images, HTML and other rich outputs are dropped
+   */
+  private outputsOf(cell: NotebookCell): string[] {
+    if (!this.keepOutputs) return [];
+
+    const texts = (cell.outputs || []).flatMap(output => {
+      if (output.output_type === 'stream') return [joinLines(output.text)];
+      if (output.output_type === 'error') return [`${output.ename}: ${output.evalue}`];
+      const plain = output.data?.['text/plain'];
+      return plain !== undefined ? [joinLines(plain)] : [];
+    });
+    const text = texts.join('\n').trim();
+
+    if (!text || text.length > this.maxOutputChars) return [];
+    return ['Output:', '```', text, '```'];
+  }
+
+  /**
+   * Group each markdown cell with the code cells under it, then pack groups up to the budget
+   * A markdown cell with a heading always starts a new chunk
+   */
+  private pack(cells: Cell[]): Cell[][] {
+    const groups: Cell[][] = [];
+    for (const cell of cells) {
+      const current = groups[groups.length - 1];
+      const last = current?.[current.length - 1];
+      const newCell = last !== undefined && cell.index !== last.index;
+      if (!last || (newCell && cell.type === 'markdown' && (isHeading(cell) || last.type === 'code'))) {
+        groups.push([cell]);
+      } else {
+        current.push(cell);
+      }
+    }
+
+    const chunks: Cell[][] = [];
+    let current: Cell[] = [];
+    let tokens = 0;
+    const flush = () => {
+      if (current.length > 0) chunks.push(current);
+      current = [];
+      tokens = 0;
+    };
+
+    for (const group of groups) {
+      const groupTokens = group.reduce((sum, cell) => sum + cell.tokens + 1, 0);
+      if (isHeading(group[0]) || tokens + groupTokens > this.maxTokens) flush();
+
+      // A group over the budget on its own is split between cells
+      for (const cell of group) {
+        if (tokens + cell.tokens + 1 > this.maxTokens) flush();
+        current.push(cell);
+        tokens += cell.tokens + 1;
+      }
+    }
+    flush();
+
+    return chunks;
+  }
+}
+
+function isHeading(cell: Cell): boolean {
+  return cell.type === 'markdown' && /^#{1,6}[ \t]/.test(cell.text);
+}
+
+function joinLines(value: string | string[] | undefined): string {
+  return Array.isArray(value) ? value.join('') : value ?? '';
+}
+
+/**
+ * Char range of every element of the top-level `cells` array in the raw JSON
+ */
+function cellSpans(json: string): [number, number][] {
+  const spans: [number, number][] = [];
+  let depth = 0;
+  let inCells = false;
+  let lastKey = '';
+  let elementStart = -1;
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+
+    if (char === '"') {
+      let end = i + 1;
+      while (end < json.length && json[end] !== '"') end += json[end] === '\\' ? 2 : 1;
+      if (depth === 1) lastKey = json.slice(i + 1, end);
+      i = end;
+      continue;
+    }
+
+    if (char === '{' || char === '[') {
+      if (depth === 1 && char === '[' && lastKey === 'cells') inCells = true;
+      else if (inCells && depth === 2) elementStart = i;
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (inCells && depth === 2 && elementStart >= 0) {
+        spans.push([elementStart, i + 1]);
+        elementStart = -1;
+      } else if (inCells && depth === 1) {
+        break;
+      }
+    }
+  }
+
+  return spans;
+}
@@ -0,0 +1,123 @@
+/**
+ * Recursive Chunker - Deterministic, embedding-free chunking for everything without its own structure chunker
+ *
+ * Splits at the coarsest boundary that works - blank lines, then line breaks, then sentence
+ * ends, then whitespace - and packs neighbouring pieces back together up to the token budget.
+ * Chunks are exact slices of the original text, so the same file always gives the same chunks.
+ */
+
+import { config } from '../config/index.js';
+import { countTokens } from './tokens.js';
+import { SourceText } from './source-positions.js';
+import type { Chunk } from '../types/index.js';
+
+export interface RecursiveChunkerOptions {
+  maxTokens?: number;
+}
+
+type Span = [number, number]; // [start, end) in the original text
+
+// Coarsest first
+const SEPARATORS = [/\n[ \t]*(?:\r?\n[ \t]*)+/g, /\r?\n|\r/g, /(?<=[.!?])\s+/g, /\s+/g];
+
+export class RecursiveChunker {
+  private readonly maxTokens: number;
+
+  constructor(options: RecursiveChunkerOptions = {}) {
+    this.maxTokens = options.maxTokens ?? config.chunking.maxTokens;
+  }
+
+  chunk(content: string): Chunk[] {
+    const source = new SourceText(content);
+    const start = content.startsWith('\uFEFF') ? 1 : 0;
+
+    return this.split(content, trim(content, [start, content.length]), 0).map(([from, to], chunkIndex) => {
+      const text = content.slice(from, to);
+      return {
+        content: text,
+        metadata: {
+          ...source.span(from, to),
+          hasCode: text.includes('```'),
+          tokenCount: countTokens(text),
+          chunkIndex
+        }
+      };
+    });
+  }
+
+  /**
+   * Split a span at the separator for `level`, recursing into parts that are still too big
+   */
+  private split(text: string, span: Span | null, level: number): Span[] {
+    if (!span) return [];
+    const tokens = countTokens(text.slice(span[0], span[1]));
+    if (tokens <= this.maxTokens) return [span];
+
+    if (level >= SEPARATORS.length) return this.hardCut(span);
+
+    const parts = partsOf(text, span, SEPARATORS[level]);
+    if (parts.length < 2) return this.split(text, span, level + 1);
+
+    // Pack neighbouring parts - a part that is too big on its own goes down a level
+    const chunks: Span[] = [];
+    let current: Span | null = null;
+    let currentTokens = 0;
+    for (const part of parts) {
+      const partTokens = countTokens(text.slice(part[0], part[1]));
+      if (partTokens > this.maxTokens) {
+        if (current) chunks.push(current);
+        chunks.push(...this.split(text, part, level + 1));
+        current = null;
+        currentTokens = 0;
+        continue;
+      }
+
+      const separatorTokens = current ? countTokens(text.slice(current[1], part[0])) : 0;
+      if (current && currentTokens + separatorTokens + partTokens > this.maxTokens) {
+        chunks.push(current);
+        current = null;
+        currentTokens = 0;
+      }
+      currentTokens += (current ? separatorTokens : 0) + partTokens;
+      current = [current ? current[0] : part[0], part[1]];
+    }
+    if (current) chunks.push(current);
+
+    return chunks;
+  }
+
+  /**
+   * One enormous word (minified code, base64) - cut by characters
+   */
+  private hardCut([start, end]: Span): Span[] {
+    const pieces: Span[] = [];
+    const size = Math.max(this.maxTokens * 2, 1); // Dense text runs ~2-4 characters per token
+    for (let from = start; from < end; from += size) {
+      pieces.push([from, Math.min(from + size, end)]);
+    }
+    return pieces;
+  }
+}
+
+/**
+ * Non-blank parts of a span between separator matches, trimmed of surrounding whitespace
+ */
+function partsOf(text: string, [start, end]: Span, separator: RegExp): Span[] {
+  const parts: Span[] = [];
+  let cursor = start;
+  for (const match of text.slice(start, end).matchAll(separator)) {
+    const at = start + match.index!;
+    const part = trim(text, [cursor, at]);
+    if (part) parts.push(part);
+    cursor = at + match[0].length;
+  }
+  const last = trim(text, [cursor, end]);
+  if (last) parts.push(last);
+  return parts;
+}
+
+function trim(text: string, [start, end]: Span): Span | null {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return start < end ? [start, end] : null;
+}
@@ -0,0 +1,257 @@
+/**
+ * Rerankers - Second-stage ranking of fused search results
+ * Voyage AI's rerank API, or an offline lexical reranker for setups without network access:
+ * BM25F over title, path and content, plus query term proximity and verbatim identifier matches
+ */
+
+import axios from 'axios';
+import { config } from '../config/index.js';
+import { tokenize } from './bm25.js';
+
+export interface RerankCandidate {
+  content: string;
+  title?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface RerankHit {
+  index: number; // Position in the candidates
+  score: number; // 0-1, higher is more relevant
+}
+
+export interface Reranker {
+  readonly name: RerankerName;
+  readonly model: string;
+  /**
+   * The best `limit` candidates, best first
+   */
+  rerank(query: string, candidates: RerankCandidate[], limit: number): Promise<RerankHit[]>;
+}
+
+export type RerankerName = 'voyage' | 'lexical' | 'none';
+
+type LexicalField = 'title' | 'path' | 'content';
+
+export interface LexicalRerankerSettings {
+  fieldWeights: Record<LexicalField, number>;
+  k1: number;
+  b: number;
+  proximityWeight: number;
+  identifierWeight: number;
+}
+
+interface FieldStats {
+  frequencies: Map<string, number>;
+  length: number;
+}
+
+const LEXICAL_FIELDS: LexicalField[] = ['title', 'path', 'content'];
+// Dotted names, snake_case, camelCase and $operators - matched case-sensitively
+const IDENTIFIER = /\$?[A-Za-z_][\w$]*(?:\.[A-Za-z_$][\w$]*)*/g;
+
+/**
+ * Resolve the configured reranker - EMBEDOCS_RERANKER wins over config
+ * 'auto' is Voyage when VOYAGE_API_KEY is set, lexical otherwise
+ */
+export function resolveRerankerName(): RerankerName {
+  const name: string = process.env.EMBEDOCS_RERANKER || config.search.reranking.provider;
+
+  switch (name) {
+    case 'auto':
+      return process.env.VOYAGE_API_KEY ? 'voyage' : 'lexical';
+    case 'voyage':
+    case 'lexical':
+    case 'none':
+      return name;
+    default:
+      throw new Error(`Unknown reranker "${name}". Use "auto", "voyage", "lexical" or "none".`);
+  }
+}
+
+/**
+ * Create the reranker selected by config/env - null for 'none'
+ */
+export function createReranker(name: RerankerName = resolveRerankerName()): Reranker | null {
+  switch (name) {
+    case 'voyage':
+      return new VoyageReranker(process.env.VOYAGE_API_KEY!);
+    case 'lexical':
+      return new LexicalReranker();
+    case 'none':
+      return null;
+  }
+}
+
+/**
+ * Voyage AI rerank API - a cross-encoder over the query and each candidate
+ * @see https://docs.voyageai.com/reference/reranker-api
+ */
+export class VoyageReranker implements Reranker {
+  readonly name = 'voyage' as const;
+
+  constructor(
+    private readonly apiKey: string,
+    readonly model: string = config.search.reranker
+  ) {
+    if (!apiKey) {
+      throw new Error('VOYAGE_API_KEY is required');
+    }
+  }
+
+  async rerank(query: string, candidates: RerankCandidate[], limit: number): Promise<RerankHit[]> {
+    const response = await axios.post(
+      'https://api.voyageai.com/v1/rerank',
+      {
+        query,
+        documents: candidates.map(candidate => candidate.content.substring(0, 1000)),
+        model: this.model,
+        top_k: Math.min(candidates.length, limit)
+      },
+      {
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        timeout: config.search.reranking.timeout,
+      }
+    );
+
+    const data = response.data?.data;
+    if (!Array.isArray(data)) {
+      throw new Error('Unexpected Voyage rerank response');
+    }
+    return data
+      .filter((item: any) => item.index < candidates.length)
+      .map((item: any) => ({ index: item.index, score: item.relevance_score ?? item.relevanceScore ?? 0 }));
+  }
+}
+
+/**
+ * Offline lexical reranker - no model, no network
+ *
+ * The score is a weighted mean of up to three parts, each 0-1:
+ * - BM25F: term frequencies summed over weighted fields, IDF over the candidates, divided by
+ *   the score of a candidate matching every query term
+ * - Proximity (queries with several terms): how close consecutive query terms appear in the content
+ * - Identifiers (queries with code names like `insertMany` or `$lookup`): share found verbatim
+ */
+export class LexicalReranker implements Reranker {
+  readonly name = 'lexical' as const;
+  readonly model = 'bm25f';
+
+  constructor(private readonly settings: LexicalRerankerSettings = config.search.reranking.lexical) {}
+
+  async rerank(query: string, candidates: RerankCandidate[], limit: number): Promise<RerankHit[]> {
+    return this.score(query, candidates)
+      .map((score, index) => ({ index, score }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, limit);
+  }
+
+  /**
+   * Score of every candidate, in candidate order
+   */
+  score(query: string, candidates: RerankCandidate[]): number[] {
+    const terms = [...new Set(tokenize(query))];
+    const identifiers = queryIdentifiers(query);
+    const { fieldWeights, k1, b, proximityWeight, identifierWeight } = this.settings;
+
+    const docs = candidates.map(candidate => ({
+      title: fieldStats([candidate.title, candidate.metadata?.sectionTitle].filter(Boolean).join(' ')),
+      path: fieldStats(candidate.metadata?.path || candidate.metadata?.file || ''),
+      content: fieldStats(candidate.content)
+    }));
+    const avgLength = Object.fromEntries(LEXICAL_FIELDS.map(field => [
+      field,
+      Math.max(1, docs.reduce((sum, doc) => sum + doc[field].length, 0) / Math.max(docs.length, 1))
+    ])) as Record<LexicalField, number>;
+    const idf = new Map(terms.map(term => {
+      const df = docs.filter(doc => LEXICAL_FIELDS.some(field => doc[field].frequencies.has(term))).length;
+      return [term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5))];
+    }));
+    const maxBm25 = [...idf.values()].reduce((sum, value) => sum + value, 0);
+
+    return candidates.map((candidate, index) => {
+      const doc = docs[index];
+
+      let bm25 = 0;
+      for (const term of terms) {
+        let weighted = 0;
+        for (const field of LEXICAL_FIELDS) {
+          const tf = doc[field].frequencies.get(term);
+          if (tf) weighted += fieldWeights[field] * tf / (1 - b + b * doc[field].length / avgLength[field]);
+        }
+        bm25 += idf.get(term)! * weighted / (k1 + weighted);
+      }
+
+      const parts: Array<[weight: number, score: number]> = [
+        [1 - proximityWeight - identifierWeight, maxBm25 > 0 ? bm25 / maxBm25 : 0]
+      ];
+      if (terms.length > 1) {
+        parts.push([proximityWeight, proximity(terms, tokenize(candidate.content))]);
+      }
+      if (identifiers.length > 0) {
+        const text = `${candidate.title ?? ''}\n${candidate.content}`;
+        parts.push([identifierWeight, identifiers.filter(name => containsIdentifier(text, name)).length / identifiers.length]);
+      }
+
+      const totalWeight = parts.reduce((sum, [weight]) => sum + weight, 0);
+      return totalWeight > 0 ? parts.reduce((sum, [weight, score]) => sum + weight * score, 0) / totalWeight : 0;
+    });
+  }
+}
+
+/**
+ * Names in the query that look like code rather than words
+ */
+export function queryIdentifiers(query: string): string[] {
+  const names = query.match(IDENTIFIER) || [];
+  return [...new Set(names.filter(name => /[_.$]|[a-z][A-Z]/.test(name)))];
+}
+
+function fieldStats(text: string): FieldStats {
+  const tokens = tokenize(text);
+  const frequencies = new Map<string, number>();
+  for (const token of tokens) {
+    frequencies.set(token, (frequencies.get(token) || 0) + 1);
+  }
+  return { frequencies, length: tokens.length };
+}
+
+/**
+ * Mean closeness of consecutive query terms - 1 when adjacent, 1/n when n tokens apart, 0 when one is missing
+ */
+function proximity(terms: string[], tokens: string[]): number {
+  const positions = new Map<string, number[]>();
+  tokens.forEach((token, idx) => {
+    const list = positions.get(token);
+    if (list) list.push(idx);
+    else positions.set(token, [idx]);
+  });
+
+  let total = 0;
+  for (let i = 1; i < terms.length; i++) {
+    const a = positions.get(terms[i - 1]);
+    const b = positions.get(terms[i]);
+    if (!a || !b) continue;
+
+    // Both position lists are ascending - walk them together for the smallest gap
+    let gap = Infinity;
+    for (let x = 0, y = 0; x < a.length && y < b.length;) {
+      gap = Math.min(gap, Math.abs(a[x] - b[y]));
+      if (a[x] < b[y]) x++;
+      else y++;
+    }
+    total += 1 / Math.max(gap, 1);
+  }
+  return total / (terms.length - 1);
+}
+
+function containsIdentifier(text: string, name: string): boolean {
+  for (let at = text.indexOf(name); at !== -1; at = text.indexOf(name, at + 1)) {
+    const before = text[at - 1] ?? ' ';
+    const after = text[at + name.length] ?? ' ';
+    if (!/[\w$.]/.test(before) && !/\w/.test(after)) return true;
+  }
+  return false;
+}
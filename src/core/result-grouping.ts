@@ -0,0 +1,68 @@
+/**
+ * Result Grouping - Search results collapsed by source file
+ *
+ * A flat result list often spends most of its slots on chunks of one file. Grouped, every file
+ * appears once: its score is the best chunk's plus a share of each other matching chunk, so a
+ * file that matches in several places ranks above a single chunk of similar score. Only the
+ * best chunks are kept - the count of the others tells the agent whether the whole file is
+ * worth fetching.
+ */
+
+import { config } from '../config/index.js';
+import type { FileSearchResult } from '../types/index.js';
+import type { SearchResult } from './search.js';
+
+export interface GroupingOptions {
+  chunksPerFile?: number;
+  otherChunkWeight?: number;
+}
+
+/**
+ * The top `limit` files of a ranked result list, best first
+ */
+export function groupByFile(results: SearchResult[], limit: number, options: GroupingOptions = {}): FileSearchResult[] {
+  const chunksPerFile = options.chunksPerFile ?? config.search.grouping.chunksPerFile;
+  const otherChunkWeight = options.otherChunkWeight ?? config.search.grouping.otherChunkWeight;
+
+  const files = new Map<string, SearchResult[]>();
+  for (const result of results) {
+    const key = JSON.stringify([result.product ?? '', result.metadata?.repo ?? '', filePath(result)]);
+    const chunks = files.get(key);
+    if (chunks) {
+      chunks.push(result);
+    } else {
+      files.set(key, [result]);
+    }
+  }
+
+  return [...files.values()]
+    .map(chunks => {
+      const ranked = [...chunks].sort((a, b) => b.score - a.score);
+      const best = ranked[0];
+      const others = ranked.slice(1).reduce((sum, chunk) => sum + chunk.score, 0);
+      return {
+        path: filePath(best),
+        repo: best.metadata?.repo,
+        product: best.product,
+        title: best.title,
+        url: best.metadata?.url,
+        score: best.score + otherChunkWeight * others,
+        maxScore: best.score,
+        chunks: ranked.slice(0, chunksPerFile).map(chunk => ({
+          documentId: chunk.documentId,
+          content: chunk.content,
+          score: chunk.score,
+          metadata: chunk.metadata,
+          vectorScore: chunk.vectorScore,
+          rerankScore: chunk.rerankScore
+        })),
+        matchedChunks: ranked.length
+      };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+function filePath(result: SearchResult): string {
+  return result.metadata?.path || result.metadata?.file || result.title || result.documentId;
+}
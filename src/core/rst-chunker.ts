@@ -0,0 +1,163 @@
+/**
+ * reStructuredText Chunker - Structure-aware chunking for .rst (Sphinx and docutils docs)
+ *
+ * - Section titles are underlined (optionally also overlined) with punctuation; like docutils,
+ *   levels follow the order in which each adornment style first appears
+ * - `.. code-block::`, `.. code::` and `::` literal blocks are code
+ * - `.. note::`, `.. warning::` and the other admonitions keep their type in `admonitions`
+ * - `.. list-table::`, `.. csv-table::`, grid and simple tables are tables
+ * - Every other directive (toctree, include, images, ...) stays text, together with its body
+ */
+
+import { SourceText } from './source-positions.js';
+import { SectionChunker, Block, blockReader, range } from './section-chunker.js';
+import type { Chunk } from '../types/index.js';
+
+// A line of one repeated punctuation character - section adornment
+const ADORNMENT = /^([!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~])\1{2,}[ \t]*$/;
+const DIRECTIVE = /^([ \t]*)\.\.[ \t]+([\w:-]+)::(?:[ \t]|$)/;
+const OPTION = /^[ \t]+:[\w -]+:/;
+const GRID_TABLE = /^[ \t]*\+[-=+]+\+[ \t]*$/;
+const GRID_HEADER = /^[ \t]*\+(?:=+\+)+[ \t]*$/;
+const SIMPLE_TABLE = /^[ \t]*=+(?:[ \t]+=+)+[ \t]*$/;
+
+const CODE_DIRECTIVES = new Set(['code-block', 'code', 'sourcecode', 'io-code-block', 'doctest', 'testcode']);
+const TABLE_DIRECTIVES = new Set(['list-table', 'csv-table', 'table']);
+const ADMONITIONS = new Set([
+  'note', 'warning', 'tip', 'important', 'caution', 'danger', 'attention', 'hint', 'error', 'seealso', 'admonition'
+]);
+
+export class RstChunker extends SectionChunker {
+  chunk(content: string): Chunk[] {
+    const source = new SourceText(content);
+    const lines = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+    return this.chunkBlocks(this.toBlocks(lines, source), source);
+  }
+
+  /**
+   * Line scanner - section titles, directives, literal blocks, tables and paragraphs
+   */
+  private toBlocks(lines: string[], source: SourceText): Block[] {
+    const blockOf = blockReader(lines, source);
+    const styles: string[] = []; // Adornment styles in order of first use - index + 1 is the level
+    const levelOf = (style: string) => {
+      if (!styles.includes(style)) styles.push(style);
+      return styles.indexOf(style) + 1;
+    };
+    const blocks: Block[] = [];
+    let text: number[] = [];
+
+    const flush = () => {
+      if (text.some(idx => lines[idx].trim())) {
+        blocks.push(blockOf('text', text));
+      }
+      text = [];
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const adornment = line.match(ADORNMENT);
+
+      // Overline, title, underline - same character on both sides
+      if (adornment && text.length === 0 && i + 2 < lines.length && lines[i + 1].trim() && !ADORNMENT.test(lines[i + 1])) {
+        const underline = lines[i + 2].match(ADORNMENT);
+        if (underline && underline[1] === adornment[1]) {
+          blocks.push(blockOf('heading', [i, i + 1, i + 2], { level: levelOf(`over${adornment[1]}`), title: lines[i + 1].trim() }));
+          i += 2;
+          continue;
+        }
+      }
+
+      // Title and underline at least as long - the title starts a paragraph
+      if (!adornment && text.length === 0 && /^\S/.test(line) && i + 1 < lines.length) {
+        const underline = lines[i + 1].match(ADORNMENT);
+        if (underline && lines[i + 1].trim().length >= line.trim().length) {
+          blocks.push(blockOf('heading', [i, i + 1], { level: levelOf(`under${underline[1]}`), title: line.trim() }));
+          i++;
+          continue;
+        }
+      }
+
+      const directive = line.match(DIRECTIVE);
+      if (directive) {
+        flush();
+        const end = indentedEnd(lines, i, directive[1].length);
+        const name = directive[2].toLowerCase();
+        const indices = range(i, end);
+        const head = bodyStart(lines, i, end) - i; // Directive line, options and the blank line after them
+
+        if (CODE_DIRECTIVES.has(name)) {
+          blocks.push(blockOf('code', indices, { frame: [head, 0] }));
+        } else if (TABLE_DIRECTIVES.has(name)) {
+          blocks.push(blockOf('table', indices, { frame: [head, 0] }));
+        } else if (ADMONITIONS.has(name)) {
+          blocks.push(blockOf('admonition', indices, { admonition: name }));
+        } else {
+          blocks.push(blockOf('text', indices));
+        }
+        i = end;
+        continue;
+      }
+
+      if (GRID_TABLE.test(line) || (SIMPLE_TABLE.test(line) && text.length === 0)) {
+        flush();
+        const grid = GRID_TABLE.test(line);
+        let end = i;
+        while (end + 1 < lines.length && (grid ? /^[ \t]*[+|]/.test(lines[end + 1]) : lines[end + 1].trim())) end++;
+
+        // Header rows end at the `+===+` (grid) or second `=== ===` (simple) border
+        const border = range(i + 1, end - 1).find(idx => (grid ? GRID_HEADER : SIMPLE_TABLE).test(lines[idx]));
+        blocks.push(blockOf('table', range(i, end), { frame: [border !== undefined ? border - i + 1 : 1, 0] }));
+        i = end;
+        continue;
+      }
+
+      if (!line.trim()) {
+        // A paragraph ending in `::` introduces an indented literal block
+        const last = text.length > 0 ? lines[text[text.length - 1]] : '';
+        flush();
+        if (last.trimEnd().endsWith('::')) {
+          let next = i + 1;
+          while (next < lines.length && !lines[next].trim()) next++;
+          if (next < lines.length && indentOf(lines[next]) > indentOf(last)) {
+            const end = indentedEnd(lines, next, indentOf(last));
+            blocks.push(blockOf('code', range(next, end)));
+            i = end;
+          }
+        }
+        continue;
+      }
+
+      text.push(i);
+    }
+    flush();
+
+    return blocks;
+  }
+}
+
+function indentOf(line: string): number {
+  return line.match(/^[ \t]*/)![0].length;
+}
+
+/**
+ * Last line of the block that starts at `from` - everything indented deeper than `indent`
+ */
+function indentedEnd(lines: string[], from: number, indent: number): number {
+  let end = from;
+  for (let i = from + 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    if (indentOf(lines[i]) <= indent) break;
+    end = i;
+  }
+  return end;
+}
+
+/**
+ * First content line of a directive - after its arguments' line, `:option:` lines and blank lines
+ */
+function bodyStart(lines: string[], directive: number, end: number): number {
+  let line = directive + 1;
+  while (line <= end && (!lines[line].trim() || OPTION.test(lines[line]))) line++;
+  return line;
+}
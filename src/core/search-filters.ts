@@ -0,0 +1,165 @@
+/**
+ * Search Filters - Narrow the search tools by product, repository, version, file type, path and code
+ *
+ * Filters become one MongoDB query that both backends understand: `$vectorSearch.filter` on Atlas,
+ * matchesFilter in the local store. Atlas Search (`$search`) gets the same query translated into
+ * compound filter clauses. Every filtered field is indexed as a filter (vector index) and as a
+ * token/boolean (text index) - see StorageService.
+ *
+ * Neither index can match path prefixes, so each chunk stores the directories above its file in
+ * `metadata.dirs` - `docs/guide/intro.md` has ['docs', 'docs/guide']. A path filter without
+ * wildcards matches a directory or a file exactly; a glob (`docs/**\/*.md`) is pushed down by its
+ * leading directories and matched against `metadata.path` on the results.
+ */
+
+import ignoreModule from 'ignore';
+
+// CommonJS package - under NodeNext its factory is reached through .default
+const ignore = ignoreModule.default;
+
+export interface SearchFilters {
+  products?: string[];
+  repos?: string[]; // `repo` of the repository entry - owner/repo, git URL, path or site URL
+  version?: string;
+  fileTypes?: string[]; // Extensions, with or without the dot
+  path?: string; // Directory, file or gitignore-style glob, relative to the repository root
+  hasCode?: boolean;
+}
+
+/**
+ * Fields the filters query - must be filter fields of the vector index and tokens of the text index
+ */
+export const FILTER_FIELDS = {
+  strings: ['product', 'version', 'metadata.repo', 'metadata.fileType', 'metadata.path', 'metadata.dirs'],
+  booleans: ['metadata.hasCode']
+} as const;
+
+const GLOB_CHARS = /[*?[\]]/;
+
+/**
+ * Filters from MCP tool arguments - unknown keys are ignored, wrong types are rejected
+ */
+export function parseSearchFilters(args: Record<string, unknown> = {}): SearchFilters {
+  const filters: SearchFilters = {};
+
+  const list = (key: string): string[] | undefined => {
+    const value = args[key];
+    if (value === undefined || value === null) return undefined;
+    const items = Array.isArray(value) ? value : [value];
+    if (!items.every(item => typeof item === 'string')) {
+      throw new Error(`Invalid filter "${key}". Use a string or an array of strings.`);
+    }
+    const values = (items as string[]).map(item => item.trim()).filter(Boolean);
+    return values.length > 0 ? values : undefined;
+  };
+  const text = (key: string): string | undefined => {
+    const value = args[key];
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value !== 'string') throw new Error(`Invalid filter "${key}". Use a string.`);
+    return value.trim() || undefined;
+  };
+
+  const products = list('products');
+  const repos = list('repos');
+  const fileTypes = list('fileTypes')?.map(type => type.replace(/^\./, '').toLowerCase());
+  const version = text('version');
+  const pathFilter = text('path') && normalizePath(text('path')!);
+
+  if (products) filters.products = products;
+  if (repos) filters.repos = repos;
+  if (version) filters.version = version;
+  if (fileTypes) filters.fileTypes = fileTypes;
+  if (pathFilter) filters.path = pathFilter;
+  if (args.hasCode !== undefined && args.hasCode !== null) {
+    if (typeof args.hasCode !== 'boolean') throw new Error('Invalid filter "hasCode". Use true or false.');
+    filters.hasCode = args.hasCode;
+  }
+  return filters;
+}
+
+/**
+ * MongoDB query for the filters - undefined when nothing is filtered
+ */
+export function toMongoFilter(filters: SearchFilters = {}): Record<string, any> | undefined {
+  const clauses: Record<string, any>[] = [];
+
+  if (filters.products?.length) clauses.push({ product: { $in: filters.products } });
+  if (filters.repos?.length) clauses.push({ 'metadata.repo': { $in: filters.repos } });
+  if (filters.version) clauses.push({ version: filters.version });
+  if (filters.fileTypes?.length) clauses.push({ 'metadata.fileType': { $in: filters.fileTypes } });
+  if (filters.hasCode !== undefined) clauses.push({ 'metadata.hasCode': filters.hasCode });
+
+  if (filters.path) {
+    if (!isGlob(filters.path)) {
+      clauses.push({ $or: [{ 'metadata.dirs': filters.path }, { 'metadata.path': filters.path }] });
+    } else if (globDirectory(filters.path)) {
+      clauses.push({ 'metadata.dirs': globDirectory(filters.path) });
+    }
+  }
+
+  if (clauses.length === 0) return undefined;
+  return clauses.length === 1 ? clauses[0] : { $and: clauses };
+}
+
+/**
+ * `$search` compound filter clauses for a query from toMongoFilter
+ * Supports equality, $in, $and and $or - the operators toMongoFilter produces
+ */
+export function toAtlasSearchFilter(filter?: Record<string, any>): Record<string, any>[] {
+  if (!filter) return [];
+
+  return Object.entries(filter).flatMap(([key, condition]) => {
+    if (key === '$and') {
+      return (condition as Record<string, any>[]).flatMap(sub => toAtlasSearchFilter(sub));
+    }
+    if (key === '$or') {
+      return [{
+        compound: {
+          should: (condition as Record<string, any>[]).map(sub => ({ compound: { filter: toAtlasSearchFilter(sub) } })),
+          minimumShouldMatch: 1
+        }
+      }];
+    }
+    if (condition !== null && typeof condition === 'object' && Array.isArray(condition.$in)) {
+      return [{ in: { path: key, value: condition.$in } }];
+    }
+    if (['string', 'boolean', 'number'].includes(typeof condition)) {
+      return [{ equals: { path: key, value: condition } }];
+    }
+    throw new Error(`Unsupported filter for Atlas Search: ${JSON.stringify({ [key]: condition })}`);
+  });
+}
+
+/**
+ * Whether a result passes the path filter - only globs need this, the rest is pushed down
+ */
+export function matchesPathFilter(pathFilter: string | undefined, filePath: string | undefined): boolean {
+  if (!pathFilter || !isGlob(pathFilter)) return true;
+  if (!filePath) return false;
+  return ignore().add(pathFilter).ignores(normalizePath(filePath));
+}
+
+/**
+ * Directories above a repository-relative file, outermost first - stored as `metadata.dirs`
+ */
+export function directoriesOf(filePath: string): string[] {
+  const segments = normalizePath(filePath).split('/').slice(0, -1);
+  return segments.map((_, idx) => segments.slice(0, idx + 1).join('/'));
+}
+
+export function isGlob(pathFilter: string): boolean {
+  return GLOB_CHARS.test(pathFilter);
+}
+
+/**
+ * Leading directories of a glob without wildcards - `docs/api/**\/*.md` -> `docs/api`
+ */
+function globDirectory(glob: string): string | undefined {
+  const segments = glob.split('/');
+  const literal = segments.slice(0, segments.findIndex(segment => GLOB_CHARS.test(segment)));
+  return literal.length > 0 ? literal.join('/') : undefined;
+}
+
+function normalizePath(value: string): string {
+  return value.replace(/\\/g, '/').replace(/^(\.?\/)+|\/+$/g, '');
+}
@@ -6,8 +6,11 @@
 
 import { config } from '../config/index.js';
 import { EmbeddingService } from './embeddings.js';
-import { StorageService } from './storage.js';
-import axios from 'axios';
+import { getVectorStore, NativeFusion, VectorStore } from './vector-store.js';
+import { SearchFilters, isGlob, matchesPathFilter, toMongoFilter } from './search-filters.js';
+import { groupByFile } from './result-grouping.js';
+import { createReranker, LexicalReranker, Reranker, RerankerName, RerankHit } from './rerankers.js';
+import type { FileSearchResult } from '../types/index.js';
 
 export interface SearchResult {
   documentId: string;
@@ -16,18 +19,32 @@ export interface SearchResult {
   title?: string;
   product?: string;
   metadata?: Record<string, any>;
+  vectorScore?: number; // Similarity from the vector leg, when the result came from it
+  rerankScore?: number; // Relevance from Voyage's reranker, when results were reranked by it
 }
 
+/**
+ * How much to trust the best result - see assessConfidence
+ */
+export interface Confidence {
+  low: boolean;
+  score?: number; // Best result's score on this basis
+  basis?: 'rerank' | 'vector';
+  threshold?: number;
+}
+
+export type FusionMode = 'auto' | NativeFusion | 'manual';
+
 export class SearchService {
   private static instance: SearchService;
   private embeddingService: EmbeddingService;
-  private storageService: StorageService;
-  private voyageApiKey: string;
+  private storageService: VectorStore;
+  private reranker: Reranker | null;
   
   private constructor() {
     this.embeddingService = EmbeddingService.getInstance();
-    this.storageService = StorageService.getInstance();
-    this.voyageApiKey = process.env.VOYAGE_API_KEY!;
+    this.storageService = getVectorStore();
+    this.reranker = createReranker();
   }
   
   static getInstance(): SearchService {
@@ -39,29 +56,40 @@ export class SearchService {
   
   /**
    * Hybrid Search using Reciprocal Rank Fusion (RRF) algorithm
-   * NOTE: We implement RRF manually since $rankFusion is not yet available in MongoDB 8.0
-   * This follows the same algorithm that MongoDB will use when $rankFusion becomes available
+   * Runs as one $rankFusion / $scoreFusion aggregation when the server supports it (see selectFusion),
+   * otherwise as two searches fused here - the same RRF that $rankFusion implements
    * @see https://github.com/JohnGUnderwood/atlas-hybrid-search for reference implementation
+   * @param filters - Pushed down into both searches, see search-filters
    */
-  async hybridSearch(query: string, limit: number = 10): Promise<SearchResult[]> {
+  async hybridSearch(query: string, limit: number = 10, filters: SearchFilters = {}): Promise<SearchResult[]> {
     await this.storageService.connect();
     
     // Generate query embedding
     const embeddingResult = await this.embeddingService.embedQuery(query);
+    const filter = toMongoFilter(filters);
+    const candidates = candidateCount(limit * 2, filters);
     
-    // Parallel search: Vector + Keyword
-    const [vectorResults, keywordResults] = await Promise.all([
-      this.storageService.vectorSearch(embeddingResult.normalized, limit * 2),
-      this.storageService.keywordSearch(query, limit * 2)
-    ]);
+    const fusion = selectFusion(resolveFusionMode(), this.storageService.getNativeFusion(), config.search.fusion.k);
+    let fusedResults = fusion === 'manual'
+      ? null
+      : await this.serverFusion(fusion, embeddingResult.normalized, query, candidates, filter);
     
-    // Apply Reciprocal Rank Fusion (RRF)
-    const fusedResults = this.reciprocalRankFusion(
-      vectorResults,
-      keywordResults,
-      config.search.vectorWeight,
-      config.search.keywordWeight
-    );
+    if (!fusedResults) {
+      // Parallel search: Vector + Keyword
+      const [vectorResults, keywordResults] = await Promise.all([
+        this.storageService.vectorSearch(embeddingResult.normalized, candidates, filter),
+        this.storageService.keywordSearch(query, candidates, filter)
+      ]);
+      
+      // Apply Reciprocal Rank Fusion (RRF) to what passes each leg's threshold
+      fusedResults = this.reciprocalRankFusion(
+        aboveScore(vectorResults, config.search.minVectorScore),
+        aboveScore(keywordResults, config.search.minKeywordScore),
+        config.search.vectorWeight,
+        config.search.keywordWeight
+      );
+    }
+    fusedResults = fusedResults.filter(result => matchesPathFilter(filters.path, result.metadata?.path));
     
     // Rerank if we have enough results
     if (fusedResults.length > 3) {
@@ -71,11 +99,20 @@ export class SearchService {
     return fusedResults.slice(0, limit);
   }
   
+  /**
+   * Hybrid search collapsed by source file - the top `limit` files with their best chunks
+   * Fetches several chunks per requested file, so collapsing still leaves `limit` files
+   */
+  async groupedSearch(query: string, limit: number = 5, filters: SearchFilters = {}): Promise<FileSearchResult[]> {
+    const results = await this.hybridSearch(query, limit * config.search.grouping.candidateMultiplier, filters);
+    return groupByFile(results, limit);
+  }
+
   /**
    * Pure Vector Search using MongoDB Atlas $vectorSearch
    * @see https://github.com/mongodb/laravel-mongodb/blob/master/src/Query/Builder.php
    */
-  async vectorSearch(query: string, limit: number = 10): Promise<SearchResult[]> {
+  async vectorSearch(query: string, limit: number = 10, filters: SearchFilters = {}): Promise<SearchResult[]> {
     await this.storageService.connect();
     
     // Generate query embedding
@@ -84,18 +121,23 @@ export class SearchService {
     // Perform vector search
     const results = await this.storageService.vectorSearch(
       embeddingResult.normalized,
-      limit
+      candidateCount(limit, filters),
+      toMongoFilter(filters)
     );
     
     // Map to SearchResult
-    return results.map(doc => ({
-      documentId: doc.documentId,
-      content: doc.content,
-      score: (doc as any).searchScore || 0,
-      title: doc.title,
-      product: doc.product,
-      metadata: doc.metadata
-    }));
+    return aboveScore(results, config.search.minVectorScore)
+      .filter(doc => matchesPathFilter(filters.path, doc.metadata?.path))
+      .slice(0, limit)
+      .map(doc => ({
+        documentId: doc.documentId,
+        content: doc.content,
+        score: (doc as any).searchScore || 0,
+        title: doc.title,
+        product: doc.product,
+        metadata: doc.metadata,
+        vectorScore: (doc as any).searchScore
+      }));
   }
 
   /**
@@ -112,17 +154,20 @@ export class SearchService {
       limit?: number;
       fetchK?: number;
       lambdaMult?: number;
-      filter?: any;
+      filters?: SearchFilters;
     } = {}
   ): Promise<SearchResult[]> {
     await this.storageService.connect();
     
     // Use config defaults if not provided
+    const filters = options.filters || {};
+    const limit = options.limit || config.search.mmr.defaultLimit;
     const mmrOptions = {
-      limit: options.limit || config.search.mmr.defaultLimit,
-      fetchK: options.fetchK || config.search.mmr.fetchK,
+      limit: candidateCount(limit, filters),
+      fetchK: candidateCount(options.fetchK || config.search.mmr.fetchK, filters),
       lambdaMult: options.lambdaMult || config.search.mmr.lambdaMult,
-      filter: options.filter
+      filter: toMongoFilter(filters),
+      minScore: config.search.minVectorScore
     };
     
     // Generate query embedding
@@ -134,22 +179,61 @@ export class SearchService {
       mmrOptions
     );
     
-    // Map to SearchResult
-    return results.map(doc => ({
-      documentId: doc.documentId,
-      content: doc.content,
-      score: (doc as any).searchScore || 0,
-      title: doc.title,
-      product: doc.product,
-      metadata: doc.metadata
-    }));
+    // Map to SearchResult - the store already dropped candidates below minVectorScore
+    return results
+      .filter(doc => matchesPathFilter(filters.path, doc.metadata?.path))
+      .slice(0, limit)
+      .map(doc => ({
+        documentId: doc.documentId,
+        content: doc.content,
+        score: (doc as any).searchScore || 0,
+        title: doc.title,
+        product: doc.product,
+        metadata: doc.metadata,
+        vectorScore: (doc as any).searchScore
+      }));
   }
   
+  /**
+   * Server-side fusion - null when the server rejects it, so the caller fuses client-side
+   */
+  private async serverFusion(
+    fusion: NativeFusion,
+    embedding: number[],
+    query: string,
+    limit: number,
+    filter?: Record<string, any>
+  ): Promise<SearchResult[] | null> {
+    try {
+      const results = await this.storageService.fusedSearch(embedding, query, {
+        fusion,
+        limit,
+        filter,
+        vectorWeight: config.search.vectorWeight,
+        keywordWeight: config.search.keywordWeight,
+        minVectorScore: config.search.minVectorScore,
+        minKeywordScore: config.search.minKeywordScore
+      });
+      
+      return results.map(doc => ({
+        documentId: doc.documentId,
+        content: doc.content,
+        score: (doc as any).searchScore || 0,
+        title: doc.title,
+        product: doc.product,
+        metadata: doc.metadata
+      }));
+    } catch (error: any) {
+      console.warn(`⚠️ $${fusion} failed, falling back to client-side RRF:`, error.message);
+      return null;
+    }
+  }
+
   /**
    * Reciprocal Rank Fusion (RRF) - Standard hybrid search algorithm
-   * Implements the same algorithm that MongoDB $rankFusion will use (not yet available in 8.0)
+   * The same algorithm MongoDB $rankFusion runs server-side
    * Formula: score = Σ(weight / (k + rank_i))
-   * k=60 is the standard constant from RRF research papers
+   * k=60 is the standard constant from RRF research papers - config.search.fusion.k
    */
   private reciprocalRankFusion(
     vectorResults: any[],
@@ -157,8 +241,8 @@ export class SearchService {
     vectorWeight: number,
     keywordWeight: number
   ): SearchResult[] {
-    const k = 60; // Standard RRF constant from research
-    const fusedScores = new Map<string, { doc: any; score: number }>();
+    const k = config.search.fusion.k;
+    const fusedScores = new Map<string, { doc: any; score: number; vectorScore?: number }>();
     
     // Process vector results
     vectorResults.forEach((doc, rank) => {
@@ -168,7 +252,7 @@ export class SearchService {
       if (fusedScores.has(id)) {
         fusedScores.get(id)!.score += rrfScore;
       } else {
-        fusedScores.set(id, { doc, score: rrfScore });
+        fusedScores.set(id, { doc, score: rrfScore, vectorScore: doc.searchScore });
       }
     });
     
@@ -195,60 +279,28 @@ export class SearchService {
       score: item.score,
       title: item.doc.title,
       product: item.doc.product,
-      metadata: item.doc.metadata
+      metadata: item.doc.metadata,
+      vectorScore: item.vectorScore
     }));
   }
   
   /**
-   * Rerank results using Voyage AI Reranker
-   * Using latest rerank-2.5 model (2025)
-   * @see voyage-ai documentation
+   * Second-stage ranking - Voyage AI rerank-2.5 or the offline lexical reranker (see rerankers)
+   * When Voyage is unreachable the lexical reranker ranks instead, not the fused order
+   * Voyage results below config.search.minRerankScore are dropped; lexical scores only order
+   * the candidates, so semantic matches without shared terms are kept
    */
   private async rerankResults(
     query: string,
     results: SearchResult[],
     limit: number
   ): Promise<SearchResult[]> {
-    if (!this.voyageApiKey) {
+    if (!this.reranker) {
       return results.slice(0, limit);
     }
     
     try {
-      const documents = results.map(r => r.content.substring(0, 1000));
-      
-      const response = await axios.post(
-        'https://api.voyageai.com/v1/rerank',
-        {
-          query,
-          documents,
-          model: config.search.reranker,
-          top_k: Math.min(results.length, limit)
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${this.voyageApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          timeout: 10000,
-        }
-      );
-      
-      if (response.data?.data) {
-        // Reorder based on reranking scores
-        const reranked: SearchResult[] = [];
-        
-        response.data.data.forEach((item: any) => {
-          const idx = item.index;
-          if (idx < results.length) {
-            reranked.push({
-              ...results[idx],
-              score: item.relevanceScore || item.score || results[idx].score
-            });
-          }
-        });
-        
-        return reranked;
-      }
+      return rerankedResults(results, await this.reranker.rerank(query, results, limit), this.reranker.name);
     } catch (error: any) {
       // NETWORK ERROR DETECTION
       const isNetworkError = error.code === 'ENOTFOUND' ||
@@ -257,12 +309,15 @@ export class SearchService {
                             error.message?.includes('ENOTFOUND');
 
       if (isNetworkError) {
-        console.warn('🌐 Reranking network error, using original order:', error.code || error.message);
+        console.warn('🌐 Reranking network error, using lexical reranking:', error.code || error.message);
       } else {
-        console.warn('Reranking failed, using original order:', error.message);
+        console.warn('Reranking failed, using lexical reranking:', error.message);
       }
     }
     
+    if (this.reranker.name !== 'lexical') {
+      return rerankedResults(results, await new LexicalReranker().rerank(query, results, limit), 'lexical');
+    }
     return results.slice(0, limit);
   }
   
@@ -270,15 +325,100 @@ export class SearchService {
    * Get search statistics
    */
   async getStats() {
+    const mode = resolveFusionMode();
+    const serverSupport = this.storageService.getNativeFusion();
+    
     return {
       embeddingConfig: this.embeddingService.getConfig(),
       searchConfig: {
-        reranker: config.search.reranker,
+        reranker: this.reranker ? `${this.reranker.name} (${this.reranker.model})` : 'none',
         minVectorScore: config.search.minVectorScore,
+        minKeywordScore: config.search.minKeywordScore,
+        minRerankScore: config.search.minRerankScore,
+        lowConfidence: config.search.lowConfidence,
         vectorWeight: config.search.vectorWeight,
         keywordWeight: config.search.keywordWeight,
-        mmr: config.search.mmr
+        mmr: config.search.mmr,
+        grouping: config.search.grouping,
+        fusion: {
+          mode,
+          active: selectFusion(mode, serverSupport, config.search.fusion.k),
+          k: config.search.fusion.k,
+          normalization: config.search.fusion.normalization,
+          serverSupport
+        }
       }
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Whether the best result is strong enough to answer from
+ * Judged by Voyage relevance when Voyage reranked the results, by vector similarity otherwise;
+ * results with neither (server-side fusion without a reranker) are not judged
+ */
+export function assessConfidence(results: Array<Pick<SearchResult, 'vectorScore' | 'rerankScore'>>): Confidence {
+  const best = (scores: Array<number | undefined>) => Math.max(...scores.filter((score): score is number => score !== undefined));
+
+  if (results.some(result => result.rerankScore !== undefined)) {
+    const score = best(results.map(result => result.rerankScore));
+    const threshold = config.search.lowConfidence.rerankScore;
+    return { low: score < threshold, score, basis: 'rerank', threshold };
+  }
+  if (results.some(result => result.vectorScore !== undefined)) {
+    const score = best(results.map(result => result.vectorScore));
+    const threshold = config.search.lowConfidence.vectorScore;
+    return { low: score < threshold, score, basis: 'vector', threshold };
+  }
+  return { low: false };
+}
+
+/**
+ * Configured fusion mode - EMBEDOCS_FUSION wins over config
+ */
+export function resolveFusionMode(): FusionMode {
+  const mode: string = process.env.EMBEDOCS_FUSION || config.search.fusion.mode;
+
+  if (mode === 'auto' || mode === 'rankFusion' || mode === 'scoreFusion' || mode === 'manual') {
+    return mode;
+  }
+
+  throw new Error(`Unknown fusion mode "${mode}". Use "auto", "rankFusion", "scoreFusion" or "manual".`);
+}
+
+/**
+ * The fusion hybrid search runs - a server-side stage only when the server supports it
+ * 'auto' picks $rankFusion, the server-side twin of client-side RRF, while k is the 60 it is fixed at
+ */
+export function selectFusion(mode: FusionMode, supported: NativeFusion[], k: number): NativeFusion | 'manual' {
+  if (mode === 'manual') return 'manual';
+  if (mode === 'auto') return supported.includes('rankFusion') && k === 60 ? 'rankFusion' : 'manual';
+  return supported.includes(mode) ? mode : 'manual';
+}
+
+/**
+ * Retrieval results at or above a leg's threshold - results without a score (regex fallback) are kept
+ */
+function aboveScore<T>(docs: T[], min: number): T[] {
+  return docs.filter(doc => ((doc as any).searchScore ?? min) >= min);
+}
+
+/**
+ * Results in reranked order - only Voyage's relevance scores are absolute enough to threshold
+ * Lexical scores are relative to the candidates and 0 for chunks without a query term
+ */
+function rerankedResults(results: SearchResult[], hits: RerankHit[], reranker: RerankerName): SearchResult[] {
+  if (reranker !== 'voyage') {
+    return hits.map(hit => ({ ...results[hit.index], score: hit.score }));
+  }
+  return hits
+    .filter(hit => hit.score >= config.search.minRerankScore)
+    .map(hit => ({ ...results[hit.index], score: hit.score, rerankScore: hit.score }));
+}
+
+/**
+ * Glob path filters are only partly pushed down and drop results afterwards - fetch more to make up for it
+ */
+function candidateCount(count: number, filters: SearchFilters): number {
+  return filters.path && isGlob(filters.path) ? count * 2 : count;
+}
@@ -0,0 +1,295 @@
+/**
+ * Secret Scanner - Keeps credentials out of embedding requests and the vector store
+ * Runs on raw file content before chunking; secrets are either redacted in place
+ * or the whole file is skipped, and every suppression lands in a per-repo report
+ *
+ * Reports (config.secrets.reportPath/<repo>.json) list rule names and line numbers
+ * only - never the matched values
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { config } from '../config/index.js';
+import { sourceSlug } from './sources.js';
+import { SourceText } from './source-positions.js';
+
+export type SecretMode = 'redact' | 'skip' | 'off';
+
+export interface SecretFinding {
+  rule: string;
+  line: number;
+}
+
+export interface ScanResult {
+  content: string; // Redacted content - unchanged when nothing was found
+  findings: SecretFinding[];
+  skip: boolean; // True when the file must not be indexed at all
+}
+
+interface SecretRule {
+  name: string;
+  pattern: RegExp;
+  // Only the `secret` named group is redacted when present - keeps the surrounding key/URL readable
+  accept?: (value: string) => boolean;
+}
+
+interface Match {
+  start: number;
+  end: number;
+  rule: string;
+}
+
+// Values that document a secret rather than contain one
+const PLACEHOLDER = /^(?:<[^>]*>|\$\{?[\w.:-]+\}?|\{\{[^}]*\}\}|%[\w]+%|[*x.]+|(?:your|my|example|dummy|fake|test)[\w-]*|changeme|password|secret|redacted)$/i;
+
+// `password: process.env.DB_PASSWORD`, `token = getToken(` - code, not credentials
+const REFERENCE = /^[A-Za-z_$][\w$]*(?:\.[\w$]+)+$|[()[\]]/;
+
+const RULES: SecretRule[] = [
+  {
+    name: 'private-key',
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?(?:-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----|$)/g
+  },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { name: 'slack-token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: 'stripe-key', pattern: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+  { name: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { name: 'api-key', pattern: /\b(?:sk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}|pa-[A-Za-z0-9_-]{32,})/g },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  {
+    name: 'connection-string',
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/'"`]+:(?<secret>[^\s@/'"`]+)@/g,
+    accept: value => !PLACEHOLDER.test(value)
+  },
+  {
+    name: 'secret-assignment',
+    pattern: /\b[\w-]*(?:api[_-]?key|secret|token|passw(?:or)?d|pwd|access[_-]?key|auth[_-]?key)[\w-]*["']?\s*[:=]\s*["']?(?<secret>[^\s"'`,;]{8,})/gi,
+    accept: value => !PLACEHOLDER.test(value) && !REFERENCE.test(value) && /\d/.test(value)
+  }
+];
+
+// Unlabeled tokens - judged by entropy
+const TOKEN = /[A-Za-z0-9+/_-]{20,}={0,2}/g;
+
+// SCREAMING_SNAKE_V2_NAMES and kebab-case-ids - several separators, only short segments
+const IDENTIFIER = /^[A-Za-z0-9]{1,12}(?:[_-][A-Za-z0-9]{1,12}){2,}$/;
+
+export class SecretScanner {
+  private static instance: SecretScanner;
+
+  constructor(
+    readonly mode: SecretMode = 'redact',
+    private readonly entropyThreshold: number = config.secrets.entropyThreshold,
+    private readonly minEntropyLength: number = config.secrets.minEntropyLength
+  ) {}
+
+  static getInstance(): SecretScanner {
+    if (!this.instance) {
+      this.instance = new SecretScanner(getSecretMode());
+    }
+    return this.instance;
+  }
+
+  /**
+   * Find secrets in content
+   */
+  scan(content: string): SecretFinding[] {
+    return withLines(content, this.findMatches(content));
+  }
+
+  /**
+   * Apply the configured mode to a file's content
+   */
+  apply(content: string): ScanResult {
+    if (this.mode === 'off') return { content, findings: [], skip: false };
+
+    const matches = this.findMatches(content);
+    const findings = withLines(content, matches);
+    if (matches.length === 0 || this.mode === 'skip') {
+      return { content, findings, skip: matches.length > 0 };
+    }
+
+    // Replace back to front so earlier offsets stay valid - line breaks are kept so chunk line numbers still match the file
+    let redacted = content;
+    for (const match of [...matches].reverse()) {
+      const lineBreaks = content.slice(match.start, match.end).match(/\r\n|\r|\n/g) || [];
+      redacted = redacted.slice(0, match.start) + `[REDACTED:${match.rule}]` + lineBreaks.join('') + redacted.slice(match.end);
+    }
+    return { content: redacted, findings, skip: false };
+  }
+
+  /**
+   * All rule and entropy matches, sorted and without overlaps
+   */
+  private findMatches(content: string): Match[] {
+    const matches: Match[] = [];
+
+    for (const rule of RULES) {
+      for (const match of content.matchAll(rule.pattern)) {
+        const value = match.groups?.secret ?? match[0];
+        if (rule.accept && !rule.accept(value)) continue;
+
+        const start = match.index! + match[0].lastIndexOf(value);
+        matches.push({ start, end: start + value.length, rule: rule.name });
+      }
+    }
+
+    // Only where no named rule matched - those know the exact extent and a better label
+    const named = [...matches];
+    for (const match of content.matchAll(TOKEN)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (this.isHighEntropy(match[0]) && !named.some(other => start < other.end && other.start < end)) {
+        matches.push({ start, end, rule: 'high-entropy' });
+      }
+    }
+
+    matches.sort((a, b) => a.start - b.start || b.end - a.end);
+    const merged: Match[] = [];
+    for (const match of matches) {
+      const last = merged[merged.length - 1];
+      if (last && match.start < last.end) {
+        last.end = Math.max(last.end, match.end);
+      } else {
+        merged.push({ ...match });
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Random-looking tokens: long, mixed case and digits, high Shannon entropy
+   * Hex digests (git SHAs, checksums) have no uppercase and never qualify
+   */
+  private isHighEntropy(token: string): boolean {
+    if (token.length < this.minEntropyLength) return false;
+    if (!/[a-z]/.test(token) || !/[A-Z]/.test(token) || !/\d/.test(token)) return false;
+    if (IDENTIFIER.test(token)) return false;
+    return shannonEntropy(token) >= this.entropyThreshold;
+  }
+}
+
+/**
+ * Resolve the configured mode - EMBEDOCS_SECRETS wins over config
+ */
+export function getSecretMode(): SecretMode {
+  const mode: string = process.env.EMBEDOCS_SECRETS || config.secrets.mode;
+
+  if (mode === 'redact' || mode === 'skip' || mode === 'off') {
+    return mode;
+  }
+
+  throw new Error(`Unknown secret scanning mode "${mode}". Use "redact", "skip" or "off".`);
+}
+
+interface ReportFile {
+  path: string;
+  action: 'redacted' | 'skipped';
+  findings: SecretFinding[];
+}
+
+/**
+ * Per-repository record of suppressed secrets, kept up to date across full and smart updates
+ */
+export class SecretReport {
+  private files = new Map<string, ReportFile>();
+
+  private constructor(
+    private readonly repo: string,
+    private readonly file: string
+  ) {}
+
+  /**
+   * Load the previous report - a full index passes fresh=true to start over
+   */
+  static async load(repo: string, fresh = false, directory: string = config.secrets.reportPath): Promise<SecretReport> {
+    const report = new SecretReport(repo, path.join(directory, `${sourceSlug(repo)}.json`));
+    if (fresh) return report;
+
+    try {
+      const saved = JSON.parse(await fs.readFile(report.file, 'utf-8'));
+      for (const entry of saved.files || []) {
+        report.files.set(entry.path, entry);
+      }
+    } catch {
+      // First run for this repository
+    }
+    return report;
+  }
+
+  get location(): string {
+    return this.file;
+  }
+
+  /**
+   * Record the scan outcome for a file - a clean scan clears its old entry
+   */
+  record(relativePath: string, result: ScanResult): void {
+    if (result.findings.length === 0) {
+      this.files.delete(relativePath);
+      return;
+    }
+    this.files.set(relativePath, {
+      path: relativePath,
+      action: result.skip ? 'skipped' : 'redacted',
+      findings: result.findings
+    });
+  }
+
+  summary(): { files: number; skipped: number; secrets: number } {
+    const entries = [...this.files.values()];
+    return {
+      files: entries.length,
+      skipped: entries.filter(entry => entry.action === 'skipped').length,
+      secrets: entries.reduce((sum, entry) => sum + entry.findings.length, 0)
+    };
+  }
+
+  /**
+   * Write the report, dropping files that no longer exist in the working tree
+   */
+  async save(workdir: string): Promise<void> {
+    for (const relativePath of [...this.files.keys()]) {
+      try {
+        await fs.access(path.join(workdir, relativePath));
+      } catch {
+        this.files.delete(relativePath);
+      }
+    }
+
+    const files = [...this.files.values()].sort((a, b) => a.path.localeCompare(b.path));
+    const report = {
+      repo: this.repo,
+      generatedAt: new Date().toISOString(),
+      summary: this.summary(),
+      files
+    };
+
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.writeFile(this.file, JSON.stringify(report, null, 2));
+  }
+}
+
+/**
+ * Findings with line numbers - the line table is built once per file, lockfiles match thousands of times
+ */
+function withLines(content: string, matches: Match[]): SecretFinding[] {
+  if (matches.length === 0) return [];
+  const source = new SourceText(content);
+  return matches.map(match => ({ rule: match.rule, line: source.lineAt(match.start) }));
+}
+
+function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
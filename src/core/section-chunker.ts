@@ -0,0 +1,282 @@
+/**
+ * Section Chunker - Shared pipeline for documentation markup (Markdown, reStructuredText, AsciiDoc)
+ *
+ * Each format only turns its lines into blocks - headings, code, tables, admonitions and text.
+ * From there everything is the same:
+ * - Blocks are grouped under their heading, with the breadcrumb of parent headings
+ * - Sections are packed into chunks of up to maxChars; headings stay with what follows them
+ * - Code and tables are never cut unless they alone exceed maxTokens, and then every piece
+ *   repeats the block's frame (opening fence, directive, table header)
+ * - Every chunk records its line and byte range in the original file
+ */
+
+import { config } from '../config/index.js';
+import { countTokens } from './tokens.js';
+import { SourceText } from './source-positions.js';
+import type { Chunk } from '../types/index.js';
+
+export interface SectionChunkerOptions {
+  maxChars?: number; // Target chunk size - sections are packed up to this
+  maxTokens?: number; // Hard limit - only here are code blocks and tables split
+}
+
+export type BlockKind = 'heading' | 'code' | 'table' | 'admonition' | 'text';
+
+export interface Block {
+  kind: BlockKind;
+  text: string;
+  start: number; // Char range in the original file
+  end: number;
+  offsets?: number[]; // Where each line of `text` starts in the original file - blocks read straight from it
+  level?: number; // Headings
+  title?: string;
+  frame?: [number, number]; // Code and tables - lines at the start and end repeated in every piece
+  admonition?: string; // Admonitions - note, warning, tip, ...
+}
+
+interface Section {
+  titles: string[];
+  level: number;
+  blocks: Block[];
+}
+
+// Oversized chunks are split at the same ceiling the semantic chunker uses
+const DEFAULT_MAX_TOKENS = 6000;
+
+export abstract class SectionChunker {
+  protected readonly maxChars: number;
+  protected readonly maxTokens: number;
+
+  constructor(options: SectionChunkerOptions = {}) {
+    this.maxChars = options.maxChars ?? config.indexing.chunkSize;
+    this.maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+  }
+
+  /**
+   * Section, pack and describe a document's blocks
+   */
+  protected chunkBlocks(blocks: Block[], source: SourceText): Chunk[] {
+    const chunks: Chunk[] = [];
+
+    for (const section of this.toSections(blocks)) {
+      this.packSection(section).forEach((packed, part) => {
+        const text = packed.map(block => block.text).join('\n\n');
+        const admonitions = [...new Set(packed.flatMap(block => block.admonition ? [block.admonition] : []))];
+        chunks.push({
+          content: text,
+          metadata: {
+            ...source.span(packed[0].start, packed[packed.length - 1].end),
+            sectionTitle: section.titles[section.titles.length - 1],
+            sectionTitles: section.titles,
+            sectionLevel: section.level,
+            hasCode: packed.some(block => block.kind === 'code'),
+            ...(admonitions.length > 0 && { admonitions }),
+            tokenCount: countTokens(text),
+            chunkIndex: chunks.length,
+            isContinuation: part > 0
+          }
+        });
+      });
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Group blocks under their heading, tracking the breadcrumb of parent headings
+   */
+  private toSections(blocks: Block[]): Section[] {
+    const sections: Section[] = [];
+    const stack: { level: number; title: string }[] = [];
+    let current: Section = { titles: [], level: 0, blocks: [] };
+
+    for (const block of blocks) {
+      if (block.kind !== 'heading') {
+        current.blocks.push(block);
+        continue;
+      }
+
+      if (current.blocks.length > 0) sections.push(current);
+      while (stack.length > 0 && stack[stack.length - 1].level >= block.level!) stack.pop();
+      stack.push({ level: block.level!, title: block.title! });
+      current = { titles: stack.map(entry => entry.title), level: block.level!, blocks: [block] };
+    }
+    if (current.blocks.length > 0) sections.push(current);
+
+    // A heading directly followed by a subheading travels with the subsection
+    const merged: Section[] = [];
+    let carried: Block[] = [];
+    for (const section of sections) {
+      if (section.blocks.every(block => block.kind === 'heading') && section !== sections[sections.length - 1]) {
+        carried.push(...section.blocks);
+        continue;
+      }
+      merged.push({ ...section, blocks: [...carried, ...section.blocks] });
+      carried = [];
+    }
+    return merged;
+  }
+
+  /**
+   * Pack a section's blocks into chunks of up to maxChars
+   * Headings always stay attached to the content that follows them
+   */
+  private packSection(section: Section): Block[][] {
+    const pieces = section.blocks.flatMap(block => this.splitBlock(block));
+    const chunks: Block[][] = [];
+    let current: Block[] = [];
+    let size = 0;
+
+    for (const piece of pieces) {
+      const onlyHeadings = current.every(block => block.kind === 'heading');
+      if (current.length > 0 && !onlyHeadings && size + 2 + piece.text.length > this.maxChars) {
+        chunks.push(current);
+        current = [];
+        size = 0;
+      }
+      size += (current.length > 0 ? 2 : 0) + piece.text.length;
+      current.push(piece);
+    }
+    if (current.length > 0) {
+      chunks.push(current);
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Code and tables stay whole up to the hard token limit; prose is split down to maxChars
+   */
+  private splitBlock(block: Block): Block[] {
+    if (block.kind === 'heading' || block.text.length <= this.maxChars) return [block];
+
+    if (block.kind === 'code' || block.kind === 'table') {
+      if (countTokens(block.text) <= this.maxTokens) return [block];
+      const lines = block.text.split('\n');
+      const [head, tail] = block.frame ?? [0, 0];
+      return this.packLines(block, range(head, lines.length - 1 - tail), lines.slice(0, head), lines.slice(lines.length - tail));
+    }
+
+    return splitText(block.text, this.maxChars).map(([start, end]) => slice(block, start, end));
+  }
+
+  /**
+   * Pack a block's lines (by index) into pieces wrapped in head and tail lines
+   * The first piece's span starts at the block's start, the last one's ends at the block's end
+   */
+  private packLines(block: Block, indices: number[], head: string[], tail: string[]): Block[] {
+    const lines = block.text.split('\n');
+    const budget = Math.max(this.maxChars, 1);
+    const groups: number[][] = [];
+    let current: number[] = [];
+    let size = 0;
+
+    for (const idx of indices) {
+      if (current.length > 0 && size + lines[idx].length + 1 > budget) {
+        groups.push(current);
+        current = [];
+        size = 0;
+      }
+      current.push(idx);
+      size += lines[idx].length + 1;
+    }
+    if (current.length > 0) {
+      groups.push(current);
+    }
+
+    const offsets = block.offsets!;
+    return groups.map((group, part) => {
+      const last = group[group.length - 1];
+      return {
+        kind: block.kind,
+        text: [...head, ...group.map(idx => lines[idx]), ...tail].join('\n'),
+        start: part === 0 ? block.start : offsets[group[0]],
+        end: part === groups.length - 1 ? block.end : offsets[last] + lines[last].length
+      };
+    });
+  }
+}
+
+/**
+ * Block factory over a document's lines
+ * @param firstLine - Line of the file that `lines[0]` is (after stripped front matter)
+ */
+export function blockReader(lines: string[], source: SourceText, firstLine = 0) {
+  const offsetOf = (idx: number) => source.offsetOf(firstLine + idx);
+  return (kind: BlockKind, indices: number[], extra: Partial<Block> = {}): Block => {
+    const last = indices[indices.length - 1];
+    return {
+      kind,
+      text: indices.map(idx => lines[idx]).join('\n'),
+      start: offsetOf(indices[0]),
+      end: offsetOf(last) + lines[last].length,
+      offsets: indices.map(offsetOf),
+      ...extra
+    };
+  };
+}
+
+export function range(from: number, to: number): number[] {
+  return Array.from({ length: Math.max(to - from + 1, 0) }, (_, idx) => from + idx);
+}
+
+/**
+ * Split prose at line, then sentence, then word boundaries
+ * @returns `[start, end)` ranges of `text` - every piece is an exact substring, separators between pieces are dropped
+ */
+function splitText(text: string, maxChars: number, from = 0, to = text.length): [number, number][] {
+  if (to - from <= maxChars) return [[from, to]];
+
+  for (const separator of [/\n/g, /(?<=[.!?])\s+/g, /\s+/g]) {
+    const parts: [number, number][] = [];
+    let cursor = from;
+    for (const match of text.slice(from, to).matchAll(separator)) {
+      const at = from + match.index!;
+      if (text.slice(cursor, at).trim()) parts.push([cursor, at]);
+      cursor = at + match[0].length;
+    }
+    if (text.slice(cursor, to).trim()) parts.push([cursor, to]);
+    if (parts.length < 2) continue;
+
+    const pieces: [number, number][] = [];
+    let current: [number, number] | null = null;
+    for (const [start, end] of parts) {
+      if (current && end - current[0] > maxChars) {
+        pieces.push(current);
+        current = [start, end];
+      } else {
+        current = [current ? current[0] : start, end];
+      }
+    }
+    if (current) pieces.push(current);
+
+    return pieces.flatMap(([start, end]) => end - start > maxChars && (start !== from || end !== to)
+      ? splitText(text, maxChars, start, end)
+      : [[start, end] as [number, number]]);
+  }
+
+  // One enormous word - hard cut
+  const pieces: [number, number][] = [];
+  for (let i = from; i < to; i += maxChars) {
+    pieces.push([i, Math.min(i + maxChars, to)]);
+  }
+  return pieces;
+}
+
+/**
+ * Part of a block read from the file, with its range mapped back to the original
+ */
+function slice(block: Block, start: number, end: number): Block {
+  const offsetAt = (position: number) => {
+    const before = block.text.slice(0, position);
+    const line = before.split('\n').length - 1;
+    return block.offsets![line] + position - (before.lastIndexOf('\n') + 1);
+  };
+  return {
+    kind: block.kind,
+    text: block.text.slice(start, end),
+    start: offsetAt(start),
+    end: offsetAt(end),
+    admonition: block.admonition
+  };
+}
@@ -14,7 +14,7 @@ import { getEncoding } from 'js-tiktoken';
 
 // Interface removed - not needed in current implementation
 
-interface ChunkingMetrics {
+export interface ChunkingMetrics {
   totalChunks: number;
   averageChunkSize: number;
   semanticBoundaries: number;
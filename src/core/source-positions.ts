@@ -0,0 +1,158 @@
+/**
+ * Source Positions - where a chunk came from in its file
+ *
+ * Lines are 1-based and inclusive, bytes are UTF-8 offsets with an exclusive end, so
+ * `path:startLine-endLine` can be opened in an editor and `startByte..endByte` sliced from disk.
+ * `\r\n`, `\r` and `\n` all end a line and a leading BOM is skipped, matching how the
+ * chunkers split lines.
+ */
+
+export interface SourceSpan {
+  startLine: number;
+  endLine: number;
+  startByte: number;
+  endByte: number;
+}
+
+export class SourceText {
+  private readonly lineStarts: number[] = []; // Char offset of every line
+  private readonly lineEnds: number[] = []; // Char offset of every line terminator
+  private readonly lineBytes: number[] = []; // Byte offset of every line
+  private compactCache?: { compact: string; offsets: number[] }; // Non-whitespace chars, built on first locate()
+
+  constructor(readonly text: string) {
+    const start = text.startsWith('\uFEFF') ? 1 : 0;
+    const breaks = /\r\n|\r|\n/g;
+    let lineStart = start;
+    let bytes = Buffer.byteLength(text.slice(0, start));
+
+    for (const match of text.matchAll(breaks)) {
+      this.push(lineStart, match.index!, bytes);
+      bytes += Buffer.byteLength(text.slice(lineStart, match.index! + match[0].length));
+      lineStart = match.index! + match[0].length;
+    }
+    this.push(lineStart, text.length, bytes);
+  }
+
+  get lineCount(): number {
+    return this.lineStarts.length;
+  }
+
+  /**
+   * Char offset of a column on a 0-based line
+   */
+  offsetOf(line: number, column = 0): number {
+    const idx = Math.min(Math.max(line, 0), this.lineCount - 1);
+    return Math.min(this.lineStarts[idx] + column, this.lineEnds[idx]);
+  }
+
+  /**
+   * Span of a char range - the end is exclusive
+   */
+  span(start: number, end: number): SourceSpan {
+    const last = Math.max(end - 1, start);
+    return {
+      startLine: this.lineOf(start) + 1,
+      endLine: this.lineOf(last) + 1,
+      startByte: this.byteOf(start),
+      endByte: this.byteOf(Math.max(end, start))
+    };
+  }
+
+  /**
+   * 1-based line of a char offset
+   */
+  lineAt(offset: number): number {
+    return this.lineOf(offset) + 1;
+  }
+
+  /**
+   * Span of whole lines - 0-based and inclusive, without the final line terminator
+   */
+  lines(first: number, last: number): SourceSpan {
+    return this.span(this.offsetOf(first), this.lineEnds[Math.min(Math.max(last, first), this.lineCount - 1)]);
+  }
+
+  /**
+   * Find a chunk produced from whitespace-normalized text in the original
+   *
+   * Compares everything but whitespace, starting at `from`. When the chunker dropped or
+   * rewrote something in the middle, the chunk is anchored by its first and last characters
+   * instead and the span covers everything in between.
+   * @returns Char range in the original text, undefined when the chunk can't be placed
+   */
+  locate(chunk: string, from = 0, anchorLength = 32): { start: number; end: number } | undefined {
+    const needle = chunk.replace(/\s+/g, '');
+    if (!needle) return undefined;
+
+    const { compact, offsets } = this.compacted();
+    let cursor = 0;
+    while (cursor < offsets.length && offsets[cursor] < from) cursor++;
+
+    const whole = compact.indexOf(needle, cursor);
+    if (whole >= 0) {
+      return { start: offsets[whole], end: offsets[whole + needle.length - 1] + 1 };
+    }
+
+    const head = compact.indexOf(needle.slice(0, anchorLength), cursor);
+    if (head < 0) return undefined;
+    const tailText = needle.slice(-anchorLength);
+    const tail = compact.indexOf(tailText, head);
+    if (tail < 0) return undefined;
+    return { start: offsets[head], end: offsets[tail + tailText.length - 1] + 1 };
+  }
+
+  private compacted(): { compact: string; offsets: number[] } {
+    if (!this.compactCache) {
+      const chars: string[] = [];
+      const offsets: number[] = [];
+      for (let i = 0; i < this.text.length; i++) {
+        if (!/\s/.test(this.text[i])) {
+          chars.push(this.text[i]);
+          offsets.push(i);
+        }
+      }
+      this.compactCache = { compact: chars.join(''), offsets };
+    }
+    return this.compactCache;
+  }
+
+  private push(start: number, end: number, bytes: number): void {
+    this.lineStarts.push(start);
+    this.lineEnds.push(end);
+    this.lineBytes.push(bytes);
+  }
+
+  private lineOf(offset: number): number {
+    let low = 0;
+    let high = this.lineCount - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low;
+  }
+
+  private byteOf(offset: number): number {
+    if (offset <= 0) return 0;
+    const line = this.lineOf(offset);
+    return this.lineBytes[line] + Buffer.byteLength(this.text.slice(this.lineStarts[line], offset));
+  }
+}
+
+/**
+ * `path:12-40` (or `path:12` for a single line), `path (pp. 3-4)` for PDF pages - falls back to the bare path without positions
+ */
+export function formatLocation(
+  filePath: string,
+  metadata?: { startLine?: number; endLine?: number; pageStart?: number; pageEnd?: number }
+): string {
+  if (metadata?.pageStart) {
+    const { pageStart, pageEnd = pageStart } = metadata;
+    return pageEnd > pageStart ? `${filePath} (pp. ${pageStart}-${pageEnd})` : `${filePath} (p. ${pageStart})`;
+  }
+  if (!metadata?.startLine) return filePath;
+  const { startLine, endLine = startLine } = metadata;
+  return endLine > startLine ? `${filePath}:${startLine}-${endLine}` : `${filePath}:${startLine}`;
+}
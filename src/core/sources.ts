@@ -0,0 +1,509 @@
+/**
+ * Sources - Where a repository's files come from
+ * GitHub shorthand (owner/repo), any git remote (https, ssh, file://), a local directory, a website
+ * or an llms.txt index
+ * Each source syncs its working directory, reports a revision and lists changes since
+ * the last indexed revision so smart updates work the same for all of them
+ */
+
+import { simpleGit, SimpleGit } from 'simple-git';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { FilePolicy } from './file-policy.js';
+import { FileChange, parseNameStatus } from './git-diff.js';
+import { WebCrawler, CrawlOptions } from './web-crawler.js';
+import { LlmsTxtLoader, LlmsTxtOptions } from './llms-txt.js';
+
+export type SourceType = 'github' | 'git' | 'local' | 'web' | 'llms';
+
+/**
+ * How to authenticate against a private remote - references only, never secrets
+ * Safe to store in .repos/metadata.json: the token itself stays in the environment
+ */
+export interface SourceAuth {
+  tokenEnv?: string; // Name of the env var holding an HTTPS access token - must start with EMBEDOCS_GIT_TOKEN_
+  username?: string; // Sent with the token - 'x-access-token' (GitHub) by default, 'oauth2' for GitLab
+  sshKeyPath?: string; // Private key for ssh:// and git@host: remotes
+  credentialHelper?: string; // git credential helper: 'store', 'cache', 'osxkeychain' or 'manager'
+}
+
+/**
+ * Source fields of a repository entry in .repos/metadata.json
+ */
+export interface SourceConfig {
+  repo: string; // owner/repo, git URL, local path, website start URL / sitemap.xml or llms.txt URL / path
+  type?: SourceType; // Inferred from `repo` when omitted - websites need `web`
+  branch?: string; // Branch, tag or commit - remote default branch when omitted
+  auth?: SourceAuth; // Private remotes only
+  include?: string[]; // gitignore-style globs - see FilePolicy
+  exclude?: string[];
+  subpath?: string; // Only index below this directory, e.g. 'docs'
+  maxPages?: number; // Web and llms.txt sources - page limit, config.web.maxPages by default
+  scope?: string; // Web sources - URL prefix to stay within, the start URL's directory by default
+}
+
+export interface Source {
+  readonly type: SourceType;
+  /** Directory the files are read from */
+  readonly workdir: string;
+  /** Which files of workdir get indexed */
+  readonly filePolicy: FilePolicy;
+  /** Clone or fetch so workdir matches the configured ref */
+  sync(): Promise<void>;
+  /** What's in workdir now - commit hash or manifest hash */
+  revision(): Promise<string>;
+  /** Files changed since a previously indexed revision - null when that revision is unknown */
+  changesSince(revision: string): Promise<FileChange[] | null>;
+  /** Record that the current revision made it into the index */
+  markIndexed(): Promise<void>;
+}
+
+const REPOS_DIR = '.repos';
+const AUTH_KEYS: (keyof SourceAuth)[] = ['tokenEnv', 'username', 'sshKeyPath', 'credentialHelper'];
+// Auth arrives from the web setup too - it must not reach other env vars or run commands through git
+const TOKEN_ENV = /^EMBEDOCS_GIT_TOKEN_[A-Z0-9_]+$/;
+const CREDENTIAL_HELPERS = ['store', 'cache', 'osxkeychain', 'manager'];
+const SSH_KEY_PATH = /^[\w@%+=:,./~-]+$/; // No quotes, spaces or shell syntax - git runs GIT_SSH_COMMAND through sh
+const MANIFESTS_DIR = path.join('.embedocs', 'manifests');
+
+/**
+ * Guess the source type: llms.txt files are indexes, URLs are git remotes, paths are local,
+ * the rest is GitHub shorthand
+ */
+export function inferSourceType(repo: string): SourceType {
+  if (/(^|[/\\])llms(-full)?\.txt$/i.test(repo)) {
+    return 'llms';
+  }
+  if (/^(https?|ssh|git|file):\/\//i.test(repo) || /^[\w.-]+@[\w.-]+:/.test(repo)) {
+    return 'git';
+  }
+  if (/^([/.~]|[a-zA-Z]:[\\/])/.test(repo)) {
+    return 'local';
+  }
+  return 'github';
+}
+
+/**
+ * Filesystem-safe name for a remote or path - used for clone and manifest locations
+ */
+export function sourceSlug(repo: string): string {
+  return repo
+    .replace(/^[a-z+]+:\/\//i, '')
+    .replace(/^[^@/]+@/, '')
+    .replace(/\.git$/, '')
+    .replace(/[^\w.-]+/g, '_')
+    .replace(/^[._]+|_+$/g, '');
+}
+
+/**
+ * Keep only the known reference fields - anything else (like a pasted token) is dropped
+ * Throws for references git must not use - see checkAuth
+ */
+export function sanitizeAuth(auth: any): SourceAuth | undefined {
+  if (!auth || typeof auth !== 'object') return undefined;
+
+  const clean: SourceAuth = {};
+  for (const key of AUTH_KEYS) {
+    if (typeof auth[key] === 'string' && auth[key].trim()) {
+      clean[key] = auth[key].trim();
+    }
+  }
+  checkAuth(clean);
+  return Object.keys(clean).length > 0 ? clean : undefined;
+}
+
+/**
+ * Environment for git commands against a remote
+ * Credentials travel as GIT_CONFIG_* variables (git 2.31+) so they never appear in
+ * argv, `.git/config` or the remote URL
+ */
+export function gitEnvironment(url: string, auth?: SourceAuth): Record<string, string | undefined> {
+  // Never block indexing on a username/password prompt
+  const env: Record<string, string | undefined> = { ...process.env, GIT_TERMINAL_PROMPT: '0' };
+  const settings: [string, string][] = [];
+  if (auth) checkAuth(auth);
+
+  if (auth?.tokenEnv) {
+    const token = process.env[auth.tokenEnv];
+    if (!token) {
+      throw new Error(`Environment variable ${auth.tokenEnv} is not set`);
+    }
+    const basic = Buffer.from(`${auth.username || 'x-access-token'}:${token}`).toString('base64');
+    // Scoped to the remote's origin so the header never leaks to other hosts
+    settings.push([`http.${remoteOrigin(url)}/.extraHeader`, `Authorization: Basic ${basic}`]);
+  }
+
+  if (auth?.credentialHelper) {
+    settings.push(['credential.helper', auth.credentialHelper]);
+  }
+
+  if (auth?.sshKeyPath) {
+    const keyPath = expandHome(auth.sshKeyPath);
+    env.GIT_SSH_COMMAND = `ssh -i '${keyPath}' -o IdentitiesOnly=yes -o BatchMode=yes`;
+  }
+
+  if (settings.length > 0) {
+    env.GIT_CONFIG_COUNT = String(settings.length);
+    settings.forEach(([key, value], idx) => {
+      env[`GIT_CONFIG_KEY_${idx}`] = key;
+      env[`GIT_CONFIG_VALUE_${idx}`] = value;
+    });
+  }
+
+  return env;
+}
+
+/**
+ * Reject auth references that would reach beyond the remote's own credentials:
+ * a token env var other than EMBEDOCS_GIT_TOKEN_*, a custom (shell) credential helper or
+ * an SSH key path with shell syntax
+ */
+function checkAuth(auth: SourceAuth): void {
+  if (auth.tokenEnv && !TOKEN_ENV.test(auth.tokenEnv)) {
+    throw new Error(`Unknown token variable "${auth.tokenEnv}". Use a name starting with EMBEDOCS_GIT_TOKEN_.`);
+  }
+  if (auth.credentialHelper && !CREDENTIAL_HELPERS.includes(auth.credentialHelper)) {
+    throw new Error(`Unknown credential helper "${auth.credentialHelper}". Use ${CREDENTIAL_HELPERS.map(name => `"${name}"`).join(', ')}.`);
+  }
+  if (auth.sshKeyPath && !SSH_KEY_PATH.test(auth.sshKeyPath)) {
+    throw new Error(`Unsupported SSH key path "${auth.sshKeyPath}". Use a path without spaces, quotes or shell characters.`);
+  }
+}
+
+/**
+ * Strip credentials from text headed for logs or API responses
+ * Covers the token itself, its Basic header form and user:password@ in URLs
+ */
+export function redactSecrets(text: string, auth?: SourceAuth): string {
+  let redacted = text.replace(/(\/\/)[^/@\s:]+:[^/@\s]+@/g, '$1***@');
+
+  const token = auth?.tokenEnv ? process.env[auth.tokenEnv] : undefined;
+  if (token) {
+    const basic = Buffer.from(`${auth!.username || 'x-access-token'}:${token}`).toString('base64');
+    redacted = redacted.split(token).join('***').split(basic).join('***');
+  }
+  return redacted;
+}
+
+/**
+ * Create the source for a repository entry
+ */
+export function createSource(config: SourceConfig, filePolicy: FilePolicy = FilePolicy.forRepository(config)): Source {
+  const type = config.type || inferSourceType(config.repo);
+
+  switch (type) {
+    case 'github':
+      // Same clone location as before sources existed - existing clones keep working
+      return new GitSource(
+        `https://github.com/${config.repo}.git`,
+        path.join(REPOS_DIR, config.repo.replace('/', '_')),
+        config.branch,
+        'github',
+        config.auth,
+        filePolicy
+      );
+    case 'git':
+      return new GitSource(
+        config.repo,
+        path.join(REPOS_DIR, sourceSlug(config.repo)),
+        config.branch,
+        'git',
+        config.auth,
+        filePolicy
+      );
+    case 'local':
+      return new LocalDirectorySource(expandHome(config.repo), filePolicy);
+    case 'web':
+      return new WebSource(
+        config.repo,
+        path.join(REPOS_DIR, sourceSlug(config.repo)),
+        filePolicy,
+        { maxPages: config.maxPages, scope: config.scope }
+      );
+    case 'llms':
+      return new LlmsTxtSource(
+        /^https?:\/\//i.test(config.repo) ? config.repo : expandHome(config.repo),
+        path.join(REPOS_DIR, sourceSlug(config.repo)),
+        filePolicy,
+        { maxPages: config.maxPages }
+      );
+  }
+}
+
+/**
+ * Any git remote - shallow-fetches the configured ref into a clone under .repos/
+ */
+export class GitSource implements Source {
+  constructor(
+    readonly url: string,
+    readonly workdir: string,
+    private readonly ref?: string,
+    readonly type: 'github' | 'git' = 'git',
+    private readonly auth?: SourceAuth,
+    readonly filePolicy: FilePolicy = new FilePolicy()
+  ) {}
+
+  async sync(): Promise<void> {
+    try {
+      if (!await exists(path.join(this.workdir, '.git'))) {
+        // Start clean - a half-finished clone from an interrupted run is useless
+        await fs.rm(this.workdir, { recursive: true, force: true });
+        await fs.mkdir(this.workdir, { recursive: true });
+        await this.git().init();
+        await this.git().addRemote('origin', this.url);
+      } else {
+        // The configured URL wins over whatever the clone was made from
+        await this.git().remote(['set-url', 'origin', this.url]);
+      }
+
+      // Fetching the ref directly works for branches, tags and (on most servers) commits
+      await this.git().fetch(['--depth', '1', 'origin', this.ref || 'HEAD']);
+      await this.git().checkout(['--force', '--detach', 'FETCH_HEAD']);
+    } catch (error) {
+      // git errors echo URLs and headers - never let credentials reach the logs
+      throw new Error(redactSecrets(error instanceof Error ? error.message : String(error), this.auth));
+    }
+  }
+
+  async revision(): Promise<string> {
+    return (await this.git().revparse(['HEAD'])).trim();
+  }
+
+  async changesSince(revision: string): Promise<FileChange[] | null> {
+    try {
+      await this.git().raw(['cat-file', '-e', `${revision}^{commit}`]);
+    } catch {
+      return null; // Old commit is gone (fresh clone, force push) - caller re-indexes fully
+    }
+
+    const diff = await this.git().raw(['diff', '--name-status', '-M', '-z', revision, 'HEAD']);
+    return parseNameStatus(diff);
+  }
+
+  async markIndexed(): Promise<void> {
+    // The commit hash is the whole state
+  }
+
+  private git(): SimpleGit {
+    return simpleGit(this.workdir).env(gitEnvironment(this.url, this.auth));
+  }
+}
+
+interface ManifestEntry {
+  size: number;
+  mtimeMs: number;
+  hash: string;
+}
+
+interface Manifest {
+  revision: string;
+  files: Record<string, ManifestEntry>;
+}
+
+/**
+ * A directory on disk - read in place, never cloned
+ * Changes are detected with a manifest of size + mtime, falling back to content hashes,
+ * so uncommitted edits in a local checkout are picked up too
+ */
+export class LocalDirectorySource implements Source {
+  readonly type = 'local' as const;
+  private current?: Manifest;
+
+  constructor(
+    readonly workdir: string,
+    readonly filePolicy: FilePolicy = new FilePolicy(),
+    private readonly manifestDir: string = MANIFESTS_DIR
+  ) {}
+
+  private get manifestPath(): string {
+    return path.join(this.manifestDir, `${sourceSlug(path.resolve(this.workdir))}.json`);
+  }
+
+  async sync(): Promise<void> {
+    const stats = await fs.stat(this.workdir).catch(() => null);
+    if (!stats?.isDirectory()) {
+      throw new Error(`Local source ${this.workdir} is not a directory`);
+    }
+  }
+
+  async revision(): Promise<string> {
+    return (await this.scan()).revision;
+  }
+
+  async changesSince(revision: string): Promise<FileChange[] | null> {
+    const previous = await this.readManifest();
+    if (!previous || previous.revision !== revision) return null;
+
+    const current = await this.scan();
+    const changes: FileChange[] = [];
+
+    for (const [file, entry] of Object.entries(current.files)) {
+      const before = previous.files[file];
+      if (!before) {
+        changes.push({ status: 'A', path: file });
+      } else if (before.hash !== entry.hash) {
+        changes.push({ status: 'M', path: file });
+      }
+    }
+    for (const file of Object.keys(previous.files)) {
+      if (!current.files[file]) {
+        changes.push({ status: 'D', path: file });
+      }
+    }
+
+    return changes;
+  }
+
+  async markIndexed(): Promise<void> {
+    const manifest = await this.scan();
+    await fs.mkdir(this.manifestDir, { recursive: true });
+
+    const tmp = `${this.manifestPath}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(manifest));
+    await fs.rename(tmp, this.manifestPath);
+  }
+
+  /**
+   * Build the manifest once per run - unchanged size + mtime reuses the stored hash
+   */
+  private async scan(): Promise<Manifest> {
+    if (this.current) return this.current;
+
+    const previous = await this.readManifest();
+    const files: Record<string, ManifestEntry> = {};
+
+    for (const file of await this.filePolicy.scan(this.workdir)) {
+      const relativePath = path.relative(this.workdir, file).split(path.sep).join('/');
+      const stats = await fs.stat(file);
+      const before = previous?.files[relativePath];
+
+      const hash = before && before.size === stats.size && before.mtimeMs === stats.mtimeMs
+        ? before.hash
+        : createHash('sha256').update(await fs.readFile(file)).digest('hex');
+
+      files[relativePath] = { size: stats.size, mtimeMs: stats.mtimeMs, hash };
+    }
+
+    const revision = createHash('sha256');
+    for (const file of Object.keys(files).sort()) {
+      revision.update(`${file}\0${files[file].hash}\n`);
+    }
+
+    this.current = { revision: revision.digest('hex'), files };
+    return this.current;
+  }
+
+  private async readManifest(): Promise<Manifest | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.manifestPath, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * A documentation website - crawled into Markdown files under .repos/, one per page
+ * Conditional requests skip unchanged pages; changes are then detected on the files
+ * exactly like a local directory
+ */
+export class WebSource implements Source {
+  readonly type = 'web' as const;
+  private readonly crawler: WebCrawler;
+  private readonly files: LocalDirectorySource;
+
+  constructor(
+    readonly url: string,
+    readonly workdir: string,
+    readonly filePolicy: FilePolicy = new FilePolicy(),
+    options: CrawlOptions = {},
+    manifestDir: string = MANIFESTS_DIR
+  ) {
+    this.crawler = new WebCrawler(url, workdir, path.join(manifestDir, `${sourceSlug(url)}.crawl.json`), options);
+    this.files = new LocalDirectorySource(workdir, filePolicy, manifestDir);
+  }
+
+  async sync(): Promise<void> {
+    await fs.mkdir(this.workdir, { recursive: true });
+    const result = await this.crawler.crawl();
+    console.log(`🌐 Crawled ${this.url}: ${result.fetched} fetched, ${result.unchanged} unchanged, ${result.removed} removed`);
+  }
+
+  revision(): Promise<string> {
+    return this.files.revision();
+  }
+
+  changesSince(revision: string): Promise<FileChange[] | null> {
+    return this.files.changesSince(revision);
+  }
+
+  markIndexed(): Promise<void> {
+    return this.files.markIndexed();
+  }
+}
+
+/**
+ * An llms.txt index - the index and its linked Markdown documents are written under .repos/,
+ * each with its URL as front matter; changes are then detected on the files like a local directory
+ */
+export class LlmsTxtSource implements Source {
+  readonly type = 'llms' as const;
+  private readonly loader: LlmsTxtLoader;
+  private readonly files: LocalDirectorySource;
+
+  constructor(
+    readonly location: string,
+    readonly workdir: string,
+    readonly filePolicy: FilePolicy = new FilePolicy(),
+    options: LlmsTxtOptions = {},
+    manifestDir: string = MANIFESTS_DIR
+  ) {
+    this.loader = new LlmsTxtLoader(location, workdir, path.join(manifestDir, `${sourceSlug(location)}.llms.json`), options);
+    this.files = new LocalDirectorySource(workdir, filePolicy, manifestDir);
+  }
+
+  async sync(): Promise<void> {
+    await fs.mkdir(this.workdir, { recursive: true });
+    const result = await this.loader.load();
+    console.log(`📚 Loaded ${this.location}: ${result.documents} documents, ${result.failed} failed, ${result.removed} removed`);
+  }
+
+  revision(): Promise<string> {
+    return this.files.revision();
+  }
+
+  changesSince(revision: string): Promise<FileChange[] | null> {
+    return this.files.changesSince(revision);
+  }
+
+  markIndexed(): Promise<void> {
+    return this.files.markIndexed();
+  }
+}
+
+/**
+ * scheme://host[:port] of an http(s) remote - header scope for token auth
+ */
+function remoteOrigin(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.protocol}//${parsed.host}`;
+  } catch {
+    return url;
+  }
+}
+
+function expandHome(repo: string): string {
+  return repo.startsWith('~') ? path.join(os.homedir(), repo.slice(1)) : repo;
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
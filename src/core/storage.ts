@@ -5,30 +5,27 @@
 
 import { MongoClient, Db, Collection } from 'mongodb';
 import { config } from '../config/index.js';
+import { selectMMRDocuments } from './mmr.js';
+import { resolveEmbeddingSettings } from './embedding-providers.js';
+import { FILTER_FIELDS, toAtlasSearchFilter } from './search-filters.js';
+import type {
+  Document,
+  RepositoryState,
+  VectorStore,
+  MMRSearchOptions,
+  IndexStatus,
+  StoreStats,
+  NativeFusion,
+  FusedSearchOptions
+} from './vector-store.js';
 
-export interface Document {
-  documentId: string;
-  content: string;
-  embedding: number[];
-  title?: string;
-  product?: string;
-  version?: string;
-  metadata?: Record<string, any>;
-  embeddingModel: string;
-  embeddingDimensions: number;
-  indexedAt: Date;
-}
-
-export interface RepositoryState {
-  repoName: string;
-  commitHash: string;
-  lastIndexed: Date;
-}
+export type { Document, RepositoryState } from './vector-store.js';
 
-export class StorageService {
+export class StorageService implements VectorStore {
   private static instance: StorageService;
   private client: MongoClient | null = null;
   private db: Db | null = null;
+  private nativeFusion: NativeFusion[] = [];
   
   private constructor() {}
   
@@ -57,9 +54,20 @@ export class StorageService {
     
     // CRITICAL: Ensure BOTH indexes exist AND are ready before proceeding
     console.log('🔍 Checking search indexes...');
-    await this.ensureVectorIndex();
+    await this.ensureVectorIndex(resolveEmbeddingSettings().dimensions);
     await this.ensureTextIndex();
     console.log('✅ All search indexes are READY!');
+
+    // Smart updates look up chunks by owning file
+    await this.getCollection().createIndex(
+      { 'metadata.repo': 1, 'metadata.path': 1 },
+      { name: 'file_ownership' }
+    );
+
+    this.nativeFusion = await this.detectNativeFusion();
+    console.log(this.nativeFusion.length > 0
+      ? `🔀 Server-side fusion available: ${this.nativeFusion.map(stage => `$${stage}`).join(', ')}`
+      : '🔀 No server-side fusion - hybrid search fuses results client-side');
   }
   
   async disconnect(): Promise<void> {
@@ -94,6 +102,60 @@ export class StorageService {
     }
   }
   
+  /**
+   * Replace every chunk owned by the given files in one transaction
+   * Readers never see a file with both old and new chunks
+   */
+  async replaceFileChunks(repo: string, paths: string[], documents: Document[]): Promise<void> {
+    if (paths.length === 0 && documents.length === 0) return;
+
+    const collection = this.getCollection();
+    const session = this.client!.startSession();
+
+    try {
+      await session.withTransaction(async () => {
+        if (paths.length > 0) {
+          await collection.deleteMany(
+            { 'metadata.repo': repo, 'metadata.path': { $in: paths } },
+            { session }
+          );
+        }
+
+        if (documents.length > 0) {
+          await collection.bulkWrite(documents.map(doc => ({
+            updateOne: {
+              filter: { documentId: doc.documentId },
+              update: { $set: doc },
+              upsert: true
+            }
+          })), { ordered: false, session });
+        }
+      });
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  /**
+   * Purge chunks of deleted (or renamed-away) files
+   */
+  async deleteFileChunks(repo: string, paths: string[]): Promise<number> {
+    if (paths.length === 0) return 0;
+
+    const collection = this.getCollection();
+    const result = await collection.deleteMany({ 'metadata.repo': repo, 'metadata.path': { $in: paths } });
+    return result.deletedCount;
+  }
+
+  /**
+   * Purge chunks a full index did not write - a missing metadata.path is never $in the list
+   */
+  async deleteStaleChunks(repo: string, paths: string[]): Promise<number> {
+    const collection = this.getCollection();
+    const result = await collection.deleteMany({ 'metadata.repo': repo, 'metadata.path': { $nin: paths } });
+    return result.deletedCount;
+  }
+
   /**
    * Clean the database
    */
@@ -121,16 +183,7 @@ export class StorageService {
     const collection = this.getCollection();
     
     const pipeline: any[] = [
-      {
-        $vectorSearch: {
-          index: config.storage.vectorIndexName,
-          path: 'embedding',
-          queryVector: embedding,
-          numCandidates: config.search.numCandidates,
-          limit,
-          ...(filter && { filter })
-        }
-      },
+      vectorSearchStage(embedding, limit, config.search.numCandidates, filter),
       {
         $addFields: {
           searchScore: { $meta: 'vectorSearchScore' }
@@ -153,33 +206,22 @@ export class StorageService {
    */
   async vectorSearchMMR(
     embedding: number[],
-    options: {
-      limit?: number;
-      fetchK?: number;
-      lambdaMult?: number;
-      filter?: any;
-    } = {}
+    options: MMRSearchOptions = {}
   ): Promise<Document[]> {
     const collection = this.getCollection();
-    const { limit = 10, fetchK = 20, lambdaMult = 0.7, filter } = options;
+    const { limit = 10, fetchK = 20, lambdaMult = 0.7, filter, minScore = 0 } = options;
     
     // Step 1: Fetch more candidates than needed (fetchK)
     const pipeline: any[] = [
-      {
-        $vectorSearch: {
-          index: config.storage.vectorIndexName,
-          path: 'embedding',
-          queryVector: embedding,
-          numCandidates: Math.max(fetchK * 2, 100), // Ensure enough candidates
-          limit: fetchK,
-          ...(filter && { filter })
-        }
-      },
+      vectorSearchStage(embedding, fetchK, Math.max(fetchK * 2, 100), filter), // Ensure enough candidates
       {
         $addFields: {
           searchScore: { $meta: 'vectorSearchScore' }
         }
       },
+      {
+        $match: { searchScore: { $gte: minScore } } // Weak matches must not win on diversity
+      },
       {
         $project: {
           embedding: 1, // Keep embeddings for MMR calculation
@@ -196,122 +238,24 @@ export class StorageService {
     const candidates = await collection.aggregate<Document>(pipeline).toArray();
     
     // Step 2: Apply MMR selection algorithm
-    return this.selectMMRDocuments(candidates, embedding, limit, lambdaMult);
-  }
-
-  /**
-   * MMR selection algorithm
-   * Based on the standard MMR formula: λ * relevance - (1-λ) * max_similarity_to_selected
-   */
-  private selectMMRDocuments(
-    candidates: Document[],
-    _queryEmbedding: number[],
-    limit: number,
-    lambdaMult: number
-  ): Document[] {
-    if (candidates.length === 0) return [];
-    
-    const selected: Document[] = [];
-    const remaining = [...candidates];
-    
-    // Step 1: Select the most relevant document first
-    const firstDoc = remaining.shift()!;
-    selected.push(firstDoc);
-
-    // Step 2: Iteratively select documents using MMR
-    while (selected.length < limit && remaining.length > 0) {
-      let bestDoc: Document | null = null;
-      let bestScore = -Infinity;
-      let bestIndex = -1;
-
-      for (let i = 0; i < remaining.length; i++) {
-        const candidate = remaining[i];
-        
-        // Calculate relevance score (already from vector search)
-        const relevanceScore = (candidate as any).searchScore || 0;
-        
-        // Calculate max similarity to already selected documents
-        let maxSimilarity = 0;
-        for (const selectedDoc of selected) {
-          if (selectedDoc.embedding && candidate.embedding) {
-            const similarity = this.cosineSimilarity(
-              candidate.embedding,
-              selectedDoc.embedding
-            );
-            maxSimilarity = Math.max(maxSimilarity, similarity);
-          }
-        }
-        
-        // MMR score: λ * relevance - (1-λ) * max_similarity
-        const mmrScore = lambdaMult * relevanceScore - (1 - lambdaMult) * maxSimilarity;
-        
-        if (mmrScore > bestScore) {
-          bestScore = mmrScore;
-          bestDoc = candidate;
-          bestIndex = i;
-        }
-      }
-      
-      if (bestDoc) {
-        selected.push(bestDoc);
-        remaining.splice(bestIndex, 1);
-      } else {
-        break;
-      }
-    }
-    
-    // Remove embeddings from final results to save bandwidth
-    return selected.map(doc => {
-      const { embedding: _, ...docWithoutEmbedding } = doc;
-      return docWithoutEmbedding as Document;
-    });
+    return selectMMRDocuments(candidates, limit, lambdaMult);
   }
 
-  /**
-   * Calculate cosine similarity between two vectors
-   */
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) return 0;
-    
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
-    
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
-    }
-    
-    const magnitude = Math.sqrt(normA) * Math.sqrt(normB);
-    return magnitude === 0 ? 0 : dotProduct / magnitude;
-  }
-  
   /**
    * Keyword search using MongoDB Atlas Search
    * Based on: https://github.com/JohnGUnderwood/atlas-hybrid-search
+   * @param filter - Same MongoDB query as vectorSearch, applied as compound filter clauses
    */
   async keywordSearch(
     query: string,
-    limit: number = 10
+    limit: number = 10,
+    filter?: any
   ): Promise<Document[]> {
     const collection = this.getCollection();
-    
+
     // Use MongoDB Atlas Search with text index
     const pipeline: any[] = [
-      {
-        $search: {
-          index: 'text_index',
-          text: {
-            query: query,
-            path: ['content', 'title'],
-            fuzzy: {
-              maxEdits: 2,
-              prefixLength: 3
-            }
-          }
-        }
-      },
+      textSearchStage(query, filter),
       {
         $limit: limit
       },
@@ -332,21 +276,82 @@ export class StorageService {
     } catch (error) {
       // Fallback to regex search if Atlas Search is not available
       console.warn('Atlas Search failed, falling back to regex search:', error);
-      return collection.find({
+      const matches = {
         $or: [
           { content: { $regex: query, $options: 'i' } },
           { title: { $regex: query, $options: 'i' } }
         ]
-      })
+      };
+      return collection.find(filter ? { $and: [matches, filter] } : matches)
       .limit(limit)
       .toArray();
     }
   }
   
+  getNativeFusion(): NativeFusion[] {
+    return [...this.nativeFusion];
+  }
+
+  /**
+   * Hybrid search as one aggregation - $rankFusion or $scoreFusion over $vectorSearch and $search
+   * A stage the server rejects is not tried again until the next connect
+   */
+  async fusedSearch(
+    embedding: number[],
+    query: string,
+    options: FusedSearchOptions
+  ): Promise<Document[]> {
+    const collection = this.getCollection();
+    const { fusion, limit = 10, filter, minVectorScore, minKeywordScore } = options;
+
+    const pipeline: any[] = [
+      fusionStage(fusion, {
+        vector: [
+          vectorSearchStage(embedding, limit, Math.max(config.search.numCandidates, limit), filter),
+          ...minScoreStage('vectorSearchScore', minVectorScore)
+        ],
+        keyword: [textSearchStage(query, filter), ...minScoreStage('searchScore', minKeywordScore), { $limit: limit }]
+      }, options),
+      {
+        $limit: limit
+      },
+      {
+        $addFields: {
+          searchScore: { $meta: 'score' }
+        }
+      },
+      {
+        $project: {
+          embedding: 0 // Exclude embeddings from results
+        }
+      }
+    ];
+
+    try {
+      return await collection.aggregate<Document>(pipeline).toArray();
+    } catch (error) {
+      this.nativeFusion = this.nativeFusion.filter(stage => stage !== fusion);
+      throw error;
+    }
+  }
+
+  /**
+   * Fusion stages the connected server supports, by version - none when it can't be read
+   */
+  private async detectNativeFusion(): Promise<NativeFusion[]> {
+    try {
+      const { version } = await this.db!.command({ buildInfo: 1 });
+      return nativeFusionFor(String(version));
+    } catch {
+      return [];
+    }
+  }
+
   /**
    * Ensure vector index exists and is READY
+   * @param numDimensions - Vector size of the active embedding provider
    */
-  private async ensureVectorIndex(): Promise<void> {
+  private async ensureVectorIndex(numDimensions: number): Promise<void> {
     const collection = this.getCollection();
     
     try {
@@ -358,22 +363,33 @@ export class StorageService {
         await collection.createSearchIndex({
           name: config.storage.vectorIndexName,
           type: 'vectorSearch',
-          definition: {
-            fields: [
-              {
-                type: 'vector',
-                path: 'embedding',
-                numDimensions: config.embedding.dimensions,
-                similarity: 'cosine',
-              },
-            ],
-          },
+          definition: vectorIndexDefinition(numDimensions),
         });
         
         // CRITICAL: Wait for index to be READY (not just created)
         console.log(`⏳ Waiting for vector index to be ready...`);
         await this.waitForIndexReady(config.storage.vectorIndexName);
-        console.log(`✅ Vector index is READY with ${config.embedding.dimensions} dimensions`);
+        console.log(`✅ Vector index is READY with ${numDimensions} dimensions`);
+        return;
+      }
+      
+      // Switching providers changes the vector size - the old index can't serve new embeddings
+      const indexedDimensions = (existingIndex as any).latestDefinition?.fields
+        ?.find((f: any) => f.type === 'vector')?.numDimensions;
+      if (indexedDimensions && indexedDimensions !== numDimensions) {
+        console.warn(`⚠️ Vector index has ${indexedDimensions} dimensions but the embedding provider produces ${numDimensions}.`);
+        console.warn('   Drop the index and run "rebuild" after switching embedding providers.');
+      }
+
+      // Indexes created before search filters existed can't filter - add the fields in place
+      const filterPaths = new Set(((existingIndex as any).latestDefinition?.fields || [])
+        .filter((f: any) => f.type === 'filter')
+        .map((f: any) => f.path));
+      if ([...FILTER_FIELDS.strings, ...FILTER_FIELDS.booleans].some(field => !filterPaths.has(field))) {
+        console.log(`🔨 Adding filter fields to the vector search index...`);
+        await collection.updateSearchIndex(config.storage.vectorIndexName, vectorIndexDefinition(indexedDimensions || numDimensions));
+        await this.waitForIndexReady(config.storage.vectorIndexName);
+        console.log(`✅ Vector index now has the filter fields`);
       } else if ((existingIndex as any).status !== 'READY') {
         console.log(`⏳ Vector index exists but not ready (status: ${(existingIndex as any).status}). Waiting...`);
         await this.waitForIndexReady(config.storage.vectorIndexName);
@@ -428,47 +444,19 @@ export class StorageService {
         console.log(`🔨 Creating text search index (this takes 1-2 minutes)...`);
         await collection.createSearchIndex({
           name: 'text_index',
-          definition: {
-            mappings: {
-              dynamic: false,
-              fields: {
-                content: {
-                  type: 'string',
-                  analyzer: 'lucene.english',
-                  multi: {
-                    standardAnalyzer: {
-                      type: 'string',
-                      analyzer: 'lucene.standard'
-                    }
-                  }
-                },
-                title: {
-                  type: 'string',
-                  analyzer: 'lucene.standard',
-                  multi: {
-                    keywordAnalyzer: {
-                      type: 'string',
-                      analyzer: 'lucene.keyword'
-                    }
-                  }
-                },
-                product: {
-                  type: 'string',
-                  analyzer: 'lucene.keyword'
-                },
-                version: {
-                  type: 'string',
-                  analyzer: 'lucene.keyword'
-                }
-              }
-            }
-          }
+          definition: textIndexDefinition()
         });
         
         // CRITICAL: Wait for index to be READY (not just created)
         console.log(`⏳ Waiting for text index to be ready...`);
         await this.waitForIndexReady('text_index');
         console.log(`✅ Text index is READY for keyword search`);
+      } else if (!(existingIndex as any).latestDefinition?.mappings?.fields?.metadata) {
+        // Created before search filters existed - add the filter fields in place
+        console.log(`🔨 Adding filter fields to the text search index...`);
+        await collection.updateSearchIndex('text_index', textIndexDefinition());
+        await this.waitForIndexReady('text_index');
+        console.log(`✅ Text index now has the filter fields`);
       } else if ((existingIndex as any).status !== 'READY') {
         console.log(`⏳ Text index exists but not ready (status: ${(existingIndex as any).status}). Waiting...`);
         await this.waitForIndexReady('text_index');
@@ -519,7 +507,7 @@ export class StorageService {
   /**
    * Check if all indexes are ready
    */
-  async checkIndexesReady(): Promise<{ ready: boolean; details: any[] }> {
+  async checkIndexesReady(): Promise<IndexStatus> {
     const collection = this.getCollection();
     try {
       const indexes = await collection.listSearchIndexes().toArray();
@@ -543,7 +531,7 @@ export class StorageService {
   /**
    * Get statistics
    */
-  async getStats(): Promise<any> {
+  async getStats(): Promise<StoreStats> {
     const collection = this.getCollection();
     
     const [total, products, models] = await Promise.all([
@@ -553,11 +541,12 @@ export class StorageService {
     ]);
     
     return {
+      backend: 'mongodb',
       totalDocuments: total,
-      products,
+      products: products as string[],
       models,
-      expectedDimensions: config.embedding.dimensions,
-      expectedModel: config.embedding.model
+      expectedDimensions: resolveEmbeddingSettings().dimensions,
+      expectedModel: resolveEmbeddingSettings().model
     };
   }
 
@@ -596,4 +585,155 @@ export class StorageService {
     const collection = this.getCollection();
     return collection.countDocuments({ product });
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Fusion stages a MongoDB version runs - $rankFusion since 8.1, $scoreFusion since 8.2
+ */
+export function nativeFusionFor(version: string): NativeFusion[] {
+  const [major = 0, minor = 0] = version.split('.').map(part => parseInt(part, 10) || 0);
+  const at = (wantMajor: number, wantMinor: number) => major > wantMajor || (major === wantMajor && minor >= wantMinor);
+
+  return [
+    ...(at(8, 1) ? ['rankFusion' as const] : []),
+    ...(at(8, 2) ? ['scoreFusion' as const] : [])
+  ];
+}
+
+/**
+ * $rankFusion / $scoreFusion stage over named input pipelines
+ * $rankFusion fixes the RRF constant at 60; $scoreFusion averages normalized scores
+ */
+export function fusionStage(
+  fusion: NativeFusion,
+  pipelines: { vector: any[]; keyword: any[] },
+  weights: { vectorWeight: number; keywordWeight: number }
+): Record<string, any> {
+  const combinationWeights = { vector: weights.vectorWeight, keyword: weights.keywordWeight };
+
+  if (fusion === 'scoreFusion') {
+    return {
+      $scoreFusion: {
+        input: { pipelines, normalization: config.search.fusion.normalization },
+        combination: { weights: combinationWeights, method: 'avg' }
+      }
+    };
+  }
+  return {
+    $rankFusion: {
+      input: { pipelines },
+      combination: { weights: combinationWeights }
+    }
+  };
+}
+
+function vectorSearchStage(embedding: number[], limit: number, numCandidates: number, filter?: any) {
+  return {
+    $vectorSearch: {
+      index: config.storage.vectorIndexName,
+      path: 'embedding',
+      queryVector: embedding,
+      numCandidates,
+      limit,
+      ...(filter && { filter })
+    }
+  };
+}
+
+/**
+ * $match on an input pipeline's own score - fusion inputs allow no $addFields
+ */
+function minScoreStage(meta: 'vectorSearchScore' | 'searchScore', min?: number): any[] {
+  return min === undefined ? [] : [{ $match: { $expr: { $gte: [{ $meta: meta }, min] } } }];
+}
+
+/**
+ * $search over content and title, with the search filters as compound filter clauses
+ */
+function textSearchStage(query: string, filter?: any) {
+  const text = {
+    query: query,
+    path: ['content', 'title'],
+    fuzzy: {
+      maxEdits: 2,
+      prefixLength: 3
+    }
+  };
+  const filterClauses = toAtlasSearchFilter(filter);
+
+  return {
+    $search: {
+      index: 'text_index',
+      ...(filterClauses.length > 0
+        ? { compound: { must: [{ text }], filter: filterClauses } }
+        : { text })
+    }
+  };
+}
+
+/**
+ * Vector index - the embedding plus every field search filters use
+ */
+function vectorIndexDefinition(numDimensions: number) {
+  return {
+    fields: [
+      {
+        type: 'vector',
+        path: 'embedding',
+        numDimensions,
+        similarity: 'cosine',
+      },
+      ...[...FILTER_FIELDS.strings, ...FILTER_FIELDS.booleans].map(path => ({ type: 'filter', path })),
+    ],
+  };
+}
+
+/**
+ * Text index - analyzed content and title, filter fields as tokens and booleans
+ * Based on: https://github.com/JohnGUnderwood/atlas-hybrid-search/blob/main/create-search-indexes.mjs
+ */
+function textIndexDefinition() {
+  const keyword = { type: 'string', analyzer: 'lucene.keyword' };
+  const token = { type: 'token' };
+
+  return {
+    mappings: {
+      dynamic: false,
+      fields: {
+        content: {
+          type: 'string',
+          analyzer: 'lucene.english',
+          multi: {
+            standardAnalyzer: {
+              type: 'string',
+              analyzer: 'lucene.standard'
+            }
+          }
+        },
+        title: {
+          type: 'string',
+          analyzer: 'lucene.standard',
+          multi: {
+            keywordAnalyzer: {
+              type: 'string',
+              analyzer: 'lucene.keyword'
+            }
+          }
+        },
+        product: [keyword, token],
+        version: [keyword, token],
+        metadata: {
+          type: 'document',
+          dynamic: false,
+          fields: {
+            repo: token,
+            fileType: token,
+            path: token,
+            dirs: token,
+            hasCode: { type: 'boolean' }
+          }
+        }
+      }
+    }
+  };
+}
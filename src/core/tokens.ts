@@ -0,0 +1,14 @@
+/**
+ * Token counting - one shared js-tiktoken encoder for chunk sizing and chunk metadata
+ */
+
+import { getEncoding } from 'js-tiktoken';
+
+let encoder: ReturnType<typeof getEncoding> | null = null;
+
+export function countTokens(text: string): number {
+  if (!encoder) {
+    encoder = getEncoding('gpt2'); // Same encoding the semantic chunker sizes chunks with
+  }
+  return encoder.encode(text).length;
+}
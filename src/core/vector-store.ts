@@ -0,0 +1,132 @@
+/**
+ * VectorStore - The storage contract every backend implements
+ * Indexer, SearchService and the MCP server only talk to this interface
+ */
+
+import { config } from '../config/index.js';
+import { StorageService } from './storage.js';
+import { LocalVectorStore } from './local-store.js';
+
+export interface Document {
+  documentId: string;
+  content: string;
+  contentHash?: string; // SHA-256 of content - embedding cache key
+  embedding: number[];
+  title?: string;
+  product?: string;
+  version?: string;
+  metadata?: Record<string, any>;
+  embeddingModel: string;
+  embeddingDimensions: number;
+  indexedAt: Date;
+}
+
+export interface RepositoryState {
+  repoName: string;
+  commitHash: string;
+  lastIndexed: Date;
+}
+
+export interface MMRSearchOptions {
+  limit?: number;
+  fetchK?: number;
+  lambdaMult?: number;
+  filter?: any;
+  minScore?: number; // Candidates below this vector score are dropped before MMR selection
+}
+
+/**
+ * Server-side hybrid search stages - $rankFusion (reciprocal rank) and $scoreFusion (normalized scores)
+ */
+export type NativeFusion = 'rankFusion' | 'scoreFusion';
+
+export interface FusedSearchOptions {
+  fusion: NativeFusion;
+  limit?: number;
+  filter?: any;
+  vectorWeight: number;
+  keywordWeight: number;
+  minVectorScore?: number; // Drop vector leg results below this score
+  minKeywordScore?: number; // Drop keyword leg results below this score
+}
+
+export interface IndexStatus {
+  ready: boolean;
+  details: Array<{ name: string; status: string }>;
+}
+
+export interface StoreStats {
+  backend: StorageBackend;
+  totalDocuments: number;
+  products: string[];
+  models: string[];
+  expectedDimensions: number;
+  expectedModel: string;
+}
+
+export interface VectorStore {
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  upsertDocuments(documents: Document[]): Promise<void>;
+  /**
+   * Atomically swap all chunks owned by (repo, path) for the given documents
+   * Paths without new documents are purged
+   */
+  replaceFileChunks(repo: string, paths: string[], documents: Document[]): Promise<void>;
+  deleteFileChunks(repo: string, paths: string[]): Promise<number>;
+  /**
+   * Purge a repository's chunks outside the given files - files that are gone, and chunks
+   * stored before chunks carried a path
+   */
+  deleteStaleChunks(repo: string, paths: string[]): Promise<number>;
+  clean(): Promise<void>;
+  count(filter?: any): Promise<number>;
+  vectorSearch(embedding: number[], limit?: number, filter?: any): Promise<Document[]>;
+  vectorSearchMMR(embedding: number[], options?: MMRSearchOptions): Promise<Document[]>;
+  keywordSearch(query: string, limit?: number, filter?: any): Promise<Document[]>;
+  /**
+   * Fusion stages the server runs - detected on connect, empty when hybrid search must fuse client-side
+   */
+  getNativeFusion(): NativeFusion[];
+  /**
+   * Vector and keyword search fused in one server-side pipeline
+   */
+  fusedSearch(embedding: number[], query: string, options: FusedSearchOptions): Promise<Document[]>;
+  storeRepositoryHash(repoName: string, commitHash: string): Promise<void>;
+  getRepositoryHash(repoName: string): Promise<string | null>;
+  checkIndexesReady(): Promise<IndexStatus>;
+  getStats(): Promise<StoreStats>;
+  fetchFileChunks(filename: string, product: string): Promise<Document[]>;
+  countByProduct(product: string): Promise<number>;
+}
+
+export type StorageBackend = 'mongodb' | 'local';
+
+/**
+ * Resolve the configured backend - EMBEDOCS_STORAGE wins over config
+ */
+export function getStorageBackend(): StorageBackend {
+  const backend: string = process.env.EMBEDOCS_STORAGE || config.storage.backend;
+
+  if (backend === 'mongodb' || backend === 'local') {
+    return backend;
+  }
+
+  throw new Error(`Unknown storage backend "${backend}". Use "mongodb" or "local".`);
+}
+
+let localStore: LocalVectorStore | null = null;
+
+/**
+ * Get the active vector store for this process
+ */
+export function getVectorStore(): VectorStore {
+  if (getStorageBackend() === 'local') {
+    if (!localStore) {
+      localStore = new LocalVectorStore(process.env.EMBEDOCS_LOCAL_PATH || config.storage.localPath);
+    }
+    return localStore;
+  }
+
+  return StorageService.getInstance();
+}
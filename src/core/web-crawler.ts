@@ -0,0 +1,512 @@
+/**
+ * Web Crawler - Documentation websites as Markdown files on disk
+ *
+ * Crawls from a start page (following links) or a sitemap.xml (its pages only), staying on the
+ * start URL's origin and below its directory (or an explicit scope prefix). robots.txt rules and
+ * Crawl-delay are honored and the crawl stops at a page limit.
+ *
+ * Each page's main content becomes a Markdown file - headings, paragraphs, lists, tables and
+ * code blocks, with navigation, headers, footers and scripts dropped - and its title and URL
+ * go into front matter. ETag and Last-Modified are remembered per page, so a refresh sends
+ * conditional requests and unchanged pages (304) are neither downloaded nor rewritten.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { load, CheerioAPI } from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import { stringify as stringifyYaml } from 'yaml';
+import { config } from '../config/index.js';
+
+export interface CrawlOptions {
+  maxPages?: number;
+  scope?: string; // URL prefix every page must start with - the start URL's directory by default
+  userAgent?: string;
+  timeoutMs?: number;
+}
+
+export interface CrawlResult {
+  fetched: number; // Downloaded and converted
+  unchanged: number; // Answered 304 Not Modified
+  removed: number; // Gone since the last crawl (404, out of scope, disallowed, over the limit)
+  files: string[]; // Page files in the output directory, relative
+}
+
+export interface ExtractedPage {
+  title: string;
+  markdown: string;
+  links: string[]; // Absolute http(s) URLs, fragments removed
+  noindex: boolean; // <meta name="robots" content="noindex">
+}
+
+interface PageState {
+  file: string; // Relative to the output directory
+  etag?: string;
+  lastModified?: string;
+  links: string[]; // Followed again when the page answers 304
+}
+
+interface CrawlState {
+  startUrl: string;
+  pages: Record<string, PageState>; // URL -> state
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number; // Longest match wins
+}
+
+// Links to these are never pages
+const ASSET_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp|ico|bmp|pdf|zip|gz|tgz|tar|7z|rar|exe|dmg|msi|deb|rpm|mp3|mp4|webm|mov|avi|woff2?|ttf|eot|otf|css|js|mjs|map|json|xml|rss|atom|wasm)$/i;
+
+const REMOVED_ELEMENTS = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'form', 'button', 'nav', 'aside', 'dialog',
+  '[role="navigation"]', '[role="search"]', '[aria-hidden="true"]', '[hidden]', '.headerlink', '.sidebar', '.toc', '.breadcrumbs'
+].join(', ');
+const PAGE_CHROME = 'header, footer, [role="banner"], [role="contentinfo"]';
+const MAIN_CONTENT = ['main', '[role="main"]', 'article', '#content', '.content', '.markdown-body', '.document', '.documentation'];
+
+const MAX_SITEMAP_DEPTH = 3;
+
+export class WebCrawler {
+  private readonly maxPages: number;
+  private readonly scope: string;
+  private readonly userAgent: string;
+  private readonly timeoutMs: number;
+
+  /**
+   * @param startUrl - First page, or a sitemap.xml
+   * @param outputDir - Where page files are written - owned by the crawler, stale files are deleted
+   * @param statePath - ETags, Last-Modified and links of the previous crawl
+   */
+  constructor(
+    readonly startUrl: string,
+    private readonly outputDir: string,
+    private readonly statePath: string,
+    options: CrawlOptions = {}
+  ) {
+    this.maxPages = options.maxPages ?? config.web.maxPages;
+    this.scope = options.scope ?? defaultScope(startUrl);
+    this.userAgent = options.userAgent ?? config.web.userAgent;
+    this.timeoutMs = options.timeoutMs ?? config.web.timeoutMs;
+  }
+
+  async crawl(): Promise<CrawlResult> {
+    const previous = await this.readState();
+    const robots = await this.fetchRobots();
+    const delay = Math.min(robots.crawlDelayMs, config.web.maxCrawlDelayMs);
+
+    // A sitemap lists every page - links are only followed when crawling from a page
+    const fromSitemap = isSitemap(this.startUrl);
+    const queue = fromSitemap ? await this.sitemapPages(this.startUrl, 0) : [normalizeUrl(this.startUrl)];
+    const seen = new Set<string>();
+    const pages: Record<string, PageState> = {};
+    const owners = new Map<string, string>(); // File -> URL - first page wins a file name
+    const result: CrawlResult = { fetched: 0, unchanged: 0, removed: 0, files: [] };
+    let requests = 0;
+
+    while (queue.length > 0 && Object.keys(pages).length < this.maxPages) {
+      const url = queue.shift()!;
+      if (seen.has(url)) continue;
+      seen.add(url);
+      if (!this.inScope(url) || !robots.isAllowed(url)) continue;
+
+      const file = pageFile(url);
+      if (owners.has(file)) continue;
+
+      if (requests++ > 0 && delay > 0) await sleep(delay);
+      const before = previous.pages[url];
+      const cached = before && await exists(path.join(this.outputDir, before.file)) ? before : undefined;
+
+      let response: Response;
+      try {
+        response = await this.fetch(url, {
+          ...(cached?.etag && { 'If-None-Match': cached.etag }),
+          ...(cached?.lastModified && { 'If-Modified-Since': cached.lastModified })
+        });
+      } catch (error) {
+        // A flaky request keeps the page from the last crawl rather than dropping it
+        console.warn(`⚠️ Could not fetch ${url}:`, error instanceof Error ? error.message : error);
+        if (cached) {
+          pages[url] = cached;
+          owners.set(cached.file, url);
+        }
+        continue;
+      }
+
+      if (response.status === 304 && cached) {
+        pages[url] = cached;
+        owners.set(cached.file, url);
+        result.unchanged++;
+        if (!fromSitemap) queue.push(...cached.links);
+        continue;
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      if (!response.ok || !/html/i.test(contentType) || !this.inScope(normalizeUrl(response.url || url))) {
+        await response.body?.cancel();
+        continue;
+      }
+
+      const page = htmlToMarkdown(await response.text(), response.url || url);
+      const links = page.links.filter(link => this.inScope(link));
+      if (!fromSitemap) queue.push(...links);
+      if (page.noindex || !page.markdown.trim()) continue;
+
+      await writeMarkdownPage(path.join(this.outputDir, file), { title: page.title || url, url }, page.markdown);
+      pages[url] = {
+        file,
+        ...(response.headers.get('etag') && { etag: response.headers.get('etag')! }),
+        ...(response.headers.get('last-modified') && { lastModified: response.headers.get('last-modified')! }),
+        links
+      };
+      owners.set(file, url);
+      result.fetched++;
+    }
+
+    // Pages that are gone lose their files
+    for (const [url, state] of Object.entries(previous.pages)) {
+      if (pages[url] || owners.has(state.file)) continue;
+      await fs.rm(path.join(this.outputDir, state.file), { force: true });
+      result.removed++;
+    }
+
+    await this.writeState({ startUrl: this.startUrl, pages });
+    result.files = [...owners.keys()].sort();
+    return result;
+  }
+
+  /**
+   * Same origin, below the scope prefix
+   */
+  private inScope(url: string): boolean {
+    return url.startsWith(this.scope) || `${url}/` === this.scope;
+  }
+
+  /**
+   * Page URLs of a sitemap, following sitemap indexes a few levels deep
+   */
+  private async sitemapPages(url: string, depth: number): Promise<string[]> {
+    const response = await this.fetch(url);
+    if (!response.ok) {
+      throw new Error(`Sitemap ${url} returned ${response.status}`);
+    }
+
+    const { pages, sitemaps } = parseSitemap(await response.text());
+    const nested: string[] = [];
+    if (depth < MAX_SITEMAP_DEPTH) {
+      for (const sitemap of sitemaps) {
+        nested.push(...await this.sitemapPages(sitemap, depth + 1));
+      }
+    }
+    return [...pages, ...nested].map(normalizeUrl);
+  }
+
+  /**
+   * robots.txt of the start URL's origin - missing (4xx) allows everything, unreachable (5xx) stops the crawl
+   */
+  private async fetchRobots(): Promise<RobotsRules> {
+    const robotsUrl = new URL('/robots.txt', this.startUrl).toString();
+    let response: Response;
+    try {
+      response = await this.fetch(robotsUrl);
+    } catch (error) {
+      throw new Error(`Could not fetch ${robotsUrl}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (response.status >= 500) {
+      throw new Error(`${robotsUrl} returned ${response.status} - not crawling until it is reachable`);
+    }
+    return response.ok ? new RobotsRules(await response.text(), this.userAgent) : new RobotsRules('', this.userAgent);
+  }
+
+  private fetch(url: string, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(url, {
+      headers: { 'User-Agent': this.userAgent, ...headers },
+      redirect: 'follow',
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+  }
+
+  private async readState(): Promise<CrawlState> {
+    try {
+      const state = JSON.parse(await fs.readFile(this.statePath, 'utf-8'));
+      return state.startUrl === this.startUrl ? state : { startUrl: this.startUrl, pages: {} };
+    } catch {
+      return { startUrl: this.startUrl, pages: {} };
+    }
+  }
+
+  private async writeState(state: CrawlState): Promise<void> {
+    await fs.mkdir(path.dirname(this.statePath), { recursive: true });
+
+    const tmp = `${this.statePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(state));
+    await fs.rename(tmp, this.statePath);
+  }
+}
+
+/**
+ * robots.txt rules for one user-agent (RFC 9309)
+ * The most specific matching group applies (`*` otherwise); the longest matching rule wins, Allow on ties
+ */
+export class RobotsRules {
+  private readonly rules: RobotsRule[] = [];
+  readonly crawlDelayMs: number = 0;
+
+  constructor(text: string, userAgent: string) {
+    const agent = userAgent.toLowerCase().split('/')[0];
+    const groups: { agents: string[]; rules: RobotsRule[]; crawlDelayMs: number }[] = [];
+    let current: (typeof groups)[number] | undefined;
+    let collectingAgents = false;
+
+    for (const raw of text.split(/\r\n?|\n/)) {
+      const line = raw.replace(/#.*/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator < 0) continue;
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (field === 'user-agent') {
+        if (!collectingAgents) {
+          current = { agents: [], rules: [], crawlDelayMs: 0 };
+          groups.push(current);
+        }
+        current!.agents.push(value.toLowerCase());
+        collectingAgents = true;
+        continue;
+      }
+
+      collectingAgents = false;
+      if (!current) continue;
+      if ((field === 'allow' || field === 'disallow') && value) {
+        current.rules.push({ allow: field === 'allow', pattern: robotsPattern(value), length: value.length });
+      } else if (field === 'crawl-delay' && Number(value) > 0) {
+        current.crawlDelayMs = Number(value) * 1000;
+      }
+    }
+
+    // Longest agent token contained in our user-agent, `*` as the fallback
+    const matching = groups
+      .flatMap(group => group.agents.map(token => ({ token, group })))
+      .filter(({ token }) => token !== '*' && agent.includes(token))
+      .sort((a, b) => b.token.length - a.token.length);
+    const group = matching[0]?.group ?? groups.find(candidate => candidate.agents.includes('*'));
+
+    if (group) {
+      this.rules = group.rules;
+      this.crawlDelayMs = group.crawlDelayMs;
+    }
+  }
+
+  isAllowed(url: string): boolean {
+    const parsed = new URL(url);
+    const target = `${parsed.pathname}${parsed.search}`;
+    let best: RobotsRule | undefined;
+
+    for (const rule of this.rules) {
+      if (!rule.pattern.test(target)) continue;
+      if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) {
+        best = rule;
+      }
+    }
+    return best?.allow ?? true;
+  }
+}
+
+/**
+ * Page and nested sitemap URLs of a sitemap or sitemap index
+ */
+export function parseSitemap(xml: string): { pages: string[]; sitemaps: string[] } {
+  const $ = load(xml, { xml: true });
+  const locs = (selector: string) => $(selector).toArray().map(loc => $(loc).text().trim()).filter(Boolean);
+  return { pages: locs('url > loc'), sitemaps: locs('sitemap > loc') };
+}
+
+/**
+ * Main content of an HTML page as Markdown, plus its title and outgoing links
+ */
+export function htmlToMarkdown(html: string, url: string): ExtractedPage {
+  const $ = load(html);
+  const base = $('base[href]').attr('href');
+  const baseUrl = base ? new URL(base, url).toString() : url;
+
+  // Links come from the whole page - navigation is how the rest of the site is found
+  const links = new Set<string>();
+  $('a[href]').each((_, anchor) => {
+    try {
+      const link = new URL($(anchor).attr('href')!, baseUrl);
+      if (/^https?:$/.test(link.protocol) && !ASSET_EXTENSIONS.test(link.pathname)) {
+        links.add(normalizeUrl(link.toString()));
+      }
+    } catch {
+      // Not a URL
+    }
+  });
+
+  const robots = $('meta[name="robots" i]').attr('content') || '';
+  const title = normalizeSpace($('title').first().text()) || normalizeSpace($('h1').first().text());
+
+  const main = MAIN_CONTENT.map(selector => $(selector).first()).find(candidate => candidate.length > 0);
+  const root = main ?? $('body');
+  if (!main) root.find(PAGE_CHROME).remove();
+  root.find(REMOVED_ELEMENTS).remove();
+
+  const code: string[] = []; // Code blocks are kept out of whitespace cleanup
+  const markdown = root.toArray()
+    .map(node => convert($, node, code))
+    .join('\n\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n\n[ \t]+/g, '\n\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+    .replace(/\uE000(\d+)\uE001/g, (_, idx) => code[Number(idx)]);
+
+  return { title, markdown, links: [...links], noindex: /noindex/i.test(robots) };
+}
+
+/**
+ * One node as Markdown - block elements are surrounded by blank lines, inline ones are text
+ */
+function convert($: CheerioAPI, node: AnyNode, code: string[]): string {
+  if (node.type === 'text') {
+    return (node as unknown as { data: string }).data.replace(/\s+/g, ' ');
+  }
+  if (node.type !== 'tag') return '';
+
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+  const children = () => element.children.map(child => convert($, child, code)).join('');
+  const block = (text: string) => `\n\n${text.trim()}\n\n`;
+
+  switch (tag) {
+    case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+      return block(`${'#'.repeat(Number(tag[1]))} ${normalizeSpace(children())}`);
+    case 'br':
+      return '\n';
+    case 'hr':
+      return block('---');
+    case 'pre': {
+      const text = $(element).text().replace(/\n$/, '');
+      const classes = `${$(element).attr('class') || ''} ${$(element).find('code').attr('class') || ''}`;
+      const language = classes.match(/(?:language|lang|highlight)-([\w+#-]+)/)?.[1] ?? '';
+      const fence = text.includes('```') ? '````' : '```';
+      code.push(`${fence}${language}\n${text}\n${fence}`);
+      return block(`\uE000${code.length - 1}\uE001`);
+    }
+    case 'code':
+      return `\`${$(element).text()}\``;
+    case 'ul': case 'ol': {
+      const items = $(element).children('li').toArray().map((item, idx) => {
+        const marker = tag === 'ol' ? `${idx + 1}. ` : '- ';
+        const text = item.children.map(child => convert($, child, code)).join('').trim().replace(/\n{2,}/g, '\n');
+        return marker + text.split('\n').join(`\n${' '.repeat(marker.length)}`);
+      });
+      return block(items.join('\n'));
+    }
+    case 'table': {
+      const rows = $(element).find('tr').toArray().map(row =>
+        $(row).children('th, td').toArray().map(cell => normalizeSpace($(cell).text()).replace(/\|/g, '\\|')));
+      if (rows.length === 0) return '';
+      const width = Math.max(...rows.map(row => row.length));
+      const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, idx) => cells[idx] ?? '').join(' | ')} |`;
+      return block([line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n'));
+    }
+    case 'blockquote':
+      return block(children().trim().split('\n').map(text => `> ${text}`).join('\n'));
+    case 'img':
+      return '';
+    case 'p': case 'div': case 'section': case 'article': case 'main': case 'header': case 'footer':
+    case 'figure': case 'figcaption': case 'details': case 'summary': case 'dl': case 'dt': case 'dd': case 'li':
+    case 'body': case 'html':
+      return block(children());
+    default:
+      return children();
+  }
+}
+
+/**
+ * Everything up to the last `/` of the start URL - a sitemap or page scopes the crawl to its directory
+ */
+function defaultScope(startUrl: string): string {
+  const url = new URL(startUrl);
+  return `${url.origin}${url.pathname.slice(0, url.pathname.lastIndexOf('/') + 1)}`;
+}
+
+function isSitemap(url: string): boolean {
+  return /\.xml(\.gz)?$/i.test(new URL(url).pathname);
+}
+
+/**
+ * Drop the fragment so anchors on one page don't become separate pages
+ */
+function normalizeUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  return parsed.toString();
+}
+
+/**
+ * Write Markdown with front matter - unchanged content leaves the file alone so it isn't reindexed
+ */
+export async function writeMarkdownPage(target: string, frontMatter: Record<string, unknown>, markdown: string): Promise<void> {
+  const content = `---\n${stringifyYaml(frontMatter)}---\n\n${markdown}\n`;
+
+  const current = await fs.readFile(target, 'utf-8').catch(() => null);
+  if (current === content) return;
+
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.writeFile(target, content);
+}
+
+/**
+ * Relative file for a page - `/docs/guide/` -> `docs/guide/index.md`, `/docs/a.html` -> `docs/a.md`, `/docs/b.md` -> `docs/b.md`
+ * Query strings get a short hash so `?page=2` doesn't overwrite the first page
+ */
+export function pageFile(url: string): string {
+  const parsed = new URL(url);
+  const segments = parsed.pathname.split('/').map(segment => {
+    let decoded = segment;
+    try {
+      decoded = decodeURIComponent(segment);
+    } catch {
+      // Keep the encoded form
+    }
+    return decoded.replace(/[^\w.-]+/g, '_').replace(/^\.+/, '_');
+  });
+
+  let name = segments.pop() || 'index';
+  name = name.replace(/\.(html?|php|aspx?|jsp|md|mdx|markdown|txt)$/i, '');
+  if (parsed.search) {
+    name += `_${createHash('sha256').update(parsed.search).digest('hex').substring(0, 8)}`;
+  }
+  return [...segments.filter(Boolean), `${name}.md`].join('/');
+}
+
+function robotsPattern(value: string): RegExp {
+  const anchored = value.endsWith('$');
+  const body = (anchored ? value.slice(0, -1) : value)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+function normalizeSpace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -11,17 +11,51 @@ import {
   CallToolRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import dotenv from 'dotenv';
-import { SearchService } from './core/search.js';
-import { StorageService } from './core/storage.js';
-import { config } from './config/index.js';
+import { SearchService, Confidence, assessConfidence } from './core/search.js';
+import { getVectorStore, getStorageBackend, VectorStore } from './core/vector-store.js';
+import { resolveEmbeddingSettings } from './core/embedding-providers.js';
+import { formatLocation } from './core/source-positions.js';
+import { parseSearchFilters } from './core/search-filters.js';
+import type { FileSearchResult } from './types/index.js';
 
 // Load environment variables
 dotenv.config();
 
+// Filters both search tools accept - pushed down into the vector and keyword searches
+const SEARCH_FILTER_PROPERTIES = {
+  products: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Only these products (the product shown in results), e.g. ["pymongo", "manual"]',
+  },
+  repos: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Only these repositories, as configured (owner/repo, git URL, local path or site URL)',
+  },
+  version: {
+    type: 'string',
+    description: 'Only this indexed version, e.g. "latest"',
+  },
+  fileTypes: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Only these file extensions, e.g. ["md", "py"]',
+  },
+  path: {
+    type: 'string',
+    description: 'Only below this directory or this file (e.g. "docs/guide"), or matching a glob (e.g. "docs/**/*.md")',
+  },
+  hasCode: {
+    type: 'boolean',
+    description: 'true for chunks with code, false for prose only',
+  },
+};
+
 class EmbedocsMCP {
   private server: Server;
   private searchService: SearchService;
-  private storageService: StorageService;
+  private storageService: VectorStore;
 
   constructor() {
     this.server = new Server(
@@ -39,7 +73,7 @@ class EmbedocsMCP {
     );
 
     this.searchService = SearchService.getInstance();
-    this.storageService = StorageService.getInstance();
+    this.storageService = getVectorStore();
 
     this.registerTools();
   }
@@ -70,7 +104,13 @@ REQUIRED WORKFLOW:
 EXAMPLE: User asks "How does authentication work?"
 → You MUST: mongodb-search("authentication") 
 → Then MUST: mongodb-fetch-full-context for EACH relevant file found
-→ Only THEN provide complete answer with full context`,
+→ Only THEN provide complete answer with full context
+
+LOW CONFIDENCE: A response starting with "⚠️ Low confidence" means nothing matched well -
+rephrase the query instead of answering from those chunks.
+
+TIP: Set groupByFile: true to get distinct FILES (best chunks of each, plus how many other
+chunks matched) instead of several chunks of the same file.`,
           inputSchema: {
             type: 'object',
             properties: {
@@ -80,11 +120,17 @@ EXAMPLE: User asks "How does authentication work?"
               },
               limit: {
                 type: 'number',
-                description: 'Number of results to return',
+                description: 'Number of results to return (files when groupByFile is set)',
                 default: 5,
                 minimum: 1,
                 maximum: 20,
               },
+              groupByFile: {
+                type: 'boolean',
+                description: 'Collapse chunks by source file: the top files with their best chunks and a count of other matching chunks',
+                default: false,
+              },
+              ...SEARCH_FILTER_PROPERTIES,
             },
             required: ['query'],
           },
@@ -113,7 +159,10 @@ REQUIRED WORKFLOW:
 EXAMPLE: User asks "Show me different authentication methods"
 → You MUST: mongodb-mmr-search("authentication methods", lambdaMult: 0.5)
 → Then MUST: mongodb-fetch-full-context for EACH diverse file found
-→ Present COMPLETE implementations of different approaches`,
+→ Present COMPLETE implementations of different approaches
+
+LOW CONFIDENCE: A response starting with "⚠️ Low confidence" means nothing matched well -
+rephrase the query instead of answering from those chunks.`,
           inputSchema: {
             type: 'object',
             properties: {
@@ -142,6 +191,7 @@ EXAMPLE: User asks "Show me different authentication methods"
                 minimum: 0.0,
                 maximum: 1.0,
               },
+              ...SEARCH_FILTER_PROPERTIES,
             },
             required: ['query'],
           },
@@ -260,9 +310,24 @@ RETURNS:
     try {
       console.error(`🔍 Primary search (RRF hybrid) for: "${args.query}"`);
       
+      if (args.groupByFile) {
+        const files = await this.searchService.groupedSearch(args.query, args.limit || 5, parseSearchFilters(args));
+        console.error(`✅ Found ${files.length} files with primary search (RRF, grouped)`);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: files.length > 0 ? this.formatGroupedResults(files) : 'No results found. Try refining your search query.',
+            },
+          ],
+        };
+      }
+
       const results = await this.searchService.hybridSearch(
         args.query,
-        args.limit || 5
+        args.limit || 5,
+        parseSearchFilters(args)
       );
       
       console.error(`✅ Found ${results.length} results with primary search (RRF)`);
@@ -308,7 +373,8 @@ RETURNS:
         {
           limit: args.limit || 5,
           fetchK: args.fetchK || 20,
-          lambdaMult: args.lambdaMult || 0.7
+          lambdaMult: args.lambdaMult || 0.7,
+          filters: parseSearchFilters(args)
         }
       );
       
@@ -373,6 +439,10 @@ RETURNS:
       
       // Sort chunks by their position or sequence (if available)
       chunks.sort((a, b) => {
+        // Line ranges are exact - chunk order within a file follows them
+        if (a.metadata?.path === b.metadata?.path && a.metadata?.startLine && b.metadata?.startLine) {
+          return a.metadata.startLine - b.metadata.startLine;
+        }
         // Try to sort by chunk index if available in metadata
         if (a.metadata?.chunkIndex !== undefined && b.metadata?.chunkIndex !== undefined) {
           return a.metadata.chunkIndex - b.metadata.chunkIndex;
@@ -394,6 +464,7 @@ RETURNS:
       // Format the response
       const response = `# Full Content: ${filename}
 **Product/Repository**: ${product}
+**Source**: ${this.formatSources(chunks)}
 **Total Chunks Merged**: ${chunks.length}
 **Content Length**: ${fullContent.length} characters
 
@@ -448,6 +519,35 @@ ${fullContent}`;
     return merged.join('');
   }
 
+  /**
+   * `path:start-end` (or PDF pages) for every file the chunks came from, spanning all of its chunks
+   */
+  private formatSources(chunks: any[]): string {
+    const files = new Map<string, { startLine?: number; endLine?: number; pageStart?: number; pageEnd?: number }>();
+    for (const chunk of chunks) {
+      const filePath = chunk.metadata?.path || chunk.metadata?.file || chunk.title;
+      const { startLine, endLine, pageStart, pageEnd } = chunk.metadata || {};
+      const range = files.get(filePath);
+      if (!range) {
+        files.set(filePath, { startLine, endLine, pageStart, pageEnd });
+        continue;
+      }
+      if (range.startLine && startLine && endLine) {
+        range.startLine = Math.min(range.startLine, startLine);
+        range.endLine = Math.max(range.endLine!, endLine);
+      } else {
+        range.startLine = undefined; // Chunks indexed before positions were recorded
+      }
+      if (range.pageStart && pageStart && pageEnd) {
+        range.pageStart = Math.min(range.pageStart, pageStart);
+        range.pageEnd = Math.max(range.pageEnd!, pageEnd);
+      } else {
+        range.pageStart = undefined;
+      }
+    }
+    return Array.from(files, ([filePath, range]) => formatLocation(filePath, range)).join(', ');
+  }
+
   private findOverlap(text1: string, text2: string): number {
     // Find the longest suffix of text1 that is a prefix of text2
     const maxOverlap = Math.min(text1.length, text2.length, 200); // Limit overlap check to 200 chars
@@ -495,11 +595,20 @@ ${fullContent}`;
       return 'No results found.';
     }
 
-    let output = `Found ${results.length} relevant documents:\n\n`;
+    let output = this.formatConfidence(assessConfidence(results));
+    output += `Found ${results.length} relevant documents:\n\n`;
 
     results.forEach((result, index) => {
       output += `## ${index + 1}. ${result.title || 'Document'}\n`;
-      output += `**Score**: ${result.score.toFixed(3)} | **Product**: ${result.product || 'unknown'}\n\n`;
+      output += `**Score**: ${result.score.toFixed(3)} | **Product**: ${result.product || 'unknown'}\n`;
+      const filePath = result.metadata?.path || result.metadata?.file;
+      if (filePath) {
+        output += `**Source**: ${formatLocation(filePath, result.metadata)}\n`;
+      }
+      if (result.metadata?.url) {
+        output += `**URL**: ${result.metadata.url}\n`;
+      }
+      output += '\n';
       output += `${result.content.substring(0, 500)}...\n\n`;
       output += '---\n\n';
     });
@@ -507,10 +616,45 @@ ${fullContent}`;
     return output;
   }
 
+  private formatGroupedResults(files: FileSearchResult[]): string {
+    let output = this.formatConfidence(assessConfidence(files.flatMap(file => file.chunks)));
+    output += `Found ${files.length} relevant files:\n\n`;
+
+    files.forEach((file, index) => {
+      output += `## ${index + 1}. ${file.title || file.path}\n`;
+      output += `**Score**: ${file.score.toFixed(3)} (best chunk ${file.maxScore.toFixed(3)}) | **Product**: ${file.product || 'unknown'} | **Matching chunks**: ${file.matchedChunks}\n`;
+      output += `**File**: ${file.path}\n`;
+      if (file.url) {
+        output += `**URL**: ${file.url}\n`;
+      }
+      output += '\n';
+      for (const chunk of file.chunks) {
+        output += `### ${formatLocation(file.path, chunk.metadata)} (${chunk.score.toFixed(3)})\n`;
+        output += `${chunk.content.substring(0, 500)}...\n\n`;
+      }
+      const others = file.matchedChunks - file.chunks.length;
+      if (others > 0) {
+        output += `_${others} more matching chunk${others === 1 ? '' : 's'} in this file - use mongodb-fetch-full-context for the whole file_\n\n`;
+      }
+      output += '---\n\n';
+    });
+
+    return output;
+  }
+
+  private formatConfidence(confidence: Confidence): string {
+    if (!confidence.low) return '';
+
+    const basis = confidence.basis === 'rerank' ? 'reranker relevance' : 'vector similarity';
+    return `⚠️ **Low confidence**: the best result scores ${confidence.score!.toFixed(3)} (${basis}), below ${confidence.threshold}. `
+      + 'These results may not answer the question - rephrase the query or try other terms before answering from them.\n\n';
+  }
+
   private formatStatus(dbStats: any, searchStats: any): string {
     return `**EmbeDocs MCP Status**
 
 📊 **Database Statistics:**
+- Storage Backend: ${dbStats.backend}
 - Total Documents: ${dbStats.totalDocuments}
 - Products: ${dbStats.products.join(', ')}
 - Models: ${dbStats.models.join(', ')}
@@ -522,28 +666,41 @@ ${fullContent}`;
 - Reranker: ${searchStats.searchConfig.reranker}
 - Vector Weight: ${searchStats.searchConfig.vectorWeight}
 - Keyword Weight: ${searchStats.searchConfig.keywordWeight}
+- Hybrid Fusion: ${this.formatFusion(searchStats.searchConfig.fusion)}
+- Server-side Fusion: ${searchStats.searchConfig.fusion.serverSupport.map((stage: string) => `$${stage}`).join(', ') || 'not supported'}
 
 ✅ **System Health:** READY`;
   }
 
+  private formatFusion(fusion: { mode: string; active: string; k: number }): string {
+    const active = fusion.active === 'manual' ? `client-side RRF (k=${fusion.k})` : `$${fusion.active} (server-side)`;
+    return fusion.mode === fusion.active ? active : `${active}, mode "${fusion.mode}"`;
+  }
+
   async start(): Promise<void> {
-    // Check environment
-    if (!process.env.MONGODB_URI || !process.env.VOYAGE_API_KEY) {
+    // Check environment - the local backend needs no MongoDB URI, other providers no Voyage key
+    const embedding = resolveEmbeddingSettings();
+    const needsMongo = getStorageBackend() === 'mongodb';
+    const missing = [
+      ...(needsMongo && !process.env.MONGODB_URI ? ['MONGODB_URI'] : []),
+      ...(embedding.provider === 'voyage' && !process.env.VOYAGE_API_KEY ? ['VOYAGE_API_KEY'] : [])
+    ];
+    if (missing.length > 0) {
       console.error('❌ Missing required environment variables.');
-      console.error('Please set MONGODB_URI and VOYAGE_API_KEY');
+      console.error(`Please set ${missing.join(' and ')}`);
       process.exit(1);
     }
 
     // Initialize storage connection
     try {
-      console.error('🔄 Connecting to MongoDB...');
+      console.error(`🔄 Connecting to ${needsMongo ? 'MongoDB' : 'local vector store'}...`);
       await this.storageService.connect();
-      console.error('✅ Connected to MongoDB');
+      console.error(`✅ Connected to ${needsMongo ? 'MongoDB' : 'local vector store'}`);
 
       // Get stats
       const stats = await this.storageService.getStats();
       console.error(`📊 Documents: ${stats.totalDocuments}`);
-      console.error(`🎯 Model: ${config.embedding.model} (${config.embedding.dimensions}d)`);
+      console.error(`🎯 Model: ${embedding.model} (${embedding.dimensions}d, ${embedding.provider})`);
       
       if (stats.totalDocuments === 0) {
         console.error('⚠️  No documents indexed. Run: npm run index');
@@ -36,8 +36,22 @@ export interface ChunkMetadata {
   isExample?: boolean;
   contentType?: 'technical' | 'conceptual' | 'meta' | 'general';
   sectionTitles?: string[];
+  admonitions?: string[]; // note, warning, tip, ... - markup chunkers
+  cellIndices?: number[]; // Jupyter notebook cells the chunk came from, 0-based
+  apiFormat?: 'openapi' | 'graphql' | 'protobuf'; // API schema chunks
+  apiKind?: string; // overview, operation, schema, type, service, message, enum
+  typeName?: string;
+  operationId?: string; // OpenAPI operationId, GraphQL root field or rpc name
+  httpMethod?: string;
+  httpPath?: string;
   qualityScore?: number;
   boostFactor?: number;
+  startLine?: number; // 1-based, inclusive
+  endLine?: number;
+  startByte?: number; // UTF-8 offsets in the source file, end exclusive
+  endByte?: number;
+  pageStart?: number; // PDF pages, 1-based, inclusive - instead of lines
+  pageEnd?: number;
   [key: string]: any;
 }
 
@@ -82,15 +96,26 @@ export interface SearchOptions {
   version?: string;
 }
 
-export interface SearchResult {
-  documentId: string;
+/**
+ * One source file of a grouped search - see groupByFile
+ */
+export interface FileSearchResult {
+  path: string; // Repository-relative path, or the title of chunks without one
+  repo?: string;
+  product?: string;
+  title?: string;
+  url?: string;
+  score: number; // Best chunk plus a share of every other matching chunk
+  maxScore: number;
   chunks: Array<{
+    documentId: string;
     content: string;
     score: number;
-    chunkIndex: number;
-  }>;
-  maxScore: number;
-  metadata: DocumentMetadata;
+    metadata?: Record<string, any>;
+    vectorScore?: number;
+    rerankScore?: number;
+  }>; // Best first
+  matchedChunks: number; // Chunks of this file among the search candidates, shown or not
 }
 
 export interface RefreshResult {
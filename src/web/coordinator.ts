@@ -5,8 +5,22 @@
 
 import { Indexer, IndexingProgress } from '../core/indexer.js';
 import { EmbeddingService } from '../core/embeddings.js';
-import { StorageService } from '../core/storage.js';
+import { VoyageProvider } from '../core/embedding-providers.js';
+import { getVectorStore } from '../core/vector-store.js';
+import { config } from '../config/index.js';
+import { llmsTxtUrl, parseLlmsTxt, readDocument } from '../core/llms-txt.js';
+import {
+  createSource,
+  gitEnvironment,
+  inferSourceType,
+  redactSecrets,
+  sanitizeAuth,
+  sourceSlug,
+  SourceAuth,
+  SourceType
+} from '../core/sources.js';
 import { MongoClient } from 'mongodb';
+import { simpleGit } from 'simple-git';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
@@ -19,7 +33,14 @@ export interface Repository {
   id: string;
   name: string;
   repo: string;
+  type?: SourceType;
   branch: string;
+  auth?: SourceAuth; // Env var names and key paths only - never secrets
+  include?: string[];
+  exclude?: string[];
+  subpath?: string;
+  maxPages?: number; // Web and llms.txt sources only
+  scope?: string;
   icon: string;
   description: string;
   priority: number;
@@ -115,27 +136,13 @@ export class WebCoordinator {
         };
       }
 
-      // Temporarily set the API key for testing
-      const originalKey = process.env.VOYAGE_API_KEY;
-      process.env.VOYAGE_API_KEY = apiKey;
+      // Test the key directly against Voyage - independent of the configured provider
+      await new VoyageProvider(apiKey).embedQuery('test');
 
-      try {
-        // Test with EmbeddingService
-        const embeddingService = EmbeddingService.getInstance();
-        await embeddingService.embedQuery('test');
-
-        return {
-          success: true,
-          message: 'Voyage AI API key validated successfully'
-        };
-      } finally {
-        // Restore original key
-        if (originalKey) {
-          process.env.VOYAGE_API_KEY = originalKey;
-        } else {
-          delete process.env.VOYAGE_API_KEY;
-        }
-      }
+      return {
+        success: true,
+        message: 'Voyage AI API key validated successfully'
+      };
     } catch (error) {
       console.error('Voyage AI test failed:', error);
       
@@ -157,87 +164,285 @@ export class WebCoordinator {
   }
 
   /**
-   * Validate GitHub repository URL and extract metadata
+   * Validate a repository source and extract metadata
+   * Accepts GitHub URLs, any git remote (https, ssh, file://), local directories and documentation websites
+   * With auth, access is checked with `git ls-remote` using the credentials indexing will use
+   */
+  async validateRepo(repoUrl: string, rawAuth?: any): Promise<{ success: boolean; repo?: any; message: string }> {
+    let auth: SourceAuth | undefined;
+
+    try {
+      auth = sanitizeAuth(rawAuth);
+      const input = repoUrl.trim();
+
+      // GitHub URLs keep the richer API-backed validation
+      const cleanUrl = input.replace(/\/$/, '').replace(/\.git$/, '');
+      const match = cleanUrl.match(/^https?:\/\/(?:www\.)?github\.com\/([^/]+)\/([^/]+)$/);
+      if (match) {
+        return auth
+          ? await this.validateGitRemote(`https://github.com/${match[1]}/${match[2]}.git`, auth, {
+            id: `custom-${match[1]}-${match[2]}`,
+            name: `${match[1]}/${match[2]}`,
+            repo: `${match[1]}/${match[2]}`,
+            type: 'github'
+          })
+          : await this.validateGitHubRepo(match[1], match[2]);
+      }
+
+      switch (inferSourceType(input)) {
+        case 'git': {
+          const result = await this.validateGitRemote(input, auth);
+          // Not a git remote - an http(s) URL may still be a documentation website
+          if (!result.success && !auth && /^https?:\/\//i.test(input) && !/\.git$/.test(input)) {
+            const website = await this.validateWebsite(input);
+            if (website.success) return website;
+          }
+          return result;
+        }
+        case 'local':
+          return await this.validateLocalDirectory(input);
+        case 'llms':
+          return await this.validateLlmsTxt(input);
+        default: {
+          // owner/repo shorthand
+          const shorthand = input.match(/^([\w.-]+)\/([\w.-]+)$/);
+          if (!shorthand) {
+            return {
+              success: false,
+              message: 'Invalid repository. Use a GitHub URL, owner/repo, any git URL (https, ssh, file://), a local path, an llms.txt or a website URL'
+            };
+          }
+          return auth
+            ? await this.validateGitRemote(`https://github.com/${input}.git`, auth, {
+              id: `custom-${shorthand[1]}-${shorthand[2]}`,
+              name: input,
+              repo: input,
+              type: 'github'
+            })
+            : await this.validateGitHubRepo(shorthand[1], shorthand[2]);
+        }
+      }
+    } catch (error) {
+      const message = redactSecrets(error instanceof Error ? error.message : 'Repository validation failed', auth);
+      console.error('Repository validation failed:', message);
+      return { success: false, message };
+    }
+  }
+
+  /**
+   * Validate a GitHub repository via the public API (works without a token)
    */
-  async validateGitHubRepo(repoUrl: string): Promise<{ success: boolean; repo?: any; message: string }> {
+  private async validateGitHubRepo(owner: string, repoName: string): Promise<{ success: boolean; repo?: any; message: string }> {
+    // Check if repo exists using GitHub API (optional - can work without API key)
     try {
-      // Clean up the URL
-      const cleanUrl = repoUrl.trim().replace(/\/$/, '').replace(/\.git$/, '');
+      const response = await fetch(`https://api.github.com/repos/${owner}/${repoName}`, {
+        headers: {
+          'Accept': 'application/vnd.github.v3+json',
+          'User-Agent': 'EmbeDocs-MCP'
+        }
+      });
       
-      // Extract owner/repo from GitHub URL
-      const match = cleanUrl.match(/github\.com\/([^\/]+)\/([^\/]+)/);
-      if (!match) {
+      if (response.status === 404) {
         return {
           success: false,
-          message: 'Invalid GitHub URL format. Should be: https://github.com/owner/repository'
+          message: 'Repository not found or is private'
         };
       }
 
-      const [, owner, repoName] = match;
-
-      // Check if repo exists using GitHub API (optional - can work without API key)
-      try {
-        const response = await fetch(`https://api.github.com/repos/${owner}/${repoName}`, {
-          headers: {
-            'Accept': 'application/vnd.github.v3+json',
-            'User-Agent': 'EmbeDocs-MCP'
-          }
-        });
+      if (response.ok) {
+        const repoData = await response.json() as any;
         
-        if (response.status === 404) {
-          return {
-            success: false,
-            message: 'Repository not found or is private'
-          };
-        }
+        return {
+          success: true,
+          repo: {
+            id: `custom-${owner}-${repoName}`,
+            name: `${owner}/${repoName}`,
+            repo: `${owner}/${repoName}`,
+            branch: repoData.default_branch || 'main',
+            icon: '📦',
+            description: repoData.description || 'Custom repository',
+            priority: 5,
+            selected: true,
+            custom: true,
+            stars: repoData.stargazers_count,
+            language: repoData.language
+          },
+          message: 'Repository validated successfully'
+        };
+      }
+    } catch (apiError) {
+      // GitHub API failed, but we can still proceed with basic validation
+      console.warn('GitHub API request failed, using basic validation:', apiError);
+    }
 
-        if (response.ok) {
-          const repoData = await response.json() as any;
-          
-          return {
-            success: true,
-            repo: {
-              id: `custom-${owner}-${repoName}`,
-              name: `${owner}/${repoName}`,
-              repo: `${owner}/${repoName}`,
-              branch: repoData.default_branch || 'main',
-              icon: '📦',
-              description: repoData.description || 'Custom repository',
-              priority: 5,
-              selected: true,
-              custom: true,
-              stars: repoData.stargazers_count,
-              language: repoData.language
-            },
-            message: 'Repository validated successfully'
-          };
-        }
-      } catch (apiError) {
-        // GitHub API failed, but we can still proceed with basic validation
-        console.warn('GitHub API request failed, using basic validation:', apiError);
+    // Basic validation without API
+    return {
+      success: true,
+      repo: {
+        id: `custom-${owner}-${repoName}`,
+        name: `${owner}/${repoName}`,
+        repo: `${owner}/${repoName}`,
+        branch: 'main',
+        icon: '📦',
+        description: 'Custom repository',
+        priority: 5,
+        selected: true,
+        custom: true
+      },
+      message: 'Repository added (validation without GitHub API)'
+    };
+  }
+
+  /**
+   * Validate any git remote with `git ls-remote` - also finds the default branch
+   * @param overrides - Repository fields to use instead of the URL-derived ones (GitHub shorthand)
+   */
+  private async validateGitRemote(
+    url: string,
+    auth?: SourceAuth,
+    overrides: Partial<Repository> = {}
+  ): Promise<{ success: boolean; repo?: any; message: string }> {
+    try {
+      const output = await simpleGit()
+        .env(gitEnvironment(url, auth))
+        .listRemote(['--symref', url, 'HEAD']);
+      const defaultBranch = output.match(/^ref: refs\/heads\/(\S+)\s+HEAD/m)?.[1];
+      const name = url.replace(/\.git$/, '').split(/[/:]/).filter(Boolean).slice(-2).join('/');
+
+      return {
+        success: true,
+        repo: {
+          id: `custom-${sourceSlug(url)}`,
+          name,
+          repo: url,
+          type: 'git',
+          branch: defaultBranch || 'main',
+          ...(auth && { auth }),
+          icon: auth ? '🔒' : '📦',
+          description: auth ? 'Private git repository' : 'Custom git repository',
+          priority: 5,
+          selected: true,
+          custom: true,
+          ...overrides
+        },
+        message: 'Repository validated successfully'
+      };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message.trim() : String(error);
+      return {
+        success: false,
+        message: redactSecrets(`Could not reach ${url}: ${reason}`, auth)
+      };
+    }
+  }
+
+  /**
+   * Validate a local directory - indexed in place, no clone
+   */
+  private async validateLocalDirectory(dir: string): Promise<{ success: boolean; repo?: any; message: string }> {
+    const source = createSource({ repo: dir, type: 'local' });
+    const resolved = path.resolve(source.workdir);
+
+    try {
+      await source.sync();
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : `${resolved} is not a directory`
+      };
+    }
+
+    return {
+      success: true,
+      repo: {
+        id: `custom-local-${sourceSlug(resolved)}`,
+        name: path.basename(resolved),
+        repo: resolved,
+        type: 'local',
+        branch: '',
+        icon: '📁',
+        description: 'Local directory',
+        priority: 5,
+        selected: true,
+        custom: true
+      },
+      message: 'Directory validated successfully'
+    };
+  }
+
+  /**
+   * Validate a documentation website - an HTML start page or a sitemap.xml, crawled at index time
+   */
+  private async validateWebsite(url: string): Promise<{ success: boolean; repo?: any; message: string }> {
+    try {
+      const response = await fetch(url, {
+        headers: { 'User-Agent': config.web.userAgent },
+        signal: AbortSignal.timeout(config.web.timeoutMs)
+      });
+      const contentType = response.headers.get('content-type') || '';
+      await response.body?.cancel();
+
+      if (!response.ok || !/html|xml/i.test(contentType)) {
+        return { success: false, message: `${url} is not an HTML page or sitemap (${response.status} ${contentType})` };
       }
 
-      // Basic validation without API
+      const parsed = new URL(url);
       return {
         success: true,
         repo: {
-          id: `custom-${owner}-${repoName}`,
-          name: `${owner}/${repoName}`,
-          repo: `${owner}/${repoName}`,
-          branch: 'main',
-          icon: '📦',
-          description: 'Custom repository',
+          id: `custom-web-${sourceSlug(url)}`,
+          name: `${parsed.host}${parsed.pathname.replace(/\/$/, '')}`,
+          repo: url,
+          type: 'web',
+          branch: '',
+          icon: '🌐',
+          description: 'Documentation website',
           priority: 5,
           selected: true,
           custom: true
         },
-        message: 'Repository added (validation without GitHub API)'
+        message: 'Website validated successfully'
       };
     } catch (error) {
-      console.error('Repository validation failed:', error);
       return {
         success: false,
-        message: error instanceof Error ? error.message : 'Repository validation failed'
+        message: `Could not reach ${url}: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+
+  /**
+   * Validate an llms.txt index - its linked documents are fetched at index time
+   */
+  private async validateLlmsTxt(location: string): Promise<{ success: boolean; repo?: any; message: string }> {
+    const repo = /^https?:\/\//i.test(location) ? location : path.resolve(location);
+    try {
+      const doc = await readDocument(llmsTxtUrl(repo));
+      const index = parseLlmsTxt(doc.text, doc.url);
+      if (!index.title) {
+        return { success: false, message: `${location} has no # title - not an llms.txt file` };
+      }
+
+      return {
+        success: true,
+        repo: {
+          id: `custom-llms-${sourceSlug(repo)}`,
+          name: index.title,
+          repo,
+          type: 'llms',
+          branch: '',
+          icon: '📚',
+          description: index.summary || `llms.txt with ${index.links.length} documents`,
+          priority: 5,
+          selected: true,
+          custom: true
+        },
+        message: 'llms.txt validated successfully'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Could not read ${location}: ${error instanceof Error ? error.message : String(error)}`
       };
     }
   }
@@ -271,7 +476,14 @@ export class WebCoordinator {
     const configRepos = repositories.map(repo => ({
       name: repo.name,
       repo: repo.repo,
-      branch: repo.branch || 'main',
+      type: repo.type,
+      branch: repo.branch || (repo.type === 'local' || repo.type === 'web' || repo.type === 'llms' ? undefined : 'main'),
+      auth: sanitizeAuth(repo.auth),
+      include: repo.include,
+      exclude: repo.exclude,
+      subpath: repo.subpath,
+      maxPages: repo.maxPages,
+      scope: repo.scope,
       product: repo.category || repo.id,
       version: 'latest',
       priority: repo.priority || 5,
@@ -317,12 +529,19 @@ export class WebCoordinator {
         repositories: repositories.map(repo => ({
           name: repo.name,
           repo: repo.repo,
+          type: repo.type,
           branch: repo.branch,
+          auth: sanitizeAuth(repo.auth),
+          include: repo.include,
+          exclude: repo.exclude,
+          subpath: repo.subpath,
+          maxPages: repo.maxPages,
+          scope: repo.scope,
           product: repo.id,
           version: 'latest',
           addedAt: new Date().toISOString(),
           addedBy: 'web-ui',
-          localPath: repo.repo.replace('/', '_')
+          localPath: createSource(repo).workdir
         }))
       };
       
@@ -344,6 +563,9 @@ export class WebCoordinator {
       // Set credentials
       this.setCredentials(setupData.credentials);
 
+      // Reject unsafe auth before it is saved and used by every later sync
+      setupData.repositories.forEach(repo => sanitizeAuth(repo.auth));
+
       // Save repository metadata for CLI access
       await this.saveRepositoryMetadata(setupData.repositories);
 
@@ -352,7 +574,7 @@ export class WebCoordinator {
       
       // Initialize services with new credentials
       // Services are automatically initialized with environment variables
-      StorageService.getInstance();
+      getVectorStore();
       EmbeddingService.getInstance();
 
       console.log('🚀 Starting EmbeDocs indexing with user selections:', {
@@ -12,7 +12,7 @@ import boxen from 'boxen';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { WebCoordinator } from './coordinator.js';
-import { StorageService } from '../core/storage.js';
+import { getVectorStore, getStorageBackend } from '../core/vector-store.js';
 import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
 
@@ -32,8 +32,8 @@ app.use(express.urlencoded({ extended: true }));
 // Web coordinator instance
 const coordinator = WebCoordinator.getInstance();
 
-// CRITICAL FIX: Use StorageService singleton for ALL database operations
-const storageService = StorageService.getInstance();
+// CRITICAL FIX: Use the shared vector store for ALL database operations
+const storageService = getVectorStore();
 
 // Track indexing state
 let isIndexing = false;
@@ -52,7 +52,7 @@ coordinator.onProgress((progress) => {
 // Root route - redirect to setup if no credentials, otherwise show progress
 app.get('/', async (_req, res) => {
   try {
-    if (!coordinator.hasCredentials() && !process.env.MONGODB_URI) {
+    if (!coordinator.hasCredentials() && !process.env.MONGODB_URI && getStorageBackend() !== 'local') {
       // No credentials set, show setup
       return res.redirect('/setup');
     } else {
@@ -119,17 +119,17 @@ app.post('/api/test-voyage', async (req, res) => {
   }
 });
 
-// Validate GitHub repository
+// Validate repository source (GitHub, git remote or local directory)
 app.post('/api/validate-repo', async (req, res) => {
   try {
-    const { repoUrl } = req.body;
+    const { repoUrl, auth } = req.body;
     console.log('Validating repository:', repoUrl);
     
     if (!repoUrl) {
       return res.status(400).json({ success: false, message: 'Repository URL is required' });
     }
 
-    const result = await coordinator.validateGitHubRepo(repoUrl);
+    const result = await coordinator.validateRepo(repoUrl, auth);
     console.log('Validation result:', result);
     return res.json(result);
   } catch (error) {
@@ -265,7 +265,7 @@ app.get('/api/status', async (_req, res) => {
     // Check MongoDB connection
     const mongoUri = process.env.MONGODB_URI || coordinator.getCredentialsInfo()?.hasMongoUri;
     
-    if (!mongoUri) {
+    if (!mongoUri && getStorageBackend() !== 'local') {
       return res.json({
         hasConnection: false,
         isIndexing: false,
@@ -327,7 +327,7 @@ app.get('/progress', async (_req, res) => {
 app.get('/api/progress', async (_req, res) => {
   try {
     const mongoUri = process.env.MONGODB_URI;
-    if (!mongoUri) {
+    if (!mongoUri && getStorageBackend() !== 'local') {
       return res.status(400).json({ 
         success: false, 
         message: 'No MongoDB connection configured' 
@@ -0,0 +1,200 @@
+import { ApiSchemaChunker, apiSchemaFormatFor } from '../src/core/api-schema-chunker';
+
+describe('ApiSchemaChunker', () => {
+  test('should recognize schema files by extension and OpenAPI documents by their version key', () => {
+    expect(apiSchemaFormatFor('api/schema.graphql', '')).toBe('graphql');
+    expect(apiSchemaFormatFor('proto/users.proto', '')).toBe('protobuf');
+    expect(apiSchemaFormatFor('spec/petstore.openapi.yml', 'openapi: 3.0.3\ninfo: {}')).toBe('openapi');
+    expect(apiSchemaFormatFor('swagger.json', '{\n  "swagger": "2.0",\n  "info": {}\n}')).toBe('openapi');
+    expect(apiSchemaFormatFor('docker-compose.yml', 'services:\n  db:\n    image: mongo')).toBeUndefined();
+  });
+
+  test('should turn each OpenAPI operation and schema into its own chunk', () => {
+    const spec = [
+      'openapi: 3.0.3',
+      'info:',
+      '  title: Petstore',
+      '  version: 1.0.0',
+      'paths:',
+      '  /pets/{petId}:',
+      '    parameters:',
+      '      - name: petId',
+      '        in: path',
+      '        required: true',
+      '        schema:',
+      '          type: string',
+      '    get:',
+      '      summary: Info for a specific pet',
+      '      operationId: showPetById',
+      '      tags: [pets]',
+      '      responses:',
+      "        '200':",
+      '          description: Expected response to a valid request',
+      '          content:',
+      '            application/json:',
+      '              schema:',
+      "                $ref: '#/components/schemas/Pet'",
+      '    delete:',
+      '      operationId: deletePet',
+      '      responses:',
+      "        '204':",
+      '          description: Deleted',
+      'components:',
+      '  schemas:',
+      '    Pet:',
+      '      type: object',
+      '      required: [id]',
+      '      properties:',
+      '        id:',
+      '          type: integer',
+      '          format: int64',
+      '        tags:',
+      '          type: array',
+      '          items:',
+      '            type: string'
+    ].join('\n');
+
+    const chunks = new ApiSchemaChunker().chunk(spec, 'openapi');
+
+    expect(chunks.map(c => c.metadata.apiKind)).toEqual(['overview', 'operation', 'operation', 'schema']);
+    expect(chunks[1].content).toBe([
+      'GET /pets/{petId} - Info for a specific pet',
+      'Operation ID: showPetById',
+      'Tags: pets',
+      '',
+      'Parameters:',
+      '- petId (path, required): string',
+      '',
+      'Responses:',
+      '- 200: Expected response to a valid request - Pet'
+    ].join('\n'));
+    expect(chunks[1].metadata).toMatchObject({
+      operationId: 'showPetById',
+      httpMethod: 'GET',
+      httpPath: '/pets/{petId}',
+      startLine: 13,
+      endLine: 23
+    });
+    expect(chunks[2].metadata).toMatchObject({ httpMethod: 'DELETE', startLine: 24, endLine: 28 });
+    expect(chunks[3].content).toBe('Schema Pet\n\nProperties:\n- id (required): integer (int64)\n- tags: array of string');
+    expect(chunks[3].metadata.typeName).toBe('Pet');
+  });
+
+  test('should chunk GraphQL root fields and types separately', () => {
+    const schema = [
+      '"""',
+      'A registered user',
+      '"""',
+      'type User implements Node {',
+      '  id: ID!',
+      '  "Display name"',
+      '  name: String @deprecated(reason: "Use profile")',
+      '}',
+      '',
+      'type Query {',
+      '  "Fetch one user"',
+      '  user(id: ID!, withPosts: Boolean = false): User',
+      '  users(first: Int = 10): [User!]!',
+      '}',
+      '',
+      'enum Role { ADMIN MEMBER }'
+    ].join('\n');
+
+    const chunks = new ApiSchemaChunker().chunk(schema, 'graphql');
+
+    expect(chunks.map(c => c.metadata.sectionTitle)).toEqual([
+      'GraphQL type User implements Node',
+      'GraphQL query user',
+      'GraphQL query users',
+      'GraphQL enum Role'
+    ]);
+    expect(chunks[0].content).toBe([
+      'GraphQL type User implements Node',
+      '',
+      'A registered user',
+      '',
+      'Fields:',
+      '- id: ID!',
+      '- name: String @deprecated(reason: "Use profile") - Display name'
+    ].join('\n'));
+    expect(chunks[1].content).toBe([
+      'GraphQL query user',
+      '',
+      'Fetch one user',
+      '',
+      'user(id: ID!, withPosts: Boolean = false): User',
+      'Arguments:',
+      '- id: ID!',
+      '- withPosts: Boolean = false',
+      'Returns: User'
+    ].join('\n'));
+    expect(chunks[1].metadata).toMatchObject({ apiKind: 'operation', typeName: 'Query', operationId: 'user', startLine: 11, endLine: 12 });
+    expect(chunks[3].content).toContain('Values:\n- ADMIN\n- MEMBER');
+  });
+
+  test('should chunk protobuf services by rpc and keep comments', () => {
+    const proto = [
+      'syntax = "proto3";',
+      'package acme.users.v1;',
+      '',
+      'import "google/api/annotations.proto";',
+      '',
+      '// Manages user accounts.',
+      'service UserService {',
+      '  // Fetch one user by id.',
+      '  rpc GetUser (GetUserRequest) returns (User) {',
+      '    option (google.api.http) = { get: "/v1/users/{id}" };',
+      '  }',
+      '  rpc WatchUsers(WatchRequest) returns (stream User);',
+      '}',
+      '',
+      'message User {',
+      '  string id = 1; // Opaque id',
+      '  repeated string roles = 2;',
+      '  map<string, string> labels = 3;',
+      '  oneof contact {',
+      '    string email = 4;',
+      '  }',
+      '  enum State {',
+      '    STATE_UNSPECIFIED = 0;',
+      '  }',
+      '}'
+    ].join('\n');
+
+    const chunks = new ApiSchemaChunker().chunk(proto, 'protobuf');
+
+    expect(chunks.map(c => c.metadata.sectionTitle)).toEqual([
+      'Protobuf service acme.users.v1.UserService',
+      'Protobuf rpc acme.users.v1.UserService.GetUser',
+      'Protobuf rpc acme.users.v1.UserService.WatchUsers',
+      'Protobuf message acme.users.v1.User',
+      'Protobuf enum acme.users.v1.User.State'
+    ]);
+    expect(chunks[1].content).toBe([
+      'Protobuf rpc acme.users.v1.UserService.GetUser',
+      '',
+      'Fetch one user by id.',
+      '',
+      'rpc GetUser(GetUserRequest) returns (User)',
+      'Service: acme.users.v1.UserService',
+      'HTTP: GET /v1/users/{id}'
+    ].join('\n'));
+    expect(chunks[1].metadata).toMatchObject({ operationId: 'GetUser', httpMethod: 'GET', httpPath: '/v1/users/{id}', startLine: 8, endLine: 11 });
+    expect(chunks[3].content).toBe([
+      'Protobuf message acme.users.v1.User',
+      '',
+      'Fields:',
+      '- id: string = 1 - Opaque id',
+      '- roles: repeated string = 2',
+      '- labels: map<string,string> = 3',
+      '- email: string = 4 (oneof contact)'
+    ].join('\n'));
+  });
+
+  test('should fall back to text chunking when a spec does not parse', () => {
+    const chunks = new ApiSchemaChunker().chunk('openapi: 3.0.0\npaths: [unclosed', 'openapi');
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].metadata.apiKind).toBeUndefined();
+  });
+});
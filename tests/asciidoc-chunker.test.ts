@@ -0,0 +1,58 @@
+import { AsciiDocChunker } from '../src/core/asciidoc-chunker';
+
+describe('AsciiDocChunker', () => {
+  test('should split on section titles and keep source blocks with their attributes', () => {
+    const listing = ['[source,python]', '.Connect', '----', 'client = MongoClient(uri)', '', 'db = client.app', '----'].join('\n');
+    const adoc = [
+      '= Driver Guide',
+      ':toc: left',
+      '',
+      '== Connecting',
+      '',
+      'Create a client first.',
+      '',
+      listing,
+      '',
+      '// reviewers: double-check the URI format',
+      '=== Pooling',
+      '',
+      'Pools are shared.'
+    ].join('\n');
+
+    const chunks = new AsciiDocChunker({ maxChars: 50 }).chunk(adoc);
+
+    expect(chunks.map(c => c.metadata.sectionTitles)).toEqual([
+      ['Driver Guide'],
+      ['Driver Guide', 'Connecting'],
+      ['Driver Guide', 'Connecting'],
+      ['Driver Guide', 'Connecting', 'Pooling']
+    ]);
+    expect(chunks[2].content).toBe(listing);
+    expect(chunks[2].metadata.hasCode).toBe(true);
+    expect(chunks.some(c => c.content.includes('reviewers'))).toBe(false);
+  });
+
+  test('should recognize admonition paragraphs and blocks', () => {
+    const adoc = [
+      '== Limits',
+      '',
+      'WARNING: Deleting a cluster cannot be undone.',
+      '',
+      '[TIP]',
+      '====',
+      'Use tags to group clusters.',
+      '====',
+      '',
+      '|===',
+      '| Tier | RAM',
+      '| M10 | 2 GB',
+      '|==='
+    ].join('\n');
+
+    const chunks = new AsciiDocChunker({ maxChars: 60 }).chunk(adoc);
+
+    expect(chunks.flatMap(c => c.metadata.admonitions ?? [])).toEqual(['warning', 'tip']);
+    expect(chunks.map(c => c.content)).toContain('|===\n| Tier | RAM\n| M10 | 2 GB\n|===');
+    expect(chunks[chunks.length - 1].metadata).toMatchObject({ startLine: 10, endLine: 13 });
+  });
+});
@@ -0,0 +1,237 @@
+import { CodeChunker, codeLanguageFor } from '../src/core/code-chunker';
+import type { Chunk } from '../src/types';
+
+function symbols(chunks: Chunk[]) {
+  return chunks.map(c => [c.metadata.symbolKind, c.metadata.symbol ?? null]);
+}
+
+describe('CodeChunker', () => {
+  test('should map file extensions to languages', () => {
+    expect(codeLanguageFor('src/app.tsx')).toBe('typescript');
+    expect(codeLanguageFor('lib/index.cjs')).toBe('javascript');
+    expect(codeLanguageFor('main.go')).toBe('go');
+    expect(codeLanguageFor('README.md')).toBeUndefined();
+  });
+
+  test('should keep TypeScript declarations whole with their doc comments', () => {
+    const source = [
+      "import { Db } from './db';",
+      '',
+      '/**',
+      ' * Says hi - braces in strings } do not count',
+      ' */',
+      'export function greet(name: string): string {',
+      '  return `hi ${name} }`;',
+      '}',
+      '',
+      'export const add = (a: number, b: number) => a + b;',
+      '',
+      'export interface User {',
+      '  id: string;',
+      '}',
+      '',
+      'export class UserService {',
+      '  constructor(private db: Db) {}',
+      '}'
+    ].join('\n');
+
+    const chunks = new CodeChunker().chunk(source, 'typescript');
+
+    expect(symbols(chunks)).toEqual([
+      ['module', null],
+      ['function', 'greet'],
+      ['function', 'add'],
+      ['interface', 'User'],
+      ['class', 'UserService']
+    ]);
+    expect(chunks.map(c => [c.metadata.startLine, c.metadata.endLine])).toEqual([[1, 1], [3, 8], [10, 10], [12, 14], [16, 18]]);
+    expect(chunks[1].content.startsWith('/**')).toBe(true);
+    expect(chunks[1].content.endsWith('}')).toBe(true);
+    expect(chunks.every(c => c.metadata.language === 'typescript' && c.metadata.hasCode)).toBe(true);
+  });
+
+  test('should split an oversized class into methods prefixed with the class signature', () => {
+    const method = (name: string) => [
+      `  async ${name}(id: string): Promise<void> {`,
+      ...Array.from({ length: 6 }, (_, i) => `    await this.db.call('${name}', id, ${i});`),
+      '  }'
+    ];
+    const source = [
+      '@Injectable()',
+      'export class OrderService extends Base {',
+      '  private orders = new Map<string, Order>();',
+      '',
+      ...method('create'),
+      '',
+      ...method('cancel'),
+      '}'
+    ].join('\n');
+
+    const chunks = new CodeChunker({ maxTokens: 150 }).chunk(source, 'typescript');
+
+    expect(symbols(chunks)).toEqual([
+      ['class', 'OrderService'],
+      ['method', 'OrderService.create'],
+      ['method', 'OrderService.cancel']
+    ]);
+    expect(chunks[0].content).toContain('private orders');
+    expect(chunks[1].content.split('\n')[0]).toBe('export class OrderService extends Base {');
+    expect(chunks[1].metadata.context).toBe('export class OrderService extends Base {');
+    // The prepended class signature isn't part of the method's range
+    expect([chunks[1].metadata.startLine, chunks[1].metadata.endLine]).toEqual([5, 12]);
+    expect(chunks[2].content).toContain("await this.db.call('cancel', id, 5);");
+  });
+
+  test('should follow Python indentation, decorators and triple-quoted strings', () => {
+    const source = [
+      'import os',
+      '',
+      '',
+      '@dataclass',
+      'class Repo:',
+      '    """A repository."""',
+      '    name: str',
+      '',
+      '    def clone(',
+      '        self,',
+      '        depth: int = 1,',
+      '    ) -> None:',
+      '        script = """',
+      'def not_a_function():',
+      '"""',
+      '        os.system(script)',
+      '',
+      '',
+      'async def main():',
+      '    pass'
+    ].join('\n');
+
+    const whole = new CodeChunker().chunk(source, 'python');
+    expect(symbols(whole)).toEqual([['module', null], ['class', 'Repo'], ['function', 'main']]);
+    expect(whole[1].content.startsWith('@dataclass')).toBe(true);
+
+    const split = new CodeChunker({ maxTokens: 90 }).chunk(source, 'python');
+    expect(symbols(split)).toEqual([
+      ['module', null],
+      ['class', 'Repo'],
+      ['method', 'Repo.clone'],
+      ['function', 'main']
+    ]);
+    expect(split[2].content).toContain('def not_a_function():');
+    expect(split[2].metadata.context).toBe('class Repo:');
+  });
+
+  test('should recognize Go functions, methods and types', () => {
+    const source = [
+      'package store',
+      '',
+      '// Store keeps items',
+      'type Store struct {',
+      '\tItems map[string]string',
+      '}',
+      '',
+      'func (s *Store) Get(key string) string {',
+      '\tquery := `raw { string`',
+      '\treturn s.Items[key] + query',
+      '}',
+      '',
+      'func New() *Store { return &Store{} }',
+      '',
+      'type ID string'
+    ].join('\n');
+
+    expect(symbols(new CodeChunker().chunk(source, 'go'))).toEqual([
+      ['module', null],
+      ['struct', 'Store'],
+      ['method', 'Store.Get'],
+      ['function', 'New'],
+      ['type', 'ID']
+    ]);
+  });
+
+  test('should split Java classes into methods and nested types', () => {
+    const source = [
+      'package com.acme;',
+      '',
+      '@Service',
+      'public class OrderService implements Api {',
+      '    private final List<String> orders = new ArrayList<>();',
+      '',
+      '    public OrderService(Repo repo) {',
+      '        this.repo = repo;',
+      '    }',
+      '',
+      '    @Override',
+      '    public <T> List<T> find(String id) throws Exception {',
+      '        if (id == null) { throw new IllegalArgumentException("}"); }',
+      '        return List.of();',
+      '    }',
+      '',
+      '    private static class Cache {',
+      '        int size;',
+      '    }',
+      '}'
+    ].join('\n');
+
+    const chunks = new CodeChunker({ maxTokens: 90 }).chunk(source, 'java');
+
+    expect(symbols(chunks)).toEqual([
+      ['module', null],
+      ['class', 'OrderService'],
+      ['method', 'OrderService.OrderService'],
+      ['method', 'OrderService.find'],
+      ['class', 'OrderService.Cache']
+    ]);
+    expect(chunks[3].content).toContain('@Override');
+  });
+
+  test('should split Rust impl blocks into methods and keep attributes', () => {
+    const source = [
+      'use std::fmt;',
+      '',
+      '#[derive(Debug)]',
+      'pub struct Point { x: i32, y: i32 }',
+      '',
+      "impl<'a> fmt::Display for Point {",
+      "    fn fmt(&self, f: &mut fmt::Formatter<'_>) -> fmt::Result {",
+      '        write!(f, "({}, {})", self.x, self.y)',
+      '    }',
+      '',
+      '    pub fn norm(&self) -> f64 {',
+      "        let brace = '{';",
+      '        ((self.x * self.x + self.y * self.y) as f64).sqrt()',
+      '    }',
+      '}',
+      '',
+      'pub trait Shape {',
+      '    fn area(&self) -> f64;',
+      '}'
+    ].join('\n');
+
+    const chunks = new CodeChunker({ maxTokens: 80 }).chunk(source, 'rust');
+
+    expect(symbols(chunks)).toEqual([
+      ['module', null],
+      ['struct', 'Point'],
+      ['method', 'Point.fmt'],
+      ['method', 'Point.norm'],
+      ['trait', 'Shape']
+    ]);
+    expect(chunks[1].content.startsWith('#[derive(Debug)]')).toBe(true);
+    expect(chunks[3].content.split('\n')[0]).toBe("impl<'a> fmt::Display for Point {");
+  });
+
+  test('should split an oversized function by lines and repeat its signature', () => {
+    const source = [
+      'function migrate(db) {',
+      ...Array.from({ length: 30 }, (_, i) => `  db.run('ALTER TABLE t${i} ADD COLUMN c${i} TEXT');`),
+      '}'
+    ].join('\n');
+
+    const chunks = new CodeChunker({ maxTokens: 80 }).chunk(source, 'javascript');
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(c => c.metadata.symbol === 'migrate' && c.metadata.tokenCount <= 80)).toBe(true);
+    expect(chunks.slice(1).every(c => c.metadata.isContinuation && c.content.startsWith('function migrate(db) {'))).toBe(true);
+  });
+});
@@ -0,0 +1,118 @@
+import JSZip from 'jszip';
+import { extractDocument, isDocumentFile } from '../src/core/document-extractor';
+import { FileChunker } from '../src/core/file-chunker';
+
+type PdfLine = [size: number, y: number, text: string];
+
+/**
+ * Minimal PDF with one text line per entry - Helvetica, no compression
+ */
+function pdf(pages: PdfLine[][], title?: string): Buffer {
+  const objects: string[] = [];
+  const add = (object: string) => objects.push(object);
+
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>');
+  const pagesId = 2 + pages.length * 2;
+  const pageIds = pages.map(lines => {
+    const stream = lines.map(([size, y, text]) => `BT /F1 ${size} Tf 72 ${y} Td (${text}) Tj ET`).join('\n');
+    add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    return add(`<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 612 792] /Contents ${objects.length} 0 R /Resources << /Font << /F1 1 0 R >> >> >>`);
+  });
+  add(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+  const catalog = add(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+  const info = add(title ? `<< /Title (${title}) >>` : '<< >>');
+
+  let out = '%PDF-1.4\n';
+  const offsets = objects.map((object, idx) => {
+    const offset = out.length;
+    out += `${idx + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')}`;
+  out += `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>\nstartxref\n${xref}\n%%EOF`;
+  return Buffer.from(out, 'latin1');
+}
+
+async function docx(body: string): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', '<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>');
+  zip.file('_rels/.rels', '<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>');
+  zip.file('word/document.xml', '<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">'
+    + `<w:body>${body}</w:body></w:document>`);
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+const paragraph = (text: string, style?: string) =>
+  `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}<w:r><w:t>${text}</w:t></w:r></w:p>`;
+
+describe('extractDocument', () => {
+  test('should only handle PDF and DOCX files', () => {
+    expect(isDocumentFile('specs/Design.PDF')).toBe(true);
+    expect(isDocumentFile('specs/design.docx')).toBe(true);
+    expect(isDocumentFile('specs/design.doc')).toBe(false);
+  });
+
+  test('should rebuild PDF text with headings, paragraphs and page breaks', async () => {
+    const text = await extractDocument('design.pdf', pdf([
+      [[24, 700, 'Design Overview'], [11, 660, 'The service stores'], [11, 646, 'documents in MongoDB.'], [11, 610, '# of shards is fixed.']],
+      [[18, 700, 'Storage'], [11, 660, 'Collections are sharded.']]
+    ], 'Storage Design'));
+
+    expect(text).toBe([
+      '---',
+      'title: Storage Design',
+      '---',
+      '',
+      '# Design Overview',
+      '',
+      'The service stores',
+      'documents in MongoDB.',
+      '',
+      '\\# of shards is fixed.',
+      '\f',
+      '## Storage',
+      '',
+      'Collections are sharded.'
+    ].join('\n'));
+  });
+
+  test('should stop at the page limit', async () => {
+    const pages = [1, 2, 3].map(page => [[11, 700, `Page ${page} text`]] as PdfLine[]);
+
+    const text = await extractDocument('long.pdf', pdf(pages), { maxPages: 2 });
+
+    expect(text).toBe('Page 1 text\n\f\nPage 2 text');
+  });
+
+  test('should convert DOCX headings and lists to Markdown', async () => {
+    const text = await extractDocument('spec.docx', await docx(
+      paragraph('Requirements', 'Heading1') + paragraph('Every write is acknowledged.') + paragraph('Failover', 'Heading2') + paragraph('A new primary is elected.')
+    ));
+
+    expect(text).toBe('# Requirements\n\nEvery write is acknowledged.\n\n## Failover\n\nA new primary is elected.');
+  });
+});
+
+describe('FileChunker documents', () => {
+  test('should record PDF pages instead of lines and keep the title', async () => {
+    const content = await extractDocument('design.pdf', pdf([
+      [[24, 700, 'Overview'], [11, 660, 'Intro text.']],
+      [[24, 700, 'Storage'], [11, 660, 'Sharded collections.']],
+      [[11, 700, 'More about sharding.']]
+    ], 'Design'));
+
+    const { frontMatter, chunks } = await new FileChunker({ mode: 'structural', fileTypes: {} }).chunk('design.pdf', content);
+
+    expect(frontMatter.title).toBe('Design');
+    expect(chunks.map(c => [c.metadata.sectionTitle, c.metadata.pageStart, c.metadata.pageEnd])).toEqual([
+      ['Overview', 1, 1],
+      ['Storage', 2, 3]
+    ]);
+    expect(chunks[1].content).not.toContain('\f');
+    expect(chunks[1].metadata.startLine).toBeUndefined();
+  });
+});
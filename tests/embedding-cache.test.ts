@@ -0,0 +1,57 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { EmbeddingCache, hashContent } from '../src/core/embedding-cache';
+import { HashingProvider } from '../src/core/embedding-providers';
+
+describe('EmbeddingCache', () => {
+  const provider = new HashingProvider(16);
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'embedocs-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should persist embeddings keyed by model, dimensions and content hash', async () => {
+    const texts = ['Atlas Vector Search', 'Change streams'];
+    const hashes = texts.map(hashContent);
+    const embeddings = await provider.embedDocuments(texts);
+
+    const cache = new EmbeddingCache(dir);
+    await cache.store(provider.model, 16, hashes, embeddings);
+
+    const reopened = new EmbeddingCache(dir);
+    const [first, second] = await reopened.lookup(provider.model, 16, hashes);
+    expect(first!.normalized[0]).toBeCloseTo(embeddings[0].normalized[0]);
+    expect(second!.normalized).toHaveLength(16);
+
+    // Other model or size = different vector space, never a hit
+    expect(await reopened.lookup('other-model', 16, hashes)).toEqual([undefined, undefined]);
+    expect(await reopened.lookup(provider.model, 32, hashes)).toEqual([undefined, undefined]);
+  });
+
+  test('should count hits and misses across sessions', async () => {
+    const hash = hashContent('Sharding');
+    const cache = new EmbeddingCache(dir);
+
+    await cache.lookup(provider.model, 16, [hash]);
+    await cache.store(provider.model, 16, [hash], await provider.embedDocuments(['Sharding']));
+    await cache.lookup(provider.model, 16, [hash]);
+
+    const stats = await new EmbeddingCache(dir).getStats();
+    expect(stats).toMatchObject({ entries: 1, hits: 1, misses: 1, hitRate: '50.0%' });
+  });
+
+  test('should do nothing when disabled', async () => {
+    const cache = new EmbeddingCache(dir, false);
+    const hash = hashContent('Indexes');
+
+    await cache.store(provider.model, 16, [hash], await provider.embedDocuments(['Indexes']));
+    expect(await cache.lookup(provider.model, 16, [hash])).toEqual([undefined]);
+    expect((await cache.getStats()).entries).toBe(0);
+  });
+});
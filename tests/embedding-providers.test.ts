@@ -0,0 +1,106 @@
+import { jest } from '@jest/globals';
+import axios from 'axios';
+import {
+  HashingProvider,
+  VoyageProvider,
+  createEmbeddingProvider,
+  resolveEmbeddingSettings,
+  splitByTokenBudget
+} from '../src/core/embedding-providers';
+import { cosineSimilarity } from '../src/core/mmr';
+
+describe('HashingProvider', () => {
+  const provider = new HashingProvider(128);
+
+  test('should be deterministic and normalized', async () => {
+    const [first] = await provider.embedDocuments(['Vector search indexes in Atlas']);
+    const second = await provider.embedQuery('Vector search indexes in Atlas');
+
+    expect(first.normalized).toEqual(second.normalized);
+    expect(first.dimensions).toBe(128);
+    const norm = Math.sqrt(first.normalized.reduce((sum, v) => sum + v * v, 0));
+    expect(norm).toBeCloseTo(1);
+  });
+
+  test('should score texts that share words as more similar', async () => {
+    const [query, related, unrelated] = await provider.embedDocuments([
+      'create a vector search index',
+      'how to create a vector index',
+      'billing and invoices overview'
+    ]);
+
+    expect(cosineSimilarity(query.normalized, related.normalized))
+      .toBeGreaterThan(cosineSimilarity(query.normalized, unrelated.normalized));
+  });
+});
+
+describe('resolveEmbeddingSettings', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test('should default to Voyage', () => {
+    delete process.env.EMBEDOCS_EMBEDDING_PROVIDER;
+    expect(resolveEmbeddingSettings().provider).toBe('voyage');
+  });
+
+  test('should select an OpenAI-compatible server from env', () => {
+    process.env.EMBEDOCS_EMBEDDING_PROVIDER = 'openai';
+    process.env.EMBEDOCS_EMBEDDING_URL = 'http://localhost:1234/v1';
+    process.env.EMBEDOCS_EMBEDDING_MODEL = 'bge-small';
+    process.env.EMBEDOCS_EMBEDDING_DIMENSIONS = '384';
+
+    const settings = resolveEmbeddingSettings();
+    expect(settings).toMatchObject({
+      provider: 'openai',
+      model: 'bge-small',
+      dimensions: 384,
+      baseUrl: 'http://localhost:1234/v1'
+    });
+    expect(createEmbeddingProvider(settings).dimensions).toBe(384);
+  });
+
+  test('should reject unknown providers', () => {
+    process.env.EMBEDOCS_EMBEDDING_PROVIDER = 'nope';
+    expect(() => resolveEmbeddingSettings()).toThrow('Unknown embedding provider');
+  });
+});
+
+describe('splitByTokenBudget', () => {
+  test('should keep small documents whole and split large ones in order', () => {
+    const chunk = 'x'.repeat(350); // ~100 tokens
+
+    expect(splitByTokenBudget([chunk, chunk], 1000)).toEqual([[chunk, chunk]]);
+    expect(splitByTokenBudget([chunk, chunk, chunk], 250)).toEqual([[chunk, chunk], [chunk]]);
+  });
+});
+
+describe('VoyageProvider contextualized groups', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should send each file as one inner list and map results back in order', async () => {
+    const post = jest.spyOn(axios, 'post').mockImplementation(async (_url, body: any) => ({
+      data: {
+        // Reversed on purpose - results must be placed by index
+        data: body.inputs.map((texts: string[], i: number) => ({
+          index: i,
+          data: texts.map((text, j) => ({ index: j, embedding: [text.length, i, j] }))
+        })).reverse()
+      }
+    }));
+
+    const provider = new VoyageProvider('test-key', { model: 'voyage-context-3', dimensions: 3, maxTokens: 8000 });
+    const results = await provider.embedDocumentGroups([['a', 'bb', 'ccc'], ['dddd']]);
+
+    expect(post).toHaveBeenCalledTimes(1);
+    expect((post.mock.calls[0][1] as any).inputs).toEqual([['a', 'bb', 'ccc'], ['dddd']]);
+    expect(results.map(group => group.map(r => r.embedding))).toEqual([
+      [[1, 0, 0], [2, 0, 1], [3, 0, 2]],
+      [[4, 1, 0]]
+    ]);
+  });
+});
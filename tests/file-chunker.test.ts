@@ -0,0 +1,63 @@
+import { FileChunker, getChunkingSettings } from '../src/core/file-chunker';
+
+describe('FileChunker', () => {
+  const original = { ...process.env };
+  afterEach(() => {
+    process.env = { ...original };
+  });
+
+  test('should keep code, config and markup structural when semantic is the global mode', () => {
+    const chunker = new FileChunker({ mode: 'semantic', fileTypes: {} });
+
+    expect(chunker.modeFor('wiki/Home.wiki')).toBe('semantic');
+    expect(chunker.modeFor('notes.TXT')).toBe('semantic');
+    expect(chunker.modeFor('docs/guide.rst')).toBe('structural');
+    expect(chunker.modeFor('docs/index.adoc')).toBe('structural');
+    expect(chunker.modeFor('src/app.ts')).toBe('structural');
+    expect(chunker.modeFor('lib/main.c')).toBe('structural');
+    expect(chunker.modeFor('config.yaml')).toBe('structural');
+    expect(chunker.modeFor('README.md')).toBe('structural');
+  });
+
+  test('should let file types override the global mode', () => {
+    const chunker = new FileChunker({ mode: 'structural', fileTypes: { '.md': 'semantic' } });
+
+    expect(chunker.modeFor('README.md')).toBe('semantic');
+    expect(chunker.modeFor('docs/guide.rst')).toBe('structural');
+  });
+
+  test('should read the mode and file types from the environment', () => {
+    process.env.EMBEDOCS_CHUNKING = 'semantic';
+    process.env.EMBEDOCS_CHUNKING_FILE_TYPES = '.RST=structural, txt=semantic';
+
+    expect(getChunkingSettings()).toEqual({ mode: 'semantic', fileTypes: { '.rst': 'structural', '.txt': 'semantic' } });
+
+    process.env.EMBEDOCS_CHUNKING = 'embeddings';
+    expect(() => getChunkingSettings()).toThrow('Unknown chunking mode "embeddings"');
+  });
+
+  test('should chunk structurally without any embedding calls', async () => {
+    const chunker = new FileChunker({ mode: 'structural', fileTypes: {} });
+    const text = 'First paragraph of the notes.\n\nSecond paragraph of the notes.';
+
+    const { chunks, mode } = await chunker.chunk('notes.txt', text);
+
+    expect(mode).toBe('structural');
+    expect(chunks.map(c => c.content)).toEqual([text]);
+    expect(chunker.getSemanticMetrics().totalRequests).toBe(0);
+  });
+
+  test('should chunk notebooks by cells in every mode', async () => {
+    const chunker = new FileChunker({ mode: 'semantic', fileTypes: {} });
+    const notebook = JSON.stringify({
+      cells: [{ cell_type: 'markdown', metadata: {}, source: ['# Intro'] }],
+      metadata: {}
+    });
+
+    const { chunks, mode } = await chunker.chunk('examples/intro.ipynb', notebook);
+
+    expect(mode).toBe('structural');
+    expect(chunks.map(c => c.content)).toEqual(['# Intro']);
+    expect(chunks[0].metadata.cellIndices).toEqual([0]);
+  });
+});
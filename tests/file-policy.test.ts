@@ -0,0 +1,115 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FilePolicy } from '../src/core/file-policy';
+
+describe('FilePolicy', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'embedocs-policy-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function write(relativePath: string, content = 'content') {
+    await fs.mkdir(path.dirname(path.join(dir, relativePath)), { recursive: true });
+    await fs.writeFile(path.join(dir, relativePath), content);
+  }
+
+  test('should accept docs, code and special files', () => {
+    const policy = new FilePolicy();
+
+    expect(policy.isEligiblePath('docs/guide.md')).toBe(true);
+    expect(policy.isEligiblePath('src/server.ts')).toBe(true);
+    expect(policy.isEligiblePath('pkg/handler.go')).toBe(true);
+    expect(policy.isEligiblePath('Dockerfile')).toBe(true);
+    expect(policy.isEligiblePath('assets/logo.png')).toBe(false);
+    expect(policy.isEligiblePath('node_modules/lib/index.js')).toBe(false);
+  });
+
+  test('should agree between the full scan and single-file checks', async () => {
+    const policy = new FilePolicy({ maxDepth: 2, maxFileSize: 100 });
+    const candidates = [
+      'README',
+      'docs/intro.md',
+      'src/app/main.py',
+      'src/app/deep/too-deep.py',
+      'dist/bundle.js',
+      'image.png',
+      'big.md'
+    ];
+    for (const file of candidates) {
+      await write(file, file === 'big.md' ? 'x'.repeat(200) : 'content');
+    }
+
+    const scanned = (await policy.scan(dir))
+      .map(file => path.relative(dir, file).split(path.sep).join('/'))
+      .sort();
+
+    const checked: string[] = [];
+    for (const file of candidates) {
+      if (await policy.isEligible(dir, file)) checked.push(file);
+    }
+
+    expect(scanned).toEqual(['README', 'docs/intro.md', 'src/app/main.py']);
+    expect(checked.sort()).toEqual(scanned);
+  });
+
+  test('should skip lockfiles and env files by default', () => {
+    const policy = new FilePolicy();
+
+    expect(policy.isEligiblePath('package-lock.json')).toBe(false);
+    expect(policy.isEligiblePath('app/Cargo.lock')).toBe(false);
+    expect(policy.isEligiblePath('.env')).toBe(false);
+    expect(policy.isEligiblePath('config/.env.production')).toBe(false);
+    expect(policy.isEligiblePath('.env.example')).toBe(true);
+    expect(policy.isEligiblePath('package.json')).toBe(true);
+  });
+
+  test('should apply include, exclude and subpath rules', () => {
+    const policy = FilePolicy.forRepository({
+      include: ['*.md', '*.mdx'],
+      exclude: ['docs/internal/'],
+      subpath: './docs/'
+    });
+
+    expect(policy.isEligiblePath('docs/guide.md')).toBe(true);
+    expect(policy.isEligiblePath('docs/api/page.mdx')).toBe(true);
+    expect(policy.isEligiblePath('docs/internal/notes.md')).toBe(false);
+    expect(policy.isEligiblePath('docs/example.ts')).toBe(false);
+    expect(policy.isEligiblePath('README.md')).toBe(false);
+  });
+
+  test('should honor nested .gitignore and .embedocsignore files in both modes', async () => {
+    const policy = new FilePolicy({ subpath: 'docs' });
+    await write('.gitignore', 'build/\n*.tmp.md\n');
+    await write('docs/.embedocsignore', 'drafts/\n/changelog.md\n');
+    const candidates = [
+      'src/index.ts',
+      'docs/intro.md',
+      'docs/scratch.tmp.md',
+      'docs/build/out.md',
+      'docs/drafts/idea.md',
+      'docs/changelog.md',
+      'docs/api/changelog.md'
+    ];
+    for (const file of candidates) {
+      await write(file);
+    }
+
+    const scanned = (await policy.scan(dir))
+      .map(file => path.relative(dir, file).split(path.sep).join('/'))
+      .sort();
+
+    const checked: string[] = [];
+    for (const file of candidates) {
+      if (await policy.isEligible(dir, file)) checked.push(file);
+    }
+
+    expect(scanned).toEqual(['docs/api/changelog.md', 'docs/intro.md']);
+    expect(checked.sort()).toEqual(scanned);
+  });
+});
@@ -0,0 +1,68 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { simpleGit } from 'simple-git';
+import { parseNameStatus } from '../src/core/git-diff';
+
+describe('parseNameStatus', () => {
+  test('should parse added, modified, deleted, renamed and copied files', () => {
+    const output = [
+      'A', 'docs/new.md',
+      'M', 'docs/changed.md',
+      'D', 'docs/gone.md',
+      'R087', 'docs/old name.md', 'docs/new name.md',
+      'C100', 'docs/a.md', 'docs/copy.md',
+      'T', 'docs/link.md'
+    ].join('\0') + '\0';
+
+    expect(parseNameStatus(output)).toEqual([
+      { status: 'A', path: 'docs/new.md' },
+      { status: 'M', path: 'docs/changed.md' },
+      { status: 'D', path: 'docs/gone.md' },
+      { status: 'R', oldPath: 'docs/old name.md', path: 'docs/new name.md' },
+      { status: 'A', path: 'docs/copy.md' },
+      { status: 'M', path: 'docs/link.md' }
+    ]);
+  });
+
+  test('should return nothing for an empty diff', () => {
+    expect(parseNameStatus('')).toEqual([]);
+  });
+
+  test('should match real git output', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'embedocs-git-'));
+    try {
+      const git = simpleGit(dir);
+      await git.init();
+      await git.addConfig('user.email', 'test@example.com');
+      await git.addConfig('user.name', 'Test');
+
+      const body = 'Shared body text that survives the rename.\n'.repeat(20);
+      await fs.writeFile(path.join(dir, 'keep.md'), 'v1\n');
+      await fs.writeFile(path.join(dir, 'remove.md'), 'bye\n');
+      await fs.writeFile(path.join(dir, 'before.md'), body);
+      await git.add('.');
+      await git.commit('first');
+      const oldHash = await git.revparse(['HEAD']);
+
+      await fs.writeFile(path.join(dir, 'keep.md'), 'v2\n');
+      await fs.rm(path.join(dir, 'remove.md'));
+      await fs.rename(path.join(dir, 'before.md'), path.join(dir, 'after.md'));
+      await git.add(['-A', '.']);
+      await git.commit('second');
+      const newHash = await git.revparse(['HEAD']);
+
+      const diff = await git.raw(['diff', '--name-status', '-M', '-z', oldHash, newHash]);
+      const changes = parseNameStatus(diff);
+
+      expect(changes).toEqual(expect.arrayContaining([
+        { status: 'M', path: 'keep.md' },
+        { status: 'D', path: 'remove.md' },
+        { status: 'R', oldPath: 'before.md', path: 'after.md' }
+      ]));
+      expect(changes).toHaveLength(3);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
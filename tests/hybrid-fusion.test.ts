@@ -0,0 +1,62 @@
+import { fusionStage, nativeFusionFor } from '../src/core/storage';
+import { resolveFusionMode, selectFusion } from '../src/core/search';
+
+describe('native fusion detection', () => {
+  test('should support $rankFusion from 8.1 and $scoreFusion from 8.2', () => {
+    expect(nativeFusionFor('7.0.12')).toEqual([]);
+    expect(nativeFusionFor('8.0.4')).toEqual([]);
+    expect(nativeFusionFor('8.1.0-rc1')).toEqual(['rankFusion']);
+    expect(nativeFusionFor('8.2.1')).toEqual(['rankFusion', 'scoreFusion']);
+    expect(nativeFusionFor('9.0.0')).toEqual(['rankFusion', 'scoreFusion']);
+  });
+});
+
+describe('selectFusion', () => {
+  test('should use $rankFusion automatically only when it matches client-side RRF', () => {
+    expect(selectFusion('auto', ['rankFusion', 'scoreFusion'], 60)).toBe('rankFusion');
+    expect(selectFusion('auto', ['rankFusion'], 20)).toBe('manual');
+    expect(selectFusion('auto', [], 60)).toBe('manual');
+  });
+
+  test('should fall back to client-side RRF when the requested stage is unsupported', () => {
+    expect(selectFusion('scoreFusion', ['rankFusion', 'scoreFusion'], 60)).toBe('scoreFusion');
+    expect(selectFusion('scoreFusion', ['rankFusion'], 60)).toBe('manual');
+    expect(selectFusion('manual', ['rankFusion'], 60)).toBe('manual');
+  });
+
+  test('should read the mode from EMBEDOCS_FUSION', () => {
+    const previous = process.env.EMBEDOCS_FUSION;
+    try {
+      process.env.EMBEDOCS_FUSION = 'scoreFusion';
+      expect(resolveFusionMode()).toBe('scoreFusion');
+      process.env.EMBEDOCS_FUSION = 'rrf';
+      expect(() => resolveFusionMode()).toThrow('Unknown fusion mode "rrf"');
+    } finally {
+      if (previous === undefined) delete process.env.EMBEDOCS_FUSION;
+      else process.env.EMBEDOCS_FUSION = previous;
+    }
+  });
+});
+
+describe('fusionStage', () => {
+  const pipelines = { vector: [{ $vectorSearch: {} }], keyword: [{ $search: {} }, { $limit: 10 }] };
+  const weights = { vectorWeight: 0.6, keywordWeight: 0.4 };
+
+  test('should weight both pipelines in $rankFusion', () => {
+    expect(fusionStage('rankFusion', pipelines, weights)).toEqual({
+      $rankFusion: {
+        input: { pipelines },
+        combination: { weights: { vector: 0.6, keyword: 0.4 } }
+      }
+    });
+  });
+
+  test('should normalize scores in $scoreFusion', () => {
+    expect(fusionStage('scoreFusion', pipelines, weights)).toEqual({
+      $scoreFusion: {
+        input: { pipelines, normalization: 'sigmoid' },
+        combination: { weights: { vector: 0.6, keyword: 0.4 }, method: 'avg' }
+      }
+    });
+  });
+});
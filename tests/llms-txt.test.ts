@@ -0,0 +1,172 @@
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { LlmsTxtLoader, parseLlmsTxt } from '../src/core/llms-txt';
+import { LlmsTxtSource } from '../src/core/sources';
+
+const llmsTxt = [
+  '# Example Driver',
+  '',
+  '> Official driver for the Example database.',
+  '',
+  'Use the guides below.',
+  '',
+  '## Docs',
+  '',
+  '- [Quick start](docs/quick-start.md): Connect and run a query',
+  '- [CRUD](/docs/crud.md)',
+  '',
+  '```markdown',
+  '- [Not a link](ignored.md)',
+  '```',
+  '',
+  '## Optional',
+  '',
+  '- [Changelog](https://other.example.org/changelog.md)'
+].join('\n');
+
+describe('parseLlmsTxt', () => {
+  test('should read the title, summary and section links', () => {
+    const index = parseLlmsTxt(llmsTxt, 'https://example.com/llms.txt');
+
+    expect(index.title).toBe('Example Driver');
+    expect(index.summary).toBe('Official driver for the Example database.');
+    expect(index.links).toEqual([
+      { title: 'Quick start', url: 'https://example.com/docs/quick-start.md', notes: 'Connect and run a query', section: 'Docs', optional: false },
+      { title: 'CRUD', url: 'https://example.com/docs/crud.md', section: 'Docs', optional: false },
+      { title: 'Changelog', url: 'https://other.example.org/changelog.md', section: 'Optional', optional: true }
+    ]);
+  });
+});
+
+describe('LlmsTxtSource', () => {
+  let dir: string;
+  let server: http.Server;
+  let baseUrl: string;
+  let files: Record<string, string>;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'embedocs-llms-'));
+    files = {
+      '/llms.txt': llmsTxt.replace('https://other.example.org/changelog.md', '/docs/changelog.md'),
+      '/docs/quick-start.md': '---\ntags: [intro]\n---\n# Quick start\n\nConnect with a URI.\n',
+      '/docs/crud.md': '# CRUD\n\nInsert and find documents.\n',
+      '/docs/changelog.md': '# Changelog\n\n## 1.0.0\n'
+    };
+
+    server = http.createServer((req, res) => {
+      const body = files[req.url!];
+      if (body === undefined) {
+        res.writeHead(404).end('Not found');
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/markdown; charset=utf-8' }).end(body);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const loaded = async (workdir: string) => (await fs.readdir(workdir, { recursive: true }))
+    .map(file => String(file).split(path.sep).join('/'))
+    .filter(file => file.endsWith('.md'))
+    .sort();
+
+  test('should write the index and linked documents with their URLs as front matter', async () => {
+    const workdir = path.join(dir, 'llms');
+    const source = new LlmsTxtSource(`${baseUrl}/llms.txt`, workdir, undefined, {}, path.join(dir, 'manifests'));
+
+    await source.sync();
+
+    expect(await loaded(workdir)).toEqual(['docs/changelog.md', 'docs/crud.md', 'docs/quick-start.md', 'llms.md']);
+    expect(await fs.readFile(path.join(workdir, 'docs/quick-start.md'), 'utf-8')).toBe([
+      '---',
+      'tags:',
+      '  - intro',
+      'title: Quick start',
+      `url: ${baseUrl}/docs/quick-start.md`,
+      'section: Docs',
+      'description: Connect and run a query',
+      '---',
+      '',
+      '# Quick start',
+      '',
+      'Connect with a URI.',
+      ''
+    ].join('\n'));
+    expect(await fs.readFile(path.join(workdir, 'llms.md'), 'utf-8')).toContain(`url: ${baseUrl}/llms.txt`);
+  });
+
+  test('should keep unreachable documents and remove unlinked ones on refresh', async () => {
+    const workdir = path.join(dir, 'llms');
+    const manifests = path.join(dir, 'manifests');
+
+    const first = new LlmsTxtSource(`${baseUrl}/llms.txt`, workdir, undefined, {}, manifests);
+    await first.sync();
+    const revision = await first.revision();
+    await first.markIndexed();
+
+    files['/llms.txt'] = files['/llms.txt'].replace(/- \[Changelog\].*/, '');
+    files['/docs/crud.md'] = '# CRUD\n\nInsert, find and update documents.\n';
+    delete files['/docs/quick-start.md'];
+
+    const second = new LlmsTxtSource(`${baseUrl}/llms.txt`, workdir, undefined, {}, manifests);
+    await second.sync();
+
+    expect(await loaded(workdir)).toEqual(['docs/crud.md', 'docs/quick-start.md', 'llms.md']);
+    expect((await second.changesSince(revision))!.sort((a, b) => a.path.localeCompare(b.path))).toEqual([
+      { status: 'D', path: 'docs/changelog.md' },
+      { status: 'M', path: 'docs/crud.md' },
+      { status: 'M', path: 'llms.md' }
+    ]);
+  });
+
+  test('should count file: links of a remote index as failed instead of reading them', async () => {
+    files['/llms.txt'] = '# Remote\n\n## Docs\n\n- [Local](file:///etc/hostname)\n- [CRUD](/docs/crud.md)\n';
+    const workdir = path.join(dir, 'remote');
+
+    const result = await new LlmsTxtLoader(`${baseUrl}/llms.txt`, workdir, path.join(dir, 'remote.json')).load();
+
+    expect(result).toMatchObject({ documents: 1, failed: 1, files: ['docs/crud.md', 'llms.md'] });
+  });
+
+  test('should only follow links of a local index below its directory', async () => {
+    const docs = path.join(dir, 'vendor');
+    await fs.mkdir(docs, { recursive: true });
+    await fs.writeFile(path.join(dir, 'secret.md'), '# Secret\n');
+    await fs.writeFile(path.join(docs, 'intro.md'), '# Intro\n');
+    await fs.writeFile(path.join(docs, 'llms.txt'), [
+      '# Local Docs',
+      '',
+      '## Docs',
+      '',
+      '- [Intro](intro.md)',
+      '- [Up](../secret.md)',
+      `- [Absolute](file://${path.join(dir, 'secret.md').split(path.sep).join('/')})`,
+      `- [Web](${baseUrl}/docs/crud.md)`
+    ].join('\n'));
+
+    const result = await new LlmsTxtLoader(path.join(docs, 'llms.txt'), path.join(dir, 'local'), path.join(dir, 'local.json')).load();
+
+    expect(result).toMatchObject({ documents: 1, failed: 3, files: ['intro.md', 'llms.md'] });
+  });
+
+  test('should read a local llms.txt and resolve links against its directory', async () => {
+    const docs = path.join(dir, 'vendor');
+    await fs.mkdir(path.join(docs, 'guides'), { recursive: true });
+    await fs.writeFile(path.join(docs, 'llms.txt'), '# Local Docs\n\n## Guides\n\n- [Setup](guides/setup.md)\n');
+    await fs.writeFile(path.join(docs, 'guides', 'setup.md'), '# Setup\n\nInstall it.\n');
+
+    const workdir = path.join(dir, 'local');
+    await new LlmsTxtSource(path.join(docs, 'llms.txt'), workdir, undefined, {}, path.join(dir, 'manifests')).sync();
+
+    expect(await loaded(workdir)).toEqual(['guides/setup.md', 'llms.md']);
+    expect(await fs.readFile(path.join(workdir, 'guides/setup.md'), 'utf-8')).toContain('url: file://');
+  });
+});
@@ -0,0 +1,155 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalVectorStore, matchesFilter } from '../src/core/local-store';
+import { Document } from '../src/core/vector-store';
+
+function makeDoc(id: string, content: string, embedding: number[], extra: Partial<Document> = {}): Document {
+  return {
+    documentId: id,
+    content,
+    embedding,
+    title: `${id}.md`,
+    product: 'docs',
+    version: 'latest',
+    metadata: { chunkIndex: 0 },
+    embeddingModel: 'test-model',
+    embeddingDimensions: embedding.length,
+    indexedAt: new Date(),
+    ...extra
+  };
+}
+
+describe('LocalVectorStore', () => {
+  let dir: string;
+  let store: LocalVectorStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'embedocs-store-'));
+    store = new LocalVectorStore(dir);
+    await store.connect();
+  });
+
+  afterEach(async () => {
+    await store.disconnect();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should rank vector results by cosine similarity', async () => {
+    await store.upsertDocuments([
+      makeDoc('a', 'Vector search with embeddings', [1, 0, 0]),
+      makeDoc('b', 'Keyword search with BM25', [0, 1, 0]),
+      makeDoc('c', 'Mostly vector search', [0.9, 0.1, 0])
+    ]);
+
+    const results = await store.vectorSearch([1, 0, 0], 2);
+
+    expect(results.map(r => r.documentId)).toEqual(['a', 'c']);
+    expect((results[0] as any).searchScore).toBeCloseTo(1);
+    expect(results[0].embedding).toBeUndefined();
+  });
+
+  test('should drop MMR candidates below the minimum score before picking diverse ones', async () => {
+    await store.upsertDocuments([
+      makeDoc('a', 'Vector search with embeddings', [1, 0, 0]),
+      makeDoc('a2', 'Vector search with embeddings again', [1, 0, 0]),
+      makeDoc('b', 'Keyword search with BM25', [0, 1, 0])
+    ]);
+
+    const diverse = await store.vectorSearchMMR([1, 0, 0], { limit: 2, lambdaMult: 0.3 });
+    const relevant = await store.vectorSearchMMR([1, 0, 0], { limit: 2, lambdaMult: 0.3, minScore: 0.7 });
+
+    expect(diverse.map(r => r.documentId)).toContain('b');
+    expect(relevant.map(r => r.documentId).sort()).toEqual(['a', 'a2']);
+  });
+
+  test('should find keyword matches with BM25', async () => {
+    await store.upsertDocuments([
+      makeDoc('a', 'Create an index with createSearchIndex', [1, 0]),
+      makeDoc('b', 'Aggregation pipelines transform documents', [0, 1])
+    ]);
+
+    const results = await store.keywordSearch('aggregation pipelines');
+
+    expect(results).toHaveLength(1);
+    expect(results[0].documentId).toBe('b');
+  });
+
+  test('should persist documents and repository state across reconnects', async () => {
+    await store.upsertDocuments([makeDoc('a', 'Persisted content', [0.5, 0.25])]);
+    await store.storeRepositoryHash('My Repo', 'abc123');
+    await store.disconnect();
+
+    const reopened = new LocalVectorStore(dir);
+    await reopened.connect();
+
+    expect(await reopened.count()).toBe(1);
+    expect(await reopened.getRepositoryHash('My Repo')).toBe('abc123');
+    const [doc] = await reopened.vectorSearch([0.5, 0.25], 1);
+    expect(doc.content).toBe('Persisted content');
+    await reopened.disconnect();
+  });
+
+  test('should apply MongoDB-style filters', async () => {
+    await store.upsertDocuments([
+      makeDoc('a', 'One', [1, 0], { product: 'atlas' }),
+      makeDoc('b', 'Two', [1, 0], { product: 'drivers' })
+    ]);
+
+    const results = await store.vectorSearch([1, 0], 10, { product: { $in: ['drivers'] } });
+
+    expect(results.map(r => r.documentId)).toEqual(['b']);
+    expect(await store.countByProduct('atlas')).toBe(1);
+  });
+
+  test('should replace and delete chunks owned by a file', async () => {
+    const owned = (id: string, file: string) =>
+      makeDoc(id, `Chunk ${id}`, [1, 0], { metadata: { repo: 'org/docs', path: file, chunkIndex: 0 } });
+
+    await store.upsertDocuments([owned('a1', 'a.md'), owned('a2', 'a.md'), owned('b1', 'b.md')]);
+    await store.replaceFileChunks('org/docs', ['a.md'], [owned('a3', 'a.md')]);
+
+    expect(await store.count({ 'metadata.path': 'a.md' })).toBe(1);
+    expect(await store.deleteFileChunks('org/docs', ['b.md'])).toBe(1);
+
+    // Both changes survive a reload of the log
+    await store.disconnect();
+    await store.connect();
+    expect((await store.vectorSearch([1, 0], 10)).map(d => d.documentId)).toEqual(['a3']);
+  });
+
+  test('should purge stale and path-less chunks of a repository after a full index', async () => {
+    const chunk = (id: string, metadata: Record<string, any>) => makeDoc(id, `Chunk ${id}`, [1, 0], { metadata });
+
+    await store.upsertDocuments([
+      chunk('current', { repo: 'org/docs', path: 'a.md', chunkIndex: 0 }),
+      chunk('deleted', { repo: 'org/docs', path: 'gone.md', chunkIndex: 0 }),
+      chunk('legacy', { repo: 'org/docs', file: '.repos/docs/a.md', chunkIndex: 0 }),
+      chunk('other', { repo: 'org/other', path: 'gone.md', chunkIndex: 0 })
+    ]);
+
+    expect(await store.deleteStaleChunks('org/docs', ['a.md'])).toBe(2);
+
+    await store.disconnect();
+    await store.connect();
+    expect((await store.vectorSearch([1, 0], 10)).map(d => d.documentId).sort()).toEqual(['current', 'other']);
+  });
+
+  test('should clean all documents', async () => {
+    await store.upsertDocuments([makeDoc('a', 'Gone soon', [1, 0])]);
+    await store.clean();
+
+    expect(await store.count()).toBe(0);
+  });
+});
+
+describe('matchesFilter', () => {
+  const doc = { product: 'atlas', metadata: { tags: ['search', 'vector'], chunkIndex: 3 } };
+
+  test('should support dotted paths, arrays and comparison operators', () => {
+    expect(matchesFilter(doc, { 'metadata.tags': 'vector' })).toBe(true);
+    expect(matchesFilter(doc, { 'metadata.chunkIndex': { $gte: 2, $lt: 4 } })).toBe(true);
+    expect(matchesFilter(doc, { $or: [{ product: 'drivers' }, { product: 'atlas' }] })).toBe(true);
+    expect(matchesFilter(doc, { product: { $ne: 'atlas' } })).toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+import { MarkdownChunker, parseFrontMatter } from '../src/core/markdown-chunker';
+
+describe('MarkdownChunker', () => {
+  test('should split on headings and record the breadcrumb', () => {
+    const markdown = [
+      '# Guide',
+      '',
+      'Intro paragraph.',
+      '',
+      '## Install',
+      '',
+      '### Linux',
+      '',
+      '- step one',
+      '- step two',
+      '',
+      '## Usage',
+      '',
+      'Run it.'
+    ].join('\n');
+
+    const { chunks } = new MarkdownChunker().chunk(markdown);
+
+    expect(chunks.map(c => c.metadata.sectionTitles)).toEqual([
+      ['Guide'],
+      ['Guide', 'Install', 'Linux'],
+      ['Guide', 'Usage']
+    ]);
+    expect(chunks.map(c => c.metadata.sectionLevel)).toEqual([1, 3, 2]);
+    // A heading with nothing under it travels with its first subsection
+    expect(chunks[1].content).toBe('## Install\n\n### Linux\n\n- step one\n- step two');
+  });
+
+  test('should never cut inside a code fence or table and keep whitespace intact', () => {
+    const code = ['```python', 'def main():', '', '    for i in range(3):', '        print(i)', '```'].join('\n');
+    const table = ['| Option | Default |', '| --- | --- |', '| `timeout` | 30 |', '| `retries` | 3 |'].join('\n');
+    const markdown = ['## Example', '', 'Some text here.', '', code, '', table, '', 'Closing words.'].join('\n');
+
+    const { chunks } = new MarkdownChunker({ maxChars: 60 }).chunk(markdown);
+    const contents = chunks.map(c => c.content);
+
+    expect(contents).toContain(code);
+    expect(contents).toContain(table);
+    expect(chunks.find(c => c.content === code)?.metadata.hasCode).toBe(true);
+    expect(chunks.every(c => c.metadata.sectionTitles?.[0] === 'Example')).toBe(true);
+    expect(chunks.slice(1).every(c => c.metadata.isContinuation)).toBe(true);
+  });
+
+  test('should treat headings inside code fences as code', () => {
+    const markdown = ['# Shell', '', '```bash', '# not a heading', 'echo hi', '```'].join('\n');
+
+    const { chunks } = new MarkdownChunker().chunk(markdown);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].metadata.sectionTitles).toEqual(['Shell']);
+  });
+
+  test('should re-fence pieces of a code block over the token limit', () => {
+    const lines = Array.from({ length: 40 }, (_, i) => `const value${i} = ${i};`);
+    const markdown = ['# Big', '', '```ts', ...lines, '```'].join('\n');
+
+    const { chunks } = new MarkdownChunker({ maxChars: 200, maxTokens: 50 }).chunk(markdown);
+    const pieces = chunks.map(c => c.content.replace(/^# Big\n\n/, ''));
+
+    expect(pieces.length).toBeGreaterThan(1);
+    for (const piece of pieces) {
+      expect(piece.startsWith('```ts\n')).toBe(true);
+      expect(piece.endsWith('\n```')).toBe(true);
+    }
+    expect(pieces.join('\n').match(/const value\d+/g)).toHaveLength(40);
+  });
+
+  test('should parse front matter, handle setext headings and drop MDX imports', () => {
+    const mdx = [
+      '---',
+      'title: Getting Started',
+      'tags: [intro, setup]',
+      '---',
+      "import { Tabs } from '@site/components';",
+      '',
+      'Overview',
+      '========',
+      '',
+      '<Tabs>Pick your platform.</Tabs>'
+    ].join('\n');
+
+    const { frontMatter, chunks } = new MarkdownChunker().chunk(mdx, true);
+
+    expect(frontMatter).toEqual({ title: 'Getting Started', tags: ['intro', 'setup'] });
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].content).toBe('Overview\n========\n\n<Tabs>Pick your platform.</Tabs>');
+    expect(chunks[0].metadata.sectionTitles).toEqual(['Overview']);
+  });
+
+  test('should record line and byte ranges in the original file', () => {
+    const markdown = [
+      '---',
+      'title: Ünïcode',
+      '---',
+      '# Intro',
+      '',
+      'Première ligne. Second sentence is here.',
+      '',
+      '## Next',
+      '',
+      'Done.'
+    ].join('\r\n');
+
+    const { chunks } = new MarkdownChunker({ maxChars: 30 }).chunk(markdown);
+    const bytes = Buffer.from(markdown);
+
+    expect(chunks.map(c => [c.metadata.startLine, c.metadata.endLine])).toEqual([[4, 6], [6, 6], [8, 10]]);
+    expect(bytes.subarray(chunks[1].metadata.startByte, chunks[1].metadata.endByte).toString()).toBe('Second sentence is here.');
+    expect(bytes.subarray(chunks[2].metadata.startByte, chunks[2].metadata.endByte).toString()).toBe('## Next\r\n\r\nDone.');
+  });
+
+  test('should leave documents without valid front matter untouched', () => {
+    expect(parseFrontMatter('# Title\n\n---\n\ntext')).toEqual({ frontMatter: {}, body: '# Title\n\n---\n\ntext' });
+    expect(parseFrontMatter('---\n: [broken\n---\nbody').body).toBe('body');
+  });
+});
@@ -0,0 +1,74 @@
+import { NotebookChunker } from '../src/core/notebook-chunker';
+
+const notebook = (cells: object[]) => JSON.stringify({
+  cells,
+  metadata: { kernelspec: { language: 'python', name: 'python3' } },
+  nbformat: 4,
+  nbformat_minor: 5
+}, null, 1);
+
+const markdown = (source: string[]) => ({ cell_type: 'markdown', metadata: {}, source });
+const code = (source: string[], outputs: object[] = []) => ({ cell_type: 'code', execution_count: 1, metadata: {}, outputs, source });
+
+describe('NotebookChunker', () => {
+  test('should group markdown with the code cells under it and record cell indices', () => {
+    const content = notebook([
+      markdown(['# Setup\n', 'Install the driver.']),
+      code(['!pip install pymongo']),
+      markdown(['# Queries']),
+      markdown(['Find one document.']),
+      code(['db.movies.find_one()'])
+    ]);
+
+    const chunks = new NotebookChunker().chunk(content);
+
+    expect(chunks.map(c => c.metadata.cellIndices)).toEqual([[0, 1], [2, 3, 4]]);
+    expect(chunks.map(c => c.metadata.sectionTitle)).toEqual(['Setup', 'Queries']);
+    expect(chunks[0].content).toBe('# Setup\nInstall the driver.\n\n```python\n!pip install pymongo\n```');
+    expect(chunks[1].metadata.language).toBe('python');
+    expect(chunks[1].metadata.hasCode).toBe(true);
+    expect(chunks.every(c => !c.content.includes('cell_type'))).toBe(true);
+
+    const lines = content.split('\n');
+    expect(lines[chunks[0].metadata.startLine! - 1].trim()).toBe('{');
+    expect(lines[chunks[1].metadata.endLine! - 1].trim()).toMatch(/^}/);
+    expect(chunks[0].metadata.endLine).toBeLessThan(chunks[1].metadata.startLine!);
+  });
+
+  test('should keep short text outputs and drop binary ones', () => {
+    const content = notebook([
+      code(['print(client.list_database_names())'], [
+        { output_type: 'stream', name: 'stdout', text: ["['admin', 'local']\n"] },
+        { output_type: 'display_data', data: { 'image/png': 'iVBORw0KGgo=' }, metadata: {} }
+      ]),
+      code(['db.command("buildInfo")'], [
+        { output_type: 'execute_result', data: { 'text/plain': ['x'.repeat(600)] }, metadata: {}, execution_count: 2 }
+      ])
+    ]);
+
+    const [chunk] = new NotebookChunker().chunk(content);
+
+    expect(chunk.content).toContain("Output:\n```\n['admin', 'local']\n```");
+    expect(chunk.content).not.toContain('iVBORw0KGgo');
+    expect(chunk.content).not.toContain('xxxx');
+
+    const [withoutOutputs] = new NotebookChunker({ keepOutputs: false }).chunk(content);
+    expect(withoutOutputs.content).not.toContain('Output:');
+  });
+
+  test('should split notebooks over the token budget between cells', () => {
+    const cells = Array.from({ length: 6 }, (_, idx) => code([`result_${idx} = db.collection.aggregate(pipeline_${idx})`]));
+
+    const chunks = new NotebookChunker({ maxTokens: 40 }).chunk(notebook(cells));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.flatMap(c => c.metadata.cellIndices)).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  test('should fall back to text chunking for invalid JSON', () => {
+    const chunks = new NotebookChunker().chunk('{"cells": [ broken');
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].metadata.cellIndices).toBeUndefined();
+  });
+});
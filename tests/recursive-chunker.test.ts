@@ -0,0 +1,44 @@
+import { RecursiveChunker } from '../src/core/recursive-chunker';
+
+describe('RecursiveChunker', () => {
+  test('should keep a small file as one chunk', () => {
+    const chunks = new RecursiveChunker({ maxTokens: 100 }).chunk('\n\nkey: value\nother: 1\n\n');
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].content).toBe('key: value\nother: 1');
+    expect(chunks[0].metadata).toMatchObject({ startLine: 3, endLine: 4, startByte: 2, endByte: 21 });
+  });
+
+  test('should split at paragraphs first and pack them up to the budget', () => {
+    const paragraph = (n: number) => `Paragraph ${n} has a few words in it.`;
+    const text = [1, 2, 3, 4, 5, 6].map(paragraph).join('\n\n');
+
+    const chunks = new RecursiveChunker({ maxTokens: 25 }).chunk(text);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(c => c.metadata.tokenCount <= 25)).toBe(true);
+    // Every chunk is an exact slice of the original, ending on a paragraph boundary
+    for (const chunk of chunks) {
+      expect(text.slice(chunk.metadata.startByte, chunk.metadata.endByte)).toBe(chunk.content);
+      expect(chunk.content.endsWith('in it.')).toBe(true);
+    }
+  });
+
+  test('should fall back to sentences and words for long lines', () => {
+    const sentence = 'This sentence keeps going for quite a while.';
+    const text = Array.from({ length: 8 }, () => sentence).join(' ');
+
+    const chunks = new RecursiveChunker({ maxTokens: 20 }).chunk(text);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(c => c.content.startsWith('This') && c.content.endsWith('.'))).toBe(true);
+    expect(chunks.map(c => c.content).join(' ')).toBe(text);
+  });
+
+  test('should be deterministic', () => {
+    const text = Array.from({ length: 50 }, (_, i) => `line ${i}: ${'x'.repeat(i % 7)}`).join('\n');
+    const chunker = new RecursiveChunker({ maxTokens: 40 });
+
+    expect(chunker.chunk(text)).toEqual(chunker.chunk(text));
+  });
+});
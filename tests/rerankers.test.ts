@@ -0,0 +1,75 @@
+import { LexicalReranker, createReranker, queryIdentifiers, resolveRerankerName } from '../src/core/rerankers';
+
+const candidate = (content: string, title?: string, filePath?: string) => ({
+  content,
+  title,
+  metadata: filePath ? { path: filePath } : undefined
+});
+
+describe('LexicalReranker', () => {
+  const reranker = new LexicalReranker();
+
+  test('should prefer matches in the title and path over incidental mentions', async () => {
+    const hits = await reranker.rerank('connection pooling', [
+      candidate('Drivers reuse sockets. See the connection settings and pooling notes elsewhere.', 'Drivers', 'docs/drivers.md'),
+      candidate('Set maxPoolSize to limit sockets per host.', 'Connection Pooling', 'docs/connection-pooling.md'),
+      candidate('Aggregation pipelines transform documents.', 'Aggregation', 'docs/aggregation.md')
+    ], 2);
+
+    expect(hits.map(hit => hit.index)).toEqual([1, 0]);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+    expect(hits[0].score).toBeLessThanOrEqual(1);
+  });
+
+  test('should reward query terms that appear close together', () => {
+    const [near, far] = reranker.score('write concern', [
+      candidate('Every write concern is acknowledged by the primary.'),
+      candidate('A write goes to the primary. Replication lag is a separate concern.')
+    ]);
+
+    expect(near).toBeGreaterThan(far);
+  });
+
+  test('should reward identifiers found verbatim', () => {
+    const [exact, prose] = reranker.score('how does insertMany handle errors', [
+      candidate('Call collection.insertMany(docs) - errors are reported per document.'),
+      candidate('Insert many documents at once - errors are reported per document.')
+    ]);
+
+    expect(exact).toBeGreaterThan(prose);
+    expect(queryIdentifiers('use $lookup with find_one and db.orders.find')).toEqual(['$lookup', 'find_one', 'db.orders.find']);
+    expect(queryIdentifiers('connection pooling')).toEqual([]);
+  });
+});
+
+describe('resolveRerankerName', () => {
+  const saved = { reranker: process.env.EMBEDOCS_RERANKER, key: process.env.VOYAGE_API_KEY };
+
+  afterEach(() => {
+    for (const [name, value] of [['EMBEDOCS_RERANKER', saved.reranker], ['VOYAGE_API_KEY', saved.key]] as const) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  });
+
+  test('should use Voyage only when a key is set', () => {
+    delete process.env.EMBEDOCS_RERANKER;
+    delete process.env.VOYAGE_API_KEY;
+    expect(resolveRerankerName()).toBe('lexical');
+
+    process.env.VOYAGE_API_KEY = 'test-key';
+    expect(resolveRerankerName()).toBe('voyage');
+  });
+
+  test('should honour EMBEDOCS_RERANKER', () => {
+    process.env.EMBEDOCS_RERANKER = 'none';
+    expect(resolveRerankerName()).toBe('none');
+    expect(createReranker('none')).toBeNull();
+
+    process.env.EMBEDOCS_RERANKER = 'cohere';
+    expect(() => resolveRerankerName()).toThrow('Unknown reranker "cohere"');
+
+    delete process.env.VOYAGE_API_KEY;
+    expect(() => createReranker('voyage')).toThrow('VOYAGE_API_KEY is required');
+  });
+});
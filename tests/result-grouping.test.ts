@@ -0,0 +1,51 @@
+import { groupByFile } from '../src/core/result-grouping';
+import { SearchResult } from '../src/core/search';
+
+const chunk = (id: string, filePath: string, score: number, repo = 'mongodb/docs'): SearchResult => ({
+  documentId: id,
+  content: `Content of ${id}`,
+  score,
+  title: filePath.split('/').pop(),
+  product: 'docs',
+  metadata: { path: filePath, repo, chunkIndex: Number(id.slice(1)) }
+});
+
+describe('groupByFile', () => {
+  test('should collapse chunks by file and keep the best ones', () => {
+    const files = groupByFile([
+      chunk('a1', 'guide/pooling.md', 0.9),
+      chunk('a2', 'guide/pooling.md', 0.5),
+      chunk('b1', 'reference/pool.md', 0.8),
+      chunk('a3', 'guide/pooling.md', 0.7)
+    ], 10, { chunksPerFile: 2, otherChunkWeight: 0.25 });
+
+    expect(files.map(file => [file.path, file.matchedChunks, file.chunks.map(c => c.documentId)])).toEqual([
+      ['guide/pooling.md', 3, ['a1', 'a3']],
+      ['reference/pool.md', 1, ['b1']]
+    ]);
+    expect(files[0].maxScore).toBe(0.9);
+    expect(files[0].score).toBeCloseTo(0.9 + 0.25 * (0.7 + 0.5));
+    expect(files[0]).toMatchObject({ repo: 'mongodb/docs', product: 'docs', title: 'pooling.md' });
+  });
+
+  test('should rank files by aggregated score and return the top ones', () => {
+    const results = [
+      chunk('a1', 'a.md', 0.8),
+      chunk('b1', 'b.md', 0.7),
+      chunk('b2', 'b.md', 0.6),
+      chunk('c1', 'c.md', 0.75)
+    ];
+
+    expect(groupByFile(results, 2, { otherChunkWeight: 0.25 }).map(file => file.path)).toEqual(['b.md', 'a.md']);
+    expect(groupByFile(results, 2, { otherChunkWeight: 0 }).map(file => file.path)).toEqual(['a.md', 'c.md']);
+  });
+
+  test('should keep the same path in different repositories apart', () => {
+    const files = groupByFile([
+      chunk('a1', 'README.md', 0.9, 'org/one'),
+      chunk('b1', 'README.md', 0.8, 'org/two')
+    ], 10);
+
+    expect(files.map(file => [file.repo, file.matchedChunks])).toEqual([['org/one', 1], ['org/two', 1]]);
+  });
+});
@@ -0,0 +1,104 @@
+import { RstChunker } from '../src/core/rst-chunker';
+
+describe('RstChunker', () => {
+  test('should split on section adornments with docutils levels', () => {
+    const rst = [
+      '=============',
+      'Install Guide',
+      '=============',
+      '',
+      'Intro text.',
+      '',
+      'Requirements',
+      '------------',
+      '',
+      'You need Python.',
+      '',
+      'Linux',
+      '~~~~~',
+      '',
+      'Use apt.',
+      '',
+      'Upgrading',
+      '---------',
+      '',
+      'Run the installer again.'
+    ].join('\n');
+
+    const chunks = new RstChunker().chunk(rst);
+
+    expect(chunks.map(c => c.metadata.sectionTitles)).toEqual([
+      ['Install Guide'],
+      ['Install Guide', 'Requirements'],
+      ['Install Guide', 'Requirements', 'Linux'],
+      ['Install Guide', 'Upgrading']
+    ]);
+    expect(chunks.map(c => c.metadata.sectionLevel)).toEqual([1, 2, 3, 2]);
+    expect(chunks.map(c => [c.metadata.startLine, c.metadata.endLine])).toEqual([[1, 5], [7, 10], [12, 15], [17, 20]]);
+  });
+
+  test('should keep code-block directives and literal blocks whole as code', () => {
+    const code = [
+      '.. code-block:: javascript',
+      '   :copyable: true',
+      '',
+      '   db.users.find({ age: { $gt: 21 } })',
+      '',
+      '   db.users.countDocuments()'
+    ].join('\n');
+    const rst = ['Queries', '=======', '', 'Run this:', '', code, '', 'Or in the shell::', '', '    mongosh --eval "1"', '', 'Done.'].join('\n');
+
+    const chunks = new RstChunker({ maxChars: 40 }).chunk(rst);
+    const contents = chunks.map(c => c.content);
+
+    expect(contents).toContain(code);
+    expect(contents).toContain('    mongosh --eval "1"\n\nDone.');
+    expect(chunks.filter(c => c.metadata.hasCode)).toHaveLength(2);
+    expect(chunks.every(c => c.metadata.sectionTitle === 'Queries')).toBe(true);
+  });
+
+  test('should record admonitions and keep tables whole', () => {
+    const table = [
+      '.. list-table::',
+      '   :header-rows: 1',
+      '',
+      '   * - Option',
+      '     - Default',
+      '   * - timeout',
+      '     - 30'
+    ].join('\n');
+    const rst = [
+      'Settings',
+      '========',
+      '',
+      '.. note::',
+      '',
+      '   Restart after changing settings.',
+      '',
+      table,
+      '',
+      '.. toctree::',
+      '   :titlesonly:',
+      '',
+      '   /reference'
+    ].join('\n');
+
+    const chunks = new RstChunker({ maxChars: 60 }).chunk(rst);
+
+    expect(chunks.find(c => c.content.includes('Restart'))?.metadata.admonitions).toEqual(['note']);
+    expect(chunks.map(c => c.content)).toContain(table);
+    expect(chunks.some(c => c.content.includes('/reference'))).toBe(true);
+  });
+
+  test('should repeat the directive header when an oversized code block is split', () => {
+    const body = Array.from({ length: 30 }, (_, i) => `   print(${i})`);
+    const rst = ['Big', '===', '', '.. code-block:: python', '', ...body].join('\n');
+
+    const chunks = new RstChunker({ maxChars: 120, maxTokens: 40 }).chunk(rst);
+    const pieces = chunks.map(c => c.content.replace(/^Big\n===\n\n/, ''));
+
+    expect(pieces.length).toBeGreaterThan(1);
+    expect(pieces.every(piece => piece.startsWith('.. code-block:: python\n\n   print('))).toBe(true);
+    expect(pieces.join('\n').match(/print\(\d+\)/g)).toHaveLength(30);
+  });
+});
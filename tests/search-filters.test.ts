@@ -0,0 +1,109 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  directoriesOf,
+  matchesPathFilter,
+  parseSearchFilters,
+  toAtlasSearchFilter,
+  toMongoFilter
+} from '../src/core/search-filters';
+import { LocalVectorStore } from '../src/core/local-store';
+import { Document } from '../src/core/vector-store';
+
+describe('search filters', () => {
+  test('should read filters from tool arguments', () => {
+    expect(parseSearchFilters({
+      query: 'connection pooling',
+      products: 'pymongo',
+      fileTypes: ['.MD', 'py'],
+      path: './docs/guide/',
+      hasCode: false
+    })).toEqual({ products: ['pymongo'], fileTypes: ['md', 'py'], path: 'docs/guide', hasCode: false });
+
+    expect(parseSearchFilters({ query: 'x', products: [], version: '' })).toEqual({});
+    expect(() => parseSearchFilters({ hasCode: 'yes' })).toThrow('Invalid filter "hasCode"');
+    expect(() => parseSearchFilters({ repos: [42] })).toThrow('Invalid filter "repos"');
+  });
+
+  test('should build one MongoDB query and matching Atlas Search clauses', () => {
+    const filter = toMongoFilter({ products: ['pymongo'], version: 'latest', path: 'docs/guide', hasCode: true });
+
+    expect(filter).toEqual({
+      $and: [
+        { product: { $in: ['pymongo'] } },
+        { version: 'latest' },
+        { 'metadata.hasCode': true },
+        { $or: [{ 'metadata.dirs': 'docs/guide' }, { 'metadata.path': 'docs/guide' }] }
+      ]
+    });
+    expect(toAtlasSearchFilter(filter)).toEqual([
+      { in: { path: 'product', value: ['pymongo'] } },
+      { equals: { path: 'version', value: 'latest' } },
+      { equals: { path: 'metadata.hasCode', value: true } },
+      {
+        compound: {
+          should: [
+            { compound: { filter: [{ equals: { path: 'metadata.dirs', value: 'docs/guide' } }] } },
+            { compound: { filter: [{ equals: { path: 'metadata.path', value: 'docs/guide' } }] } }
+          ],
+          minimumShouldMatch: 1
+        }
+      }
+    ]);
+    expect(toMongoFilter({})).toBeUndefined();
+  });
+
+  test('should push globs down by their leading directories and match the rest on results', () => {
+    expect(toMongoFilter({ path: 'docs/api/**/*.md' })).toEqual({ 'metadata.dirs': 'docs/api' });
+    expect(toMongoFilter({ path: '*.md' })).toBeUndefined();
+
+    expect(matchesPathFilter('docs/api/**/*.md', 'docs/api/v2/users.md')).toBe(true);
+    expect(matchesPathFilter('docs/api/**/*.md', 'docs/api/v2/users.yaml')).toBe(false);
+    expect(matchesPathFilter('docs/guide', 'src/app.ts')).toBe(true); // Pushed down, nothing to check
+    expect(directoriesOf('docs/guide/intro.md')).toEqual(['docs', 'docs/guide']);
+    expect(directoriesOf('README.md')).toEqual([]);
+  });
+});
+
+describe('filtered search on the local store', () => {
+  let dir: string;
+  let store: LocalVectorStore;
+
+  const doc = (id: string, filePath: string, product: string, hasCode: boolean): Document => ({
+    documentId: id,
+    content: `Connection pooling notes ${id}`,
+    embedding: [1, 0],
+    title: path.basename(filePath),
+    product,
+    version: 'latest',
+    metadata: { path: filePath, dirs: directoriesOf(filePath), fileType: path.extname(filePath).slice(1), hasCode, chunkIndex: 0 },
+    embeddingModel: 'test-model',
+    embeddingDimensions: 2,
+    indexedAt: new Date()
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'embedocs-filters-'));
+    store = new LocalVectorStore(dir);
+    await store.connect();
+    await store.upsertDocuments([
+      doc('a', 'docs/guide/pooling.md', 'pymongo', false),
+      doc('b', 'docs/reference/pool.py', 'pymongo', true),
+      doc('c', 'docs/guide/pooling.md', 'motor', false)
+    ]);
+  });
+
+  afterEach(async () => {
+    await store.disconnect();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should apply the same filter to vector and keyword search', async () => {
+    const filter = toMongoFilter({ products: ['pymongo'], path: 'docs/guide' });
+
+    expect((await store.vectorSearch([1, 0], 10, filter)).map(d => d.documentId)).toEqual(['a']);
+    expect((await store.keywordSearch('connection pooling', 10, filter)).map(d => d.documentId)).toEqual(['a']);
+    expect((await store.keywordSearch('connection pooling', 10, toMongoFilter({ hasCode: true }))).map(d => d.documentId)).toEqual(['b']);
+  });
+});
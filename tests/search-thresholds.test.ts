@@ -0,0 +1,91 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { HashingProvider } from '../src/core/embedding-providers';
+import { SearchService, assessConfidence } from '../src/core/search';
+import { getVectorStore } from '../src/core/vector-store';
+
+describe('assessConfidence', () => {
+  test('should judge reranked results by relevance and the rest by vector similarity', () => {
+    expect(assessConfidence([{ rerankScore: 0.12, vectorScore: 0.95 }, { rerankScore: 0.2 }]))
+      .toEqual({ low: true, score: 0.2, basis: 'rerank', threshold: 0.3 });
+    expect(assessConfidence([{ vectorScore: 0.91 }, {}])).toEqual({ low: false, score: 0.91, basis: 'vector', threshold: 0.8 });
+    expect(assessConfidence([{}])).toEqual({ low: false });
+  });
+});
+
+describe('SearchService thresholds', () => {
+  const env = ['EMBEDOCS_STORAGE', 'EMBEDOCS_LOCAL_PATH', 'EMBEDOCS_RERANKER', 'EMBEDOCS_FUSION', 'EMBEDOCS_EMBEDDING_PROVIDER'] as const;
+  const saved = env.map(name => process.env[name]);
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'embedocs-thresholds-'));
+    Object.assign(process.env, {
+      EMBEDOCS_STORAGE: 'local',
+      EMBEDOCS_LOCAL_PATH: dir,
+      EMBEDOCS_RERANKER: 'lexical',
+      EMBEDOCS_FUSION: 'manual',
+      EMBEDOCS_EMBEDDING_PROVIDER: 'hashing'
+    });
+
+    const texts = [
+      'Connection pooling reuses sockets.',
+      'Connection pooling limits open sockets per host.',
+      'Tune connection pooling with maxPoolSize.',
+      'Monitor connection pooling events.',
+      'Aggregation pipelines transform documents.'
+    ];
+    const provider = new HashingProvider();
+    const embeddings = await provider.embedDocuments(texts);
+    // A paraphrase: close to the query in vector space, without a word in common
+    texts.push('Sockets are kept open and shared between requests.');
+    embeddings.push(await provider.embedQuery('connection pooling'));
+    const store = getVectorStore();
+    await store.connect();
+    await store.upsertDocuments(texts.map((content, idx) => ({
+      documentId: `doc-${idx}`,
+      content,
+      embedding: embeddings[idx].normalized,
+      title: `doc-${idx}.md`,
+      product: 'docs',
+      metadata: { path: `doc-${idx}.md` },
+      embeddingModel: provider.model,
+      embeddingDimensions: provider.dimensions,
+      indexedAt: new Date()
+    })));
+  });
+
+  afterAll(async () => {
+    await getVectorStore().disconnect();
+    env.forEach((name, idx) => {
+      if (saved[idx] === undefined) delete process.env[name];
+      else process.env[name] = saved[idx];
+    });
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should drop results below the retrieval thresholds and rerank the rest', async () => {
+    const results = await SearchService.getInstance().hybridSearch('connection pooling', 10);
+
+    expect(results.map(result => result.documentId).sort()).toEqual(['doc-0', 'doc-1', 'doc-2', 'doc-3', 'doc-5']);
+    expect(results.every(result => result.rerankScore === undefined)).toBe(true);
+    expect(assessConfidence(results)).toMatchObject({ low: false, basis: 'vector' });
+  });
+
+  test('should keep semantic matches without shared terms after a lexical rerank', async () => {
+    const results = await SearchService.getInstance().hybridSearch('connection pooling', 10);
+    const paraphrase = results.find(result => result.documentId === 'doc-5');
+
+    expect(paraphrase).toMatchObject({ score: 0 });
+    expect(paraphrase!.vectorScore).toBeCloseTo(1);
+  });
+
+  test('should flag weak matches as low confidence', async () => {
+    const results = await SearchService.getInstance().vectorSearch('sockets', 10);
+
+    expect(results.length).toBeGreaterThan(0);
+    expect(results.every(result => result.vectorScore! >= 0.7)).toBe(true);
+    expect(assessConfidence(results)).toMatchObject({ low: true, basis: 'vector' });
+  });
+});
@@ -0,0 +1,47 @@
+import { SourceText, formatLocation } from '../src/core/source-positions';
+
+describe('SourceText', () => {
+  test('should map char ranges to 1-based lines and UTF-8 byte offsets', () => {
+    const text = 'first\r\ncafé ☕\nlast';
+    const source = new SourceText(text);
+    const start = text.indexOf('café');
+
+    expect(source.lineCount).toBe(3);
+    expect(source.span(start, start + 'café ☕'.length)).toEqual({
+      startLine: 2,
+      endLine: 2,
+      startByte: 7,
+      endByte: 7 + Buffer.byteLength('café ☕')
+    });
+    expect(source.lines(0, 2)).toEqual({ startLine: 1, endLine: 3, startByte: 0, endByte: Buffer.byteLength(text) });
+  });
+
+  test('should skip a leading BOM but count its bytes', () => {
+    const source = new SourceText('\uFEFFhello\nworld');
+
+    expect(source.offsetOf(0)).toBe(1);
+    expect(source.lines(1, 1)).toEqual({ startLine: 2, endLine: 2, startByte: 9, endByte: 14 });
+  });
+
+  test('should locate whitespace-normalized chunks in the original text', () => {
+    const text = 'Intro line.\n\n  Indented   second\n\tsentence here.\nTail text.';
+    const source = new SourceText(text);
+
+    const exact = source.locate('Indented second sentence here.');
+    expect(exact && text.slice(exact.start, exact.end)).toBe('Indented   second\n\tsentence here.');
+
+    // A dropped sentence in the middle - anchored by both ends
+    const anchored = source.locate('Intro line. Tail text.', 0, 6);
+    expect(anchored && text.slice(anchored.start, anchored.end)).toBe(text);
+
+    expect(source.locate('Intro line.', 1)).toBeUndefined();
+  });
+
+  test('should format locations as path:start-end', () => {
+    expect(formatLocation('src/app.ts', { startLine: 12, endLine: 40 })).toBe('src/app.ts:12-40');
+    expect(formatLocation('src/app.ts', { startLine: 7, endLine: 7 })).toBe('src/app.ts:7');
+    expect(formatLocation('src/app.ts', {})).toBe('src/app.ts');
+    expect(formatLocation('specs/design.pdf', { pageStart: 3, pageEnd: 4 })).toBe('specs/design.pdf (pp. 3-4)');
+    expect(formatLocation('specs/design.pdf', { pageStart: 7, pageEnd: 7 })).toBe('specs/design.pdf (p. 7)');
+  });
+});
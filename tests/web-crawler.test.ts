@@ -0,0 +1,197 @@
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { RobotsRules, htmlToMarkdown, pageFile } from '../src/core/web-crawler';
+import { WebSource } from '../src/core/sources';
+
+interface FixturePage {
+  body: string;
+  type?: string;
+  etag?: string;
+}
+
+const page = (title: string, body: string, nav = '') =>
+  `<html><head><title>${title}</title></head><body><nav>${nav}</nav><main>${body}</main><footer>© Example</footer></body></html>`;
+
+describe('htmlToMarkdown', () => {
+  test('should keep the main content as Markdown and drop page chrome', () => {
+    const html = `
+      <html><head><title>Install | Example Docs</title></head>
+      <body>
+        <header><a href="/">Home</a></header>
+        <nav><a href="/docs/guide.html#setup">Guide</a></nav>
+        <article>
+          <h1>Install</h1>
+          <p>Run the  installer
+            with <code>--yes</code>.</p>
+          <pre><code class="language-bash">npm install example
+npm run setup</code></pre>
+          <ul><li>Linux</li><li>macOS<ul><li>Intel</li></ul></li></ul>
+          <table><tr><th>Flag</th><th>Meaning</th></tr><tr><td>-y</td><td>Yes</td></tr></table>
+          <script>track()</script>
+        </article>
+        <footer>Copyright</footer>
+      </body></html>`;
+
+    const extracted = htmlToMarkdown(html, 'https://example.com/docs/install.html');
+
+    expect(extracted.title).toBe('Install | Example Docs');
+    expect(extracted.markdown).toBe([
+      '# Install',
+      '',
+      'Run the installer with `--yes`.',
+      '',
+      '```bash',
+      'npm install example',
+      'npm run setup',
+      '```',
+      '',
+      '- Linux',
+      '- macOS',
+      '  - Intel',
+      '',
+      '| Flag | Meaning |',
+      '| --- | --- |',
+      '| -y | Yes |'
+    ].join('\n'));
+    expect(extracted.links.sort()).toEqual(['https://example.com/', 'https://example.com/docs/guide.html']);
+  });
+
+  test('should map page URLs to Markdown files', () => {
+    expect(pageFile('https://example.com/docs/')).toBe('docs/index.md');
+    expect(pageFile('https://example.com/docs/guide.html')).toBe('docs/guide.md');
+    expect(pageFile('https://example.com/docs/search?q=1')).toMatch(/^docs\/search_[0-9a-f]{8}\.md$/);
+  });
+});
+
+describe('RobotsRules', () => {
+  test('should apply the most specific group and the longest matching rule', () => {
+    const robots = new RobotsRules([
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: EmbeDocs-MCP',
+      'Disallow: /docs/private/',
+      'Allow: /docs/private/public.html',
+      'Disallow: /*.pdf$',
+      'Crawl-delay: 2'
+    ].join('\n'), 'EmbeDocs-MCP/1.0');
+
+    expect(robots.isAllowed('https://example.com/docs/guide.html')).toBe(true);
+    expect(robots.isAllowed('https://example.com/docs/private/keys.html')).toBe(false);
+    expect(robots.isAllowed('https://example.com/docs/private/public.html')).toBe(true);
+    expect(robots.isAllowed('https://example.com/docs/manual.pdf')).toBe(false);
+    expect(robots.crawlDelayMs).toBe(2000);
+
+    expect(new RobotsRules('User-agent: *\nDisallow: /', 'OtherBot').isAllowed('https://example.com/docs/')).toBe(false);
+    expect(new RobotsRules('', 'OtherBot').isAllowed('https://example.com/docs/')).toBe(true);
+  });
+});
+
+describe('WebSource', () => {
+  let dir: string;
+  let server: http.Server;
+  let baseUrl: string;
+  let pages: Record<string, FixturePage>;
+  let requests: { url: string; ifNoneMatch?: string }[];
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'embedocs-web-'));
+    requests = [];
+    pages = {
+      '/robots.txt': { body: 'User-agent: *\nDisallow: /docs/private/', type: 'text/plain' },
+      '/docs/': {
+        body: page('Docs', '<h1>Docs</h1><p>Welcome to the docs.</p>',
+          '<a href="guide.html">Guide</a> <a href="private/keys.html">Keys</a> <a href="/blog/post.html">Blog</a> <a href="logo.png">Logo</a>'),
+        etag: '"index-1"'
+      },
+      '/docs/guide.html': { body: page('Guide', '<h1>Guide</h1><p>Connect with a URI.</p>', '<a href="/docs/">Docs</a> <a href="faq.html">FAQ</a>'), etag: '"guide-1"' },
+      '/docs/faq.html': { body: page('FAQ', '<h1>FAQ</h1><p>Questions and answers.</p>'), etag: '"faq-1"' },
+      '/docs/private/keys.html': { body: page('Keys', '<p>Do not crawl me.</p>') },
+      '/blog/post.html': { body: page('Blog', '<p>Out of scope.</p>') },
+      '/docs/sitemap.xml': {
+        body: '<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">'
+          + '<url><loc>BASE/docs/guide.html</loc></url><url><loc>BASE/docs/faq.html</loc></url></urlset>',
+        type: 'application/xml'
+      }
+    };
+
+    // Static fixture site with ETag support
+    server = http.createServer((req, res) => {
+      const fixture = pages[req.url!];
+      requests.push({ url: req.url!, ifNoneMatch: req.headers['if-none-match'] });
+      if (!fixture) {
+        res.writeHead(404).end('Not found');
+        return;
+      }
+      if (fixture.etag && req.headers['if-none-match'] === fixture.etag) {
+        res.writeHead(304).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': fixture.type ?? 'text/html; charset=utf-8', ...(fixture.etag && { ETag: fixture.etag }) });
+      res.end(fixture.body.replace(/BASE/g, baseUrl));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const crawled = async (workdir: string) => (await fs.readdir(workdir, { recursive: true }))
+    .map(file => String(file).split(path.sep).join('/'))
+    .filter(file => file.endsWith('.md'))
+    .sort();
+
+  test('should crawl within the scope and honor robots.txt', async () => {
+    const workdir = path.join(dir, 'site');
+    const source = new WebSource(`${baseUrl}/docs/`, workdir, undefined, {}, path.join(dir, 'manifests'));
+
+    await source.sync();
+
+    expect(await crawled(workdir)).toEqual(['docs/faq.md', 'docs/guide.md', 'docs/index.md']);
+    expect(requests.map(request => request.url)).not.toContain('/docs/private/keys.html');
+    expect(requests.map(request => request.url)).not.toContain('/blog/post.html');
+
+    const guide = await fs.readFile(path.join(workdir, 'docs/guide.md'), 'utf-8');
+    expect(guide).toBe(`---\ntitle: Guide\nurl: ${baseUrl}/docs/guide.html\n---\n\n# Guide\n\nConnect with a URI.\n`);
+  });
+
+  test('should stop at the page limit and crawl only sitemap pages', async () => {
+    const limited = new WebSource(`${baseUrl}/docs/`, path.join(dir, 'limited'), undefined, { maxPages: 2 }, path.join(dir, 'manifests'));
+    await limited.sync();
+    expect(await crawled(path.join(dir, 'limited'))).toEqual(['docs/guide.md', 'docs/index.md']);
+
+    const sitemap = new WebSource(`${baseUrl}/docs/sitemap.xml`, path.join(dir, 'sitemap'), undefined, {}, path.join(dir, 'manifests'));
+    await sitemap.sync();
+    expect(await crawled(path.join(dir, 'sitemap'))).toEqual(['docs/faq.md', 'docs/guide.md']);
+  });
+
+  test('should refresh with conditional requests and report changed pages', async () => {
+    const workdir = path.join(dir, 'site');
+    const manifests = path.join(dir, 'manifests');
+
+    const first = new WebSource(`${baseUrl}/docs/`, workdir, undefined, {}, manifests);
+    await first.sync();
+    const revision = await first.revision();
+    await first.markIndexed();
+
+    pages['/docs/guide.html'] = { body: page('Guide', '<h1>Guide</h1><p>Connect with a connection string.</p>', '<a href="faq.html">FAQ</a>'), etag: '"guide-2"' };
+    delete pages['/docs/faq.html'];
+    requests = [];
+
+    const second = new WebSource(`${baseUrl}/docs/`, workdir, undefined, {}, manifests);
+    await second.sync();
+
+    expect(requests.find(request => request.url === '/docs/')!.ifNoneMatch).toBe('"index-1"');
+    expect(requests.find(request => request.url === '/docs/guide.html')!.ifNoneMatch).toBe('"guide-1"');
+    expect((await second.changesSince(revision))!.sort((a, b) => a.path.localeCompare(b.path))).toEqual([
+      { status: 'D', path: 'docs/faq.md' },
+      { status: 'M', path: 'docs/guide.md' }
+    ]);
+  });
+});